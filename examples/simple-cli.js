@@ -45,37 +45,44 @@ async function main() {
       output: process.stdout
     });
     
-    // Store conversation history
-    const messages = [];
+    // The conversation keeps the history and vault settings for us
+    let conversation = client.createConversation({ vaultId: VAULT_ID });
+    
+    // Recreate the client, carrying the conversation history over
+    function recreateClient(debug) {
+      client = new HustleIncognitoClient({
+        apiKey: API_KEY,
+        debug
+      });
+      conversation = client.createConversation({
+        vaultId: VAULT_ID,
+        messages: conversation.messages,
+        currentPath: conversation.currentPath
+      });
+    }
     
     // Stream the response from the API
-    async function streamResponse(messages) {
+    async function streamResponse(input) {
       let fullText = '';
       let toolCalls = [];
       
       process.stdout.write('\nAgent: ');
       
       try {
-        for await (const chunk of client.chatStream({
-          vaultId: VAULT_ID,
-          messages,
-          processChunks: true
-        })) {
-          if ('type' in chunk) {
-            switch (chunk.type) {
-              case 'text':
-                process.stdout.write(chunk.value);
-                fullText += chunk.value;
-                break;
-                
-              case 'tool_call':
-                toolCalls.push(chunk.value);
-                break;
-                
-              case 'finish':
-                process.stdout.write('\n');
-                break;
-            }
+        for await (const chunk of conversation.stream(input)) {
+          switch (chunk.type) {
+            case 'text':
+              process.stdout.write(chunk.value);
+              fullText += chunk.value;
+              break;
+              
+            case 'tool_call':
+              toolCalls.push(chunk.value);
+              break;
+              
+            case 'finish':
+              process.stdout.write('\n');
+              break;
           }
         }
       } catch (error) {
@@ -156,18 +163,12 @@ async function main() {
           if (parts[1] === 'on') {
             settings.debug = true;
             // Reinitialize client with new debug setting
-            client = new HustleIncognitoClient({
-              apiKey: API_KEY,
-              debug: true
-            });
+            recreateClient(true);
             console.log('Debug mode enabled');
           } else if (parts[1] === 'off') {
             settings.debug = false;
             // Reinitialize client with new debug setting
-            client = new HustleIncognitoClient({
-              apiKey: API_KEY,
-              debug: false
-            });
+            recreateClient(false);
             console.log('Debug mode disabled');
           } else {
             console.log(`Invalid option: ${parts[1]}. Use 'on' or 'off'`);
@@ -200,25 +201,17 @@ async function main() {
           return;
         }
         
-        // Add user message to history
-        messages.push({ role: 'user', content: input });
-        
         if (!settings.stream) {
           console.log('\nAgent is thinking...');
         }
         
         try {
-          let assistantResponse = '';
-          
           if (settings.stream) {
             // Stream the response
-            assistantResponse = await streamResponse([...messages]);
+            await streamResponse(input);
           } else {
             // Get response from the AI (non-streaming)
-            const response = await client.chat(
-              messages,
-              { vaultId: VAULT_ID }
-            );
+            const response = await conversation.send(input);
             
             console.log(`\nAgent: ${response.content}`);
             
@@ -232,18 +225,11 @@ async function main() {
                 }
               });
             }
-            
-            assistantResponse = response.content;
           }
           
-          // Add assistant response to history
-          if (assistantResponse && assistantResponse.length > 0) {
-            if (settings.debug) {
-              console.log(`\n[DEBUG] Adding assistant response to history: ${assistantResponse.substring(0, 50)}${assistantResponse.length > 50 ? '...' : ''}`);
-            }
-            messages.push({ role: 'assistant', content: assistantResponse });
-          } else if (settings.debug) {
-            console.log('\n[DEBUG] No assistant response to add to history');
+          // The conversation has already recorded both messages
+          if (settings.debug) {
+            console.log(`\n[DEBUG] Conversation now has ${conversation.messages.length} messages`);
           }
           
           // Continue the conversation
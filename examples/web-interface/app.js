@@ -1,15 +1,38 @@
-// Import the Hustle Incognito client
-import { HustleIncognitoClient } from '../../dist/esm/index.js';
+// Chat requests go to the proxy in server.js, which keeps the API key on the server
+const COMPLETIONS_URL = '/v1/chat/completions';
 
-// Configuration
-const API_KEY = 'b7921b24-5055-46ca-a5bf-c2cccc6da6a4'; // Replace with your API key
-const VAULT_ID = '553830330'; // Replace with your vault ID
+// Streams text deltas from the proxy's server-sent events
+async function* streamCompletion(messages) {
+  const response = await fetch(COMPLETIONS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ messages, stream: true })
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message || `Request failed with status ${response.status}`);
+  }
 
-// Initialize the client
-const client = new HustleIncognitoClient({
-  apiKey: API_KEY,
-  debug: false // Set to true for debugging
-});
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const events = buffer.split('\n\n');
+    buffer = events.pop();
+    for (const event of events) {
+      const data = event.replace(/^data: /, '');
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      if (chunk.error) throw new Error(chunk.error.message);
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
 
 // DOM elements
 const chatMessages = document.getElementById('chat-messages');
@@ -55,61 +78,28 @@ async function sendMessage() {
   try {
     // Stream the response
     let fullText = '';
-    let toolCalls = [];
-    
-    for await (const chunk of client.chatStream({
-      vaultId: VAULT_ID,
-      messages,
-      processChunks: true
-    })) {
-      if ('type' in chunk) {
-        switch (chunk.type) {
-          case 'text':
-            // Remove thinking indicator if this is the first text chunk
-            if (!fullText) {
-              chatMessages.removeChild(thinkingElement);
-              // Create a new message element for the bot
-              const botMessageElement = document.createElement('div');
-              botMessageElement.className = 'message bot-message';
-              botMessageElement.id = 'current-bot-message';
-              chatMessages.appendChild(botMessageElement);
-            }
-            
-            fullText += chunk.value;
-            document.getElementById('current-bot-message').textContent = fullText;
-            break;
-            
-          case 'tool_call':
-            toolCalls.push(chunk.value);
-            break;
-            
-          case 'finish':
-            // Remove the ID from the bot message when finished
-            const currentBotMessage = document.getElementById('current-bot-message');
-            if (currentBotMessage) {
-              currentBotMessage.removeAttribute('id');
-            }
-            break;
-        }
+
+    for await (const text of streamCompletion(messages)) {
+      // Remove thinking indicator if this is the first text chunk
+      if (!fullText) {
+        chatMessages.removeChild(thinkingElement);
+        // Create a new message element for the bot
+        const botMessageElement = document.createElement('div');
+        botMessageElement.className = 'message bot-message';
+        botMessageElement.id = 'current-bot-message';
+        chatMessages.appendChild(botMessageElement);
       }
+
+      fullText += text;
+      document.getElementById('current-bot-message').textContent = fullText;
     }
-    
-    // Display tool usage if any
-    if (toolCalls.length > 0) {
-      let toolsText = 'Tools used:\n';
-      toolCalls.forEach((tool, i) => {
-        toolsText += `${i+1}. ${tool.toolName || 'Unknown tool'} (ID: ${tool.toolCallId || 'unknown'})\n`;
-        if (tool.args) {
-          toolsText += `   Args: ${JSON.stringify(tool.args)}\n`;
-        }
-      });
-      
-      const toolElement = document.createElement('div');
-      toolElement.className = 'message tool-message';
-      toolElement.textContent = toolsText;
-      chatMessages.appendChild(toolElement);
+
+    // Remove the ID from the bot message when finished
+    const currentBotMessage = document.getElementById('current-bot-message');
+    if (currentBotMessage) {
+      currentBotMessage.removeAttribute('id');
     }
-    
+
     // Add bot response to history
     if (fullText) {
       messages.push({ role: 'assistant', content: fullText });
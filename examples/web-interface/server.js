@@ -1,13 +1,22 @@
 import express from 'express';
+import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { createHustleProxy } from '../../dist/esm/proxy/index.js';
+
+// Load the API key from .env so it never reaches the browser
+dotenv.config();
 
 // Get the directory name of the current module
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Create Express app
-const app = express();
+// The OpenAI-compatible proxy holds the API key and serves /v1/chat/completions
+const app = createHustleProxy({
+  apiKey: process.env.HUSTLE_API_KEY,
+  vaultId: process.env.VAULT_ID || 'default',
+  cors: false // The page is served from the same origin
+});
 
 // Serve static files from the current directory
 app.use(express.static(__dirname));
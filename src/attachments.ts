@@ -0,0 +1,208 @@
+// src/attachments.ts
+import type { Attachment, AttachmentInput, MessagePart } from './types';
+import { AttachmentError } from './errors.js';
+
+/** Default maximum attachment size: 10 MB. */
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+/**
+ * Options for creating attachments.
+ */
+export interface AttachmentOptions {
+  /** Maximum size in bytes. Defaults to 10 MB. */
+  maxBytes?: number;
+}
+
+/**
+ * Detects a content type from the file signature, falling back to the file extension.
+ *
+ * @param bytes - The file content, if available.
+ * @param name - The file name or URL, if available.
+ */
+export function detectContentType(bytes?: Uint8Array, name?: string): string {
+  if (bytes && bytes.length >= 4) {
+    const [b0, b1, b2, b3] = bytes;
+    if (b0 === 0x89 && b1 === 0x50 && b2 === 0x4e && b3 === 0x47) return 'image/png';
+    if (b0 === 0xff && b1 === 0xd8 && b2 === 0xff) return 'image/jpeg';
+    if (b0 === 0x47 && b1 === 0x49 && b2 === 0x46) return 'image/gif';
+    if (b0 === 0x25 && b1 === 0x50 && b2 === 0x44 && b3 === 0x46) return 'application/pdf';
+    if (
+      b0 === 0x52 &&
+      b1 === 0x49 &&
+      b2 === 0x46 &&
+      b3 === 0x46 &&
+      bytes.length >= 12 &&
+      String.fromCharCode(...bytes.slice(8, 12)) === 'WEBP'
+    ) {
+      return 'image/webp';
+    }
+  }
+
+  const extension = name?.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase();
+  return (extension && CONTENT_TYPES_BY_EXTENSION[extension]) || 'application/octet-stream';
+}
+
+/**
+ * Turns a file path, URL, Blob or bytes into an attachment. Local content is size-checked and
+ * encoded as a base64 data URL; remote URLs are passed through for the server to fetch.
+ *
+ * @param input - The content to attach.
+ * @param options - Optional size limit.
+ * @throws AttachmentError if the content is too large or cannot be read.
+ */
+export async function createAttachment(
+  input: AttachmentInput,
+  options: AttachmentOptions = {}
+): Promise<Attachment> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_ATTACHMENT_BYTES;
+  const described =
+    typeof input === 'object' && input !== null && 'data' in input
+      ? input
+      : { data: input, name: undefined, contentType: undefined };
+  const { data } = described;
+
+  if (typeof data === 'string') {
+    if (/^https?:\/\//i.test(data)) {
+      const name = described.name || data.split(/[?#]/)[0]?.split('/').pop() || undefined;
+      return {
+        name,
+        contentType: described.contentType || detectContentType(undefined, data),
+        url: data,
+      };
+    }
+    if (data.startsWith('data:')) {
+      return fromDataUrl(data, described.name, described.contentType, maxBytes);
+    }
+    return fromFile(data, described.name, described.contentType, maxBytes);
+  }
+
+  let bytes: Uint8Array;
+  let name = described.name;
+  let contentType = described.contentType;
+  if (typeof Blob !== 'undefined' && data instanceof Blob) {
+    checkSize(data.size, maxBytes, name);
+    bytes = new Uint8Array(await data.arrayBuffer());
+    name = name || (data as { name?: string }).name;
+    contentType = contentType || data.type || undefined;
+  } else if (data instanceof ArrayBuffer) {
+    bytes = new Uint8Array(data);
+  } else {
+    bytes = data as Uint8Array;
+  }
+
+  checkSize(bytes.length, maxBytes, name);
+  return toAttachment(bytes, name, contentType || detectContentType(bytes, name));
+}
+
+/**
+ * Resolves a list of attachment inputs in order.
+ */
+export async function createAttachments(
+  inputs: AttachmentInput[] | undefined,
+  options: AttachmentOptions = {}
+): Promise<Attachment[]> {
+  const attachments: Attachment[] = [];
+  for (const input of inputs || []) {
+    attachments.push(await createAttachment(input, options));
+  }
+  return attachments;
+}
+
+/**
+ * Turns an input into an `image` or `file` message part.
+ */
+export async function createAttachmentPart(
+  input: AttachmentInput,
+  options: AttachmentOptions = {}
+): Promise<MessagePart> {
+  const attachment = await createAttachment(input, options);
+  return {
+    type: attachment.contentType.startsWith('image/') ? 'image' : 'file',
+    url: attachment.url,
+    mimeType: attachment.contentType,
+    name: attachment.name,
+  };
+}
+
+async function fromFile(
+  path: string,
+  name: string | undefined,
+  contentType: string | undefined,
+  maxBytes: number
+): Promise<Attachment> {
+  let bytes: Uint8Array;
+  try {
+    const fs = await import('node:fs/promises');
+    const stats = await fs.stat(path);
+    checkSize(stats.size, maxBytes, name || path);
+    bytes = await fs.readFile(path);
+  } catch (error) {
+    if (error instanceof AttachmentError) throw error;
+    throw new AttachmentError(`Could not read attachment ${path}: ${String(error)}`, {
+      cause: error,
+    });
+  }
+
+  const fileName = name || path.split(/[\\/]/).pop();
+  return toAttachment(bytes, fileName, contentType || detectContentType(bytes, fileName));
+}
+
+function fromDataUrl(
+  url: string,
+  name: string | undefined,
+  contentType: string | undefined,
+  maxBytes: number
+): Attachment {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(url);
+  if (!match) throw new AttachmentError('Invalid data URL attachment');
+
+  const payload = match[3] || '';
+  const size = match[2]
+    ? Math.floor((payload.length * 3) / 4) - (payload.match(/=+$/)?.[0].length ?? 0)
+    : decodeURIComponent(payload).length;
+  checkSize(size, maxBytes, name);
+
+  return { name, contentType: contentType || match[1] || 'text/plain', url };
+}
+
+function toAttachment(
+  bytes: Uint8Array,
+  name: string | undefined,
+  contentType: string
+): Attachment {
+  return { name, contentType, url: `data:${contentType};base64,${toBase64(bytes)}` };
+}
+
+function checkSize(size: number, maxBytes: number, name?: string): void {
+  if (size > maxBytes) {
+    throw new AttachmentError(
+      `Attachment ${name ? `${name} ` : ''}is ${size} bytes, over the ${maxBytes} byte limit`
+    );
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  }
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
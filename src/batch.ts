@@ -0,0 +1,250 @@
+// src/batch.ts
+import type { ChatMessage, ChatOptions, ProcessedResponse } from './types';
+import type { HustleIncognitoClient } from './client.js';
+
+// Default number of items sent at once
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * One prompt of a batch, with its own chat options.
+ */
+export interface BatchItem extends Omit<ChatOptions, 'rawResponse'> {
+  /** Stable ID for results and checkpoints. Defaults to the item's index. */
+  id?: string;
+  /** The messages to send, or the text of a single user message. */
+  messages: ChatMessage[] | string;
+}
+
+/**
+ * The outcome of one batch item, in the shape of `Promise.allSettled`. Items that never ran,
+ * because the batch stopped or was aborted first, are `skipped`.
+ */
+export type BatchResult = { id: string; index: number } & (
+  | {
+      status: 'fulfilled';
+      response: ProcessedResponse;
+      /** Whether the response was read from the checkpoint instead of being requested. */
+      resumed: boolean;
+    }
+  | { status: 'rejected'; error: Error }
+  | { status: 'skipped' }
+);
+
+/**
+ * Progress of a batch, reported after each item.
+ */
+export interface BatchProgress {
+  total: number;
+  /** Items that succeeded or failed so far, including resumed ones. */
+  completed: number;
+  succeeded: number;
+  failed: number;
+  /** Items taken from the checkpoint. */
+  resumed: number;
+  /** The item that just finished. */
+  result: BatchResult;
+}
+
+/**
+ * What a checkpoint holds: the responses of the items that succeeded, by item ID.
+ */
+export interface BatchCheckpointData {
+  version: 1;
+  responses: Record<string, ProcessedResponse>;
+}
+
+/**
+ * Keeps the progress of a batch so an interrupted batch can be resumed.
+ */
+export interface BatchCheckpoint {
+  /** Returns the saved progress, or null if nothing was saved yet. */
+  load(): Promise<BatchCheckpointData | null>;
+  save(data: BatchCheckpointData): Promise<void>;
+}
+
+/**
+ * Options for `client.batch()`.
+ */
+export interface BatchOptions {
+  /** Most items sent at once. Defaults to 4. */
+  concurrency?: number;
+  /** Start no more items after the first failure. The rest are `skipped`. Defaults to false. */
+  stopOnError?: boolean;
+  /** Chat options for every item. Options set on an item win. */
+  defaults?: Omit<ChatOptions, 'rawResponse'>;
+  /** Called after each item. Errors it throws are ignored. */
+  onProgress?: (progress: BatchProgress) => void;
+  /**
+   * Saves each response as it arrives, and skips items that already succeeded when the batch
+   * runs again. Pass a file path (Node.js) or your own checkpoint.
+   */
+  checkpoint?: string | BatchCheckpoint;
+  /** Stops starting items when aborted, and aborts the items already running. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Keeps a batch checkpoint in a JSON file. Node.js only.
+ */
+export class FileBatchCheckpoint implements BatchCheckpoint {
+  private readonly path: string;
+
+  /**
+   * @param path - The JSON file. Created on first save.
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  public async load(): Promise<BatchCheckpointData | null> {
+    const fs = await import('node:fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  public async save(data: BatchCheckpointData): Promise<void> {
+    const fs = await import('node:fs/promises');
+    // Write to a temporary file first so a crash never leaves a truncated checkpoint
+    const temporary = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(temporary, this.path);
+  }
+}
+
+/**
+ * Runs `chat()` for every item with at most `concurrency` requests at once.
+ *
+ * @returns One result per item, in input order.
+ * @throws Error for duplicate item IDs, or if the checkpoint cannot be read or written.
+ */
+export async function runBatch(
+  client: HustleIncognitoClient,
+  items: BatchItem[],
+  options: BatchOptions = {}
+): Promise<BatchResult[]> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('Batch concurrency must be a positive integer');
+  }
+  const ids = items.map((item, index) => item.id ?? String(index));
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) throw new Error(`Duplicate batch item ID ${id}`);
+    seen.add(id);
+  }
+
+  const checkpoint =
+    typeof options.checkpoint === 'string'
+      ? new FileBatchCheckpoint(options.checkpoint)
+      : options.checkpoint;
+  const saved = (await checkpoint?.load())?.responses || {};
+  // Only responses of this batch's items are kept when the checkpoint is saved again
+  const responses: Record<string, ProcessedResponse> = {};
+  let saving = Promise.resolve();
+
+  const results: BatchResult[] = ids.map((id, index) => ({ id, index, status: 'skipped' }));
+  const progress = { total: items.length, completed: 0, succeeded: 0, failed: 0, resumed: 0 };
+  const report = (result: BatchResult) => {
+    results[result.index] = result;
+    progress.completed++;
+    if (result.status === 'rejected') progress.failed++;
+    else progress.succeeded++;
+    try {
+      options.onProgress?.({ ...progress, result });
+    } catch {
+      // Progress reporting must not break the batch
+    }
+  };
+
+  const pending: number[] = [];
+  ids.forEach((id, index) => {
+    const response = Object.prototype.hasOwnProperty.call(saved, id) ? saved[id] : undefined;
+    if (!response) {
+      pending.push(index);
+      return;
+    }
+    responses[id] = response;
+    progress.resumed++;
+    report({ id, index, status: 'fulfilled', response, resumed: true });
+  });
+
+  let stopped = false;
+  // Aborts the chats in flight when the caller aborts or the checkpoint cannot be saved
+  const stop = new AbortController();
+  const unlinkStop = linkSignal(options.signal, stop);
+  let saveFailure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    for (let index = pending.shift(); index !== undefined; index = pending.shift()) {
+      if (stopped || stop.signal.aborted) return;
+      const id = ids[index] as string;
+      const { messages, ...itemOptions } = items[index] as BatchItem;
+      delete itemOptions.id;
+      const itemStop = new AbortController();
+      const unlinkItem = [
+        linkSignal(stop.signal, itemStop),
+        linkSignal(itemOptions.signal ?? options.defaults?.signal, itemStop),
+      ];
+      let response: ProcessedResponse;
+      try {
+        response = (await client.chat(
+          typeof messages === 'string' ? [{ role: 'user', content: messages }] : messages,
+          { ...options.defaults, ...itemOptions, signal: itemStop.signal }
+        )) as ProcessedResponse;
+      } catch (error) {
+        if (options.stopOnError) stopped = true;
+        report({
+          id,
+          index,
+          status: 'rejected',
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        continue;
+      } finally {
+        for (const unlink of unlinkItem) unlink();
+      }
+      if (checkpoint) {
+        responses[id] = response;
+        const data: BatchCheckpointData = { version: 1, responses: { ...responses } };
+        // Saves run one at a time, so an older save never overwrites a newer one
+        saving = saving.then(() => checkpoint.save(data));
+        try {
+          await saving;
+        } catch (error) {
+          // Progress that cannot be saved would be lost, so nothing more is sent
+          saveFailure ??= { error };
+          stopped = true;
+          stop.abort(error);
+          return;
+        }
+      }
+      report({ id, index, status: 'fulfilled', response, resumed: false });
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+  } finally {
+    unlinkStop();
+  }
+  // Thrown only once every worker has stopped, so no chat outlives the batch
+  if (saveFailure) throw saveFailure.error;
+  return results;
+}
+
+/**
+ * Aborts `controller` when `signal` aborts.
+ *
+ * @returns A function that detaches from the signal.
+ */
+function linkSignal(signal: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!signal) return () => undefined;
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal.aborted) onAbort();
+  else signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
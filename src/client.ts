@@ -1,13 +1,90 @@
 // src/client.ts
+import { z } from 'zod';
 import type {
   HustleIncognitoClientOptions,
+  Attachment,
+  AttachmentInput,
   ChatMessage,
+  ChatOptions,
+  ChunkMiddlewareContext,
+  ClientHooks,
+  ClientMiddleware,
+  ConversationOptions,
+  ConversationStore,
+  HistoryStrategy,
+  LogFields,
+  LogLevel,
+  Logger,
+  PathInfo,
   StreamChunk,
   HustleRequest,
   StreamOptions,
   ProcessedResponse,
   RawChunk,
+  RateLimiterLike,
+  RequestPriority,
+  RequestMiddlewareContext,
+  ResolvedSlippageSettings,
+  SlippageOptions,
+  SlippageProfileName,
+  SlippageSettings,
+  StreamToolCall,
+  StreamToolResult,
+  ToolCall,
+  ToolInvocation,
+  ToolResult,
+  TransportHandler,
+  TransportRequest,
+  TransportResponse,
+  UsageContext,
+  UsageTrackerLike,
+  WalletActionGate,
 } from './types';
+import { parseDataStream } from './data-stream.js';
+import { Conversation } from './conversation.js';
+import { DEFAULT_MAX_ATTACHMENT_BYTES, createAttachments } from './attachments.js';
+import { createConsoleLogger, redact } from './logger.js';
+import { ClientTelemetry, type RequestTelemetry } from './telemetry.js';
+import { UsageAccumulator } from './usage.js';
+import { FetchTransport, composeTransport } from './transport.js';
+import { composeMiddleware } from './middleware.js';
+import { RateLimiter } from './rate-limit.js';
+import { type BatchItem, type BatchOptions, type BatchResult, runBatch } from './batch.js';
+import { generateId } from './utils.js';
+import { type ClientTool, ToolRegistry } from './tools.js';
+import {
+  SLIPPAGE_PROFILES,
+  resolveSlippageSettings,
+  validateSlippageProfiles,
+} from './slippage.js';
+import {
+  chunkSchemas,
+  formatSchemaIssues,
+  getChunkSchema,
+  hustleRequestSchema,
+  isKnownChunk,
+  toolResultSchema,
+} from './schemas.js';
+import {
+  AbortedError,
+  HustleError,
+  NetworkError,
+  SchemaValidationError,
+  StreamError,
+  StreamParseError,
+  ToolExecutionError,
+  createHttpError,
+  getRequestId,
+  isAbortError,
+} from './errors.js';
+import { type RequestSignal, abortReason, createRequestSignal } from './signal.js';
+import {
+  type ResolvedRetryOptions,
+  computeRetryDelay,
+  isRetryableError,
+  resolveRetryOptions,
+  sleep,
+} from './retry.js';
 
 // Define SDK version manually until we can properly import from package.json
 const SDK_VERSION = '0.1.0';
@@ -17,6 +94,21 @@ const API_ENDPOINTS = {
   PRODUCTION: 'https://agenthustle.ai',
 };
 
+// Vault used when neither the request nor the client names one
+const DEFAULT_VAULT_ID = 'unspecified-incognito';
+
+// Options once the client's default vault has been filled in
+type ResolvedStreamOptions = StreamOptions & { vaultId: string };
+type ResolvedRawStreamOptions = Parameters<HustleIncognitoClient['rawStream']>[0] & {
+  vaultId: string;
+};
+
+// A tool call whose arguments are still streaming in
+type PartialToolCall = { toolName: string; argsText: string; raw: string };
+
+// Default limit on onToolCall round trips per request
+const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+
 /**
  * Client for interacting with the Emblem Vault Hustle Incognito Agent API.
  */
@@ -25,10 +117,29 @@ export class HustleIncognitoClient {
   private readonly apiKey: string;
   private readonly userKey?: string;
   private readonly userSecret?: string;
+  private readonly defaultVaultId: string;
+  private readonly externalWalletAddress?: string;
+  private readonly safeMode?: boolean;
+  private readonly rateLimiter?: RateLimiterLike;
   private readonly sdkVersion: string = SDK_VERSION;
-  private readonly fetchImpl: typeof fetch;
-  private readonly debug: boolean;
+  private readonly send: TransportHandler;
+  private readonly logger?: Logger;
+  private readonly hooks: ClientHooks;
+  private readonly telemetry?: ClientTelemetry;
+  private readonly usageTracker?: UsageTrackerLike;
   private readonly cookie?: string;
+  private readonly timeoutMs?: number;
+  private readonly retry: ResolvedRetryOptions;
+  private readonly historyStrategy?: HistoryStrategy;
+  private readonly maxAttachmentBytes: number;
+  private readonly strict: boolean;
+  private readonly walletPolicy?: WalletActionGate;
+  private readonly slippage: SlippageOptions;
+  private readonly slippageProfiles: Record<string, SlippageSettings>;
+  private readonly middleware: ClientMiddleware[] = [];
+  private readonly tools = new ToolRegistry();
+  // Middleware state of rawStream calls made by chatStream, which runs chunk middleware itself
+  private readonly innerStreams = new WeakMap<object, Record<string, unknown>>();
 
   /**
    * Creates an instance of HustleIncognitoClient.
@@ -45,20 +156,168 @@ export class HustleIncognitoClient {
       API_ENDPOINTS.PRODUCTION;
     this.userKey = options.userKey;
     this.userSecret = options.userSecret;
-    this.fetchImpl = options.fetch || fetch;
-    this.debug = options.debug || false;
+    this.defaultVaultId = options.vaultId || DEFAULT_VAULT_ID;
+    this.externalWalletAddress = options.externalWalletAddress;
+    this.safeMode = options.safeMode;
+    if (options.rateLimiter && options.maxConcurrentRequests !== undefined) {
+      throw new Error('Set maxConcurrent on the rate limiter instead of maxConcurrentRequests');
+    }
+    this.rateLimiter =
+      options.maxConcurrentRequests !== undefined
+        ? new RateLimiter({ client: { maxConcurrent: options.maxConcurrentRequests } })
+        : options.rateLimiter;
+    // Logging and onRequest run last, so they see requests as the middleware left them
+    this.send = composeTransport(
+      options.transport || new FetchTransport({ fetch: options.fetch }),
+      [...(options.transportMiddleware || []), (request, next) => this.beforeSend(request, next)]
+    );
     this.cookie = options.cookie || (process.env && process.env['COOKIE']);
-
-    // Debug info
-    if (this.debug) {
-      console.log(
-        `[${new Date().toISOString()}] Emblem Vault Hustle Incognito SDK v${this.sdkVersion}`
-      );
-      console.log(`[${new Date().toISOString()}] Using API endpoint: ${this.baseUrl}`);
-      if (this.cookie) {
-        console.log(`[${new Date().toISOString()}] Using cookie from environment`);
-      }
+    this.timeoutMs = options.timeoutMs;
+    this.retry = resolveRetryOptions(options.retry);
+    this.historyStrategy = options.historyStrategy;
+    this.maxAttachmentBytes = options.maxAttachmentBytes ?? DEFAULT_MAX_ATTACHMENT_BYTES;
+    this.strict = options.strict ?? false;
+    this.walletPolicy = options.walletPolicy;
+    this.slippageProfiles = {
+      ...SLIPPAGE_PROFILES,
+      ...validateSlippageProfiles(options.slippageProfiles || {}),
+    };
+    this.slippage = {
+      slippageProfile: options.slippageProfile,
+      slippageSettings: options.slippageSettings,
+    };
+    // Fail on typos now rather than on the first request
+    this.resolveSlippageSettings();
+    const logLevel = options.logLevel ?? (options.debug ? 'debug' : undefined);
+    this.logger = options.logger || (logLevel ? createConsoleLogger(logLevel) : undefined);
+    this.hooks = options.hooks || {};
+    if (options.telemetry?.tracer || options.telemetry?.meter) {
+      this.telemetry = new ClientTelemetry(options.telemetry);
     }
+    this.usageTracker = options.usageTracker;
+
+    this.log('debug', `Emblem Vault Hustle Incognito SDK v${this.sdkVersion}`, {
+      baseUrl: this.baseUrl,
+      cookie: Boolean(this.cookie),
+    });
+  }
+
+  /** The vault used when a request does not name one. */
+  get vaultId(): string {
+    return this.defaultVaultId;
+  }
+
+  /**
+   * Adds middleware that runs around request preparation and around each chunk yielded by
+   * `chat`, `chatStream` and `rawStream`. Middleware runs in the order it was added.
+   *
+   * @example
+   * client.use({
+   *   async request(context, next) {
+   *     context.headers['X-Trace-Id'] = traceId();
+   *     await next();
+   *   },
+   * });
+   *
+   * @param middleware - The middleware to add.
+   * @returns The client, for chaining.
+   */
+  public use(middleware: ClientMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers a tool that runs in this process when the agent calls it. Arguments are checked
+   * against `parameters` before `execute` runs, and the return value is sent back to the agent.
+   * Registered tools run in the tool loop of `chat` and `chatStream`, with or without
+   * `onToolCall`, which handles calls to tools that are not registered.
+   *
+   * @example
+   * client.registerTool({
+   *   name: 'portfolio',
+   *   description: 'Positions held by a desk',
+   *   parameters: z.object({ desk: z.string() }),
+   *   execute: async ({ desk }) => portfolios.lookup(desk),
+   * });
+   *
+   * @param tool - The tool to register.
+   * @returns The client, for chaining.
+   * @throws Error if a tool with the same name is already registered.
+   */
+  public registerTool<P extends z.ZodTypeAny, R>(tool: ClientTool<P, R>): this {
+    this.tools.register(tool);
+    return this;
+  }
+
+  /**
+   * Removes a registered tool.
+   *
+   * @returns Whether the tool was registered.
+   */
+  public unregisterTool(name: string): boolean {
+    return this.tools.unregister(name);
+  }
+
+  /**
+   * Shows the slippage settings a request would send and where each value was set. Levels apply
+   * from least to most specific: the `default` profile, the client, the conversation and the
+   * call. At each level a profile replaces all values, then explicit settings replace single
+   * values.
+   *
+   * @example
+   * const { settings, sources } = client.resolveSlippageSettings({
+   *   call: { slippageProfile: 'aggressive', slippageSettings: { pumpSlippage: 15 } },
+   * });
+   * // settings: { swapSlippage: 10, lpSlippage: 10, pumpSlippage: 15 }
+   * // sources.pumpSlippage: { level: 'call' }
+   *
+   * @param levels - The conversation and call settings to apply on top of the client's.
+   * @throws Error for unknown profiles, unknown keys and values outside 0 to 100.
+   */
+  public resolveSlippageSettings(
+    levels: { conversation?: SlippageOptions; call?: SlippageOptions } = {}
+  ): ResolvedSlippageSettings {
+    return resolveSlippageSettings({ client: this.slippage, ...levels }, this.slippageProfiles);
+  }
+
+  /**
+   * Creates a conversation that keeps its own history and settings between messages.
+   *
+   * @param options - The vault, wallet and other settings used for every message.
+   * @returns A new Conversation bound to this client.
+   */
+  public createConversation(options: ConversationOptions): Conversation {
+    return new Conversation(this, options);
+  }
+
+  /**
+   * Loads a saved conversation from a store so it can be continued.
+   *
+   * @param store - The store the conversation was saved to.
+   * @param id - The conversation ID.
+   * @param options - Optional settings such as handlers or credentials, which are never stored.
+   * @returns The restored Conversation, saving back to the same store, or null if not found.
+   */
+  public async resumeConversation(
+    store: ConversationStore,
+    id: string,
+    options: Partial<ConversationOptions> = {}
+  ): Promise<Conversation | null> {
+    const snapshot = await store.load(id);
+    if (!snapshot) return null;
+    return Conversation.fromSnapshot(this, snapshot, { store, ...options });
+  }
+
+  /**
+   * Turns file paths, URLs, Blobs or bytes into attachments using the client's size limit.
+   * Use the result for `experimental_attachments` on a message.
+   *
+   * @param inputs - The content to attach.
+   * @returns The attachments, in the same order.
+   */
+  public async prepareAttachments(inputs: AttachmentInput[]): Promise<Attachment[]> {
+    return createAttachments(inputs, { maxBytes: this.maxAttachmentBytes });
   }
 
   /**
@@ -66,52 +325,40 @@ export class HustleIncognitoClient {
    * Handles non-streaming responses.
    *
    * @param messages - An array of chat messages representing the conversation history.
-   * @param options - Optional parameters like vaultId, userApiKey, etc.
-   * @param overrideFunc - Optional function to override the API call (useful for testing)
+   * @param chatOptions - Optional parameters like vaultId, userApiKey, etc.
    * @returns A promise resolving to the API response or an API error.
+   * @throws StreamError if the API reports an error in the middle of the stream.
    */
   public async chat(
     messages: ChatMessage[],
-    options: {
-      vaultId: string;
-      userApiKey?: string;
-      externalWalletAddress?: string;
-      slippageSettings?: Record<string, number>;
-      safeMode?: boolean;
-      rawResponse?: boolean;
-    } = { vaultId: 'unspecified-incognito' },
-    overrideFunc: Function | null = null
+    chatOptions: ChatOptions = {}
   ): Promise<ProcessedResponse | RawChunk[]> {
-    // Implement override pattern
-    if (overrideFunc && typeof overrideFunc === 'function') {
-      if (this.debug)
-        console.log(`[${new Date().toISOString()}] Using override function for chat method`);
-      return await overrideFunc(this.apiKey, { messages, ...options });
-    }
-
-    if (this.debug)
-      console.log(
-        `[${new Date().toISOString()}] Sending chat request with ${messages.length} messages to vault ${options.vaultId}`
-      );
+    const options = this.withDefaultVault(chatOptions);
+    this.log('debug', 'Sending chat request', {
+      vaultId: options.vaultId,
+      messageCount: messages.length,
+    });
 
     // Default implementation
     if (options.rawResponse) {
       // Return the raw chunks
-      if (this.debug)
-        console.log(
-          `[${new Date().toISOString()}] Raw response mode enabled, returning all chunks`
-        );
+      this.log('debug', 'Raw response mode enabled, returning all chunks');
       const chunks: RawChunk[] = [];
       for await (const chunk of this.rawStream({
         vaultId: options.vaultId,
         messages,
         userApiKey: options.userApiKey,
         externalWalletAddress: options.externalWalletAddress,
+        slippageProfile: options.slippageProfile,
         slippageSettings: options.slippageSettings,
         safeMode: options.safeMode,
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        historyStrategy: options.historyStrategy,
+        attachments: options.attachments,
+        conversationId: options.conversationId,
+        priority: options.priority,
       })) {
-        if (this.debug)
-          console.log(`[${new Date().toISOString()}] Raw chunk:`, JSON.stringify(chunk));
         chunks.push(chunk as RawChunk);
       }
       return chunks;
@@ -120,19 +367,28 @@ export class HustleIncognitoClient {
     // Process and collect the response
     let fullText = '';
     let messageId = null;
-    let usage = null;
-    let pathInfo = null;
-    const toolCalls: any[] = [];
-    const toolResults: any[] = [];
+    const usage = new UsageAccumulator();
+    let pathInfo: PathInfo | null = null;
+    const toolCalls: StreamToolCall[] = [];
+    const toolResults: (StreamToolResult | ToolResult)[] = [];
 
     for await (const chunk of this.chatStream({
       vaultId: options.vaultId,
       messages,
       userApiKey: options.userApiKey,
       externalWalletAddress: options.externalWalletAddress,
+      slippageProfile: options.slippageProfile,
       slippageSettings: options.slippageSettings,
       safeMode: options.safeMode,
       processChunks: true,
+      onToolCall: options.onToolCall,
+      maxToolIterations: options.maxToolIterations,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      historyStrategy: options.historyStrategy,
+      attachments: options.attachments,
+      conversationId: options.conversationId,
+      priority: options.priority,
     })) {
       if ('type' in chunk) {
         switch (chunk.type) {
@@ -143,9 +399,7 @@ export class HustleIncognitoClient {
             messageId = chunk.value as string;
             break;
           case 'finish':
-            if (chunk.value && typeof chunk.value === 'object' && 'usage' in chunk.value) {
-              usage = chunk.value.usage;
-            }
+            usage.add(chunk.value);
             break;
           case 'path_info':
             pathInfo = chunk.value;
@@ -156,6 +410,9 @@ export class HustleIncognitoClient {
           case 'tool_result':
             toolResults.push(chunk.value);
             break;
+          case 'error':
+            // A partial reply would otherwise look like a complete one
+            throw new StreamError(chunk.value, { vaultId: options.vaultId });
         }
       }
     }
@@ -163,223 +420,802 @@ export class HustleIncognitoClient {
     return {
       content: fullText,
       messageId,
-      usage,
+      usage: usage.total,
       pathInfo,
       toolCalls,
       toolResults,
     };
   }
 
+  /**
+   * Runs many chats, at most `concurrency` at a time, and collects every outcome instead of
+   * failing on the first error.
+   *
+   * @param items - The prompts to send, each with optional chat options.
+   * @param options - Concurrency, progress reporting and checkpointing.
+   * @returns One result per item, in input order.
+   * @throws Error for duplicate item IDs, or if the checkpoint cannot be read or written.
+   */
+  public async batch(items: BatchItem[], options: BatchOptions = {}): Promise<BatchResult[]> {
+    return runBatch(this, items, options);
+  }
+
   /**
    * Sends a chat message or conversation history and streams the response.
    *
-   * @param options - Chat configuration including messages, vaultId, etc.
-   * @param overrideFunc - Optional function to override the API call (useful for testing)
+   * When `onToolCall` is provided, tool calls the agent leaves unresolved are handed to it
+   * once the stream ends, and the results are sent back in a follow-up request. This repeats
+   * until the agent replies without pending tool calls or `maxToolIterations` is reached.
+   *
+   * @param streamOptions - Chat configuration including messages, vaultId, etc.
    * @returns An async iterable yielding StreamChunk objects or throwing an ApiError.
    */
-  public async *chatStream(
-    options: StreamOptions,
-    overrideFunc: Function | null = null
-  ): AsyncIterable<StreamChunk | RawChunk> {
-    // Implement override pattern
-    if (overrideFunc && typeof overrideFunc === 'function') {
-      if (this.debug)
-        console.log(`[${new Date().toISOString()}] Using override function for chatStream method`);
-      // For custom stream handling, yield generator from override function
-      yield* overrideFunc(this.apiKey, options);
+  public async *chatStream(streamOptions: StreamOptions): AsyncIterable<StreamChunk | RawChunk> {
+    // If we're not processing chunks, just use rawStream
+    if (streamOptions.processChunks === false) {
+      this.log('debug', 'Process chunks disabled, using raw stream');
+      yield* this.rawStream(streamOptions);
       return;
     }
 
-    // If we're not processing chunks, just use rawStream
-    if (options.processChunks === false) {
-      if (this.debug)
-        console.log(`[${new Date().toISOString()}] Process chunks disabled, using raw stream`);
-      yield* this.rawStream(options);
-      return;
+    this.log('debug', 'Processing stream chunks into structured data');
+
+    // Tool round trips continue the same chat, so they share its ID
+    const options = this.withDefaultVault({
+      ...streamOptions,
+      chatId: streamOptions.chatId || streamOptions.conversationId || generateId('chat'),
+    });
+    const state = {};
+    yield* this.applyChunkMiddleware(this.runToolLoop(options, state), options, state);
+  }
+
+  /**
+   * Processes chunks into structured data, running the tool loop if requested.
+   * @private
+   */
+  private async *runToolLoop(
+    options: ResolvedStreamOptions,
+    state: Record<string, unknown>
+  ): AsyncIterable<StreamChunk> {
+    const maxIterations = options.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+    let messages = options.messages;
+
+    for (let iteration = 0; ; iteration++) {
+      let text = '';
+      const toolCalls: ToolCall[] = [];
+      const resolvedIds = new Set<string>();
+
+      // Attachments belong to the user's message, so follow-up rounds do not resend them
+      const attachments = iteration === 0 ? options.attachments : undefined;
+      for await (const chunk of this.processStream({ ...options, messages, attachments }, state)) {
+        if (chunk.type === 'text') {
+          text += chunk.value;
+        } else if (chunk.type === 'tool_call') {
+          toolCalls.push(this.toToolCall(chunk.value));
+        } else if (chunk.type === 'tool_result' && 'toolCallId' in chunk.value) {
+          resolvedIds.add(chunk.value.toolCallId);
+        }
+        yield chunk;
+      }
+
+      if (!options.onToolCall && this.tools.size === 0) return;
+
+      // Tools the server already ran come back as results in the same stream
+      const pending = toolCalls.filter(call => !call.id || !resolvedIds.has(call.id));
+      if (pending.length === 0) return;
+
+      if (iteration >= maxIterations) {
+        throw new ToolExecutionError(
+          `Exceeded maximum tool iterations (${maxIterations})`,
+          pending,
+          { vaultId: options.vaultId }
+        );
+      }
+
+      this.log('debug', 'Executing tool calls', {
+        vaultId: options.vaultId,
+        toolCalls: pending.map(call => call.name),
+        iteration: iteration + 1,
+      });
+
+      const results = await this.executeToolCalls(pending, options);
+      this.checkSchema(z.array(toolResultSchema), results, 'tool results', {
+        vaultId: options.vaultId,
+      });
+      const toolInvocations: ToolInvocation[] = pending.map(call => {
+        const result = results.find(r => r.tool_call_id === call.id);
+        return {
+          state: 'result',
+          toolCallId: call.id || '',
+          toolName: call.name,
+          args: call.arguments,
+          result: result ? result.result : null,
+        };
+      });
+
+      for (const result of results) {
+        yield { type: 'tool_result', value: result };
+      }
+
+      messages = [...messages, { role: 'assistant', content: text, toolInvocations }];
+    }
+  }
+
+  /**
+   * Runs registered tools and hands the remaining calls to `onToolCall`.
+   * @private
+   */
+  private async executeToolCalls(
+    calls: ToolCall[],
+    options: ResolvedStreamOptions
+  ): Promise<ToolResult[]> {
+    const results = await this.tools.execute(
+      calls.filter(call => this.tools.has(call.name)),
+      { vaultId: options.vaultId, signal: options.signal }
+    );
+    const others = calls.filter(call => !this.tools.has(call.name));
+    if (others.length === 0) return results;
+
+    if (!options.onToolCall) {
+      // Tell the agent instead of leaving the call unanswered
+      return [
+        ...results,
+        ...others.map(call => ({
+          tool_call_id: call.id || '',
+          result: { error: `Tool ${call.name} is not available` },
+        })),
+      ];
     }
 
-    if (this.debug)
-      console.log(`[${new Date().toISOString()}] Processing stream chunks into structured data`);
+    try {
+      return [...results, ...(await options.onToolCall(others))];
+    } catch (error) {
+      throw new ToolExecutionError(`Tool execution failed: ${String(error)}`, others, {
+        vaultId: options.vaultId,
+        cause: error,
+      });
+    }
+  }
 
-    // Otherwise, process chunks into structured data
-    for await (const chunk of this.rawStream(options)) {
-      if (this.debug)
-        console.log(`[${new Date().toISOString()}] Processing chunk:`, JSON.stringify(chunk));
+  /**
+   * Processes a single API response stream into structured chunks.
+   * @private
+   */
+  private async *processStream(
+    options: ResolvedStreamOptions,
+    state: Record<string, unknown>
+  ): AsyncIterable<StreamChunk> {
+    // Tool calls whose arguments are still streaming in, by tool call ID
+    const partialToolCalls = new Map<string, PartialToolCall>();
 
+    const rawOptions = { ...options };
+    this.innerStreams.set(rawOptions, state);
+
+    for await (const chunk of this.rawStream(rawOptions)) {
+      if (!isKnownChunk(chunk)) {
+        // Unknown chunk type, just pass it through
+        yield { type: 'unknown', value: chunk };
+        continue;
+      }
       switch (chunk.prefix) {
         case '0': // Text chunk
           yield { type: 'text', value: chunk.data };
           break;
 
+        case 'g': // Reasoning
+          yield { type: 'reasoning', value: chunk.data };
+          break;
+
+        case 'i': // Redacted reasoning
+          yield { type: 'redacted_reasoning', value: chunk.data };
+          break;
+
+        case 'j': // Reasoning signature
+          yield { type: 'reasoning_signature', value: chunk.data };
+          break;
+
         case '9': // Tool call
-          if (this.debug)
-            console.log(
-              `[${new Date().toISOString()}] Found tool call:`,
-              JSON.stringify(chunk.data)
-            );
+          this.log('debug', 'Found tool call', { vaultId: options.vaultId, toolCall: chunk.data });
+          partialToolCalls.delete(chunk.data?.toolCallId);
           yield { type: 'tool_call', value: chunk.data };
           break;
 
-        case 'a': // Tool result
-          if (this.debug)
-            console.log(
-              `[${new Date().toISOString()}] Found tool result:`,
-              JSON.stringify(chunk.data)
+        case 'b': {
+          // Tool call streaming start
+          this.checkToolCallChunk(chunk, options.vaultId);
+          const { toolCallId, toolName } = chunk.data;
+          partialToolCalls.set(toolCallId, { toolName, argsText: '', raw: chunk.raw });
+          yield {
+            type: 'tool_call_delta',
+            value: { toolCallId, toolName, argsTextDelta: '', argsText: '' },
+          };
+          break;
+        }
+
+        case 'c': {
+          // Tool call argument delta
+          this.checkToolCallChunk(chunk, options.vaultId);
+          const { toolCallId, argsTextDelta } = chunk.data;
+          const partial = partialToolCalls.get(toolCallId);
+          if (!partial) {
+            throw new StreamParseError(
+              `Tool call delta for unknown tool call ${toolCallId}`,
+              chunk.raw,
+              { vaultId: options.vaultId }
             );
+          }
+          partial.argsText += argsTextDelta;
+          partial.raw = chunk.raw;
+          yield {
+            type: 'tool_call_delta',
+            value: {
+              toolCallId,
+              toolName: partial.toolName,
+              argsTextDelta,
+              argsText: partial.argsText,
+            },
+          };
+          break;
+        }
+
+        case 'a': // Tool result
+          this.log('debug', 'Found tool result', {
+            vaultId: options.vaultId,
+            toolCallId: chunk.data?.toolCallId,
+          });
           yield { type: 'tool_result', value: chunk.data };
           break;
 
-        case 'f': // Message ID
-          if (chunk.data && typeof chunk.data === 'object' && 'messageId' in chunk.data) {
-            yield { type: 'message_id', value: chunk.data.messageId };
-          }
+        case 'f': {
+          // Message ID
+          const parsed = chunkSchemas.f.safeParse(chunk.data);
+          if (parsed.success) yield { type: 'message_id', value: parsed.data.messageId };
           break;
+        }
 
         case 'e': // Completion event
         case 'd': // Final data
+          // A step can end while tool call arguments are still partial; complete them first
+          yield* this.completePartialToolCalls(partialToolCalls, options);
           yield {
             type: 'finish',
             value: {
               reason: chunk.data?.finishReason || 'stop',
               usage: chunk.data?.usage,
+              ...(chunk.data?.isContinued !== undefined && {
+                isContinued: chunk.data.isContinued,
+              }),
+              scope: chunk.prefix === 'e' ? 'step' : 'message',
             },
           };
           break;
 
-        case '2': // Path info
-          try {
-            if (Array.isArray(chunk.data) && chunk.data.length > 0) {
-              yield { type: 'path_info', value: chunk.data[0] };
-            } else {
-              yield { type: 'path_info', value: chunk.data };
-            }
-          } catch (error) {
-            if (this.debug)
-              console.error(`[${new Date().toISOString()}] Error processing path info:`, error);
-          }
+        case '2': {
+          // Path info, sent as an array by the data stream protocol
+          const pathInfo = Array.isArray(chunk.data) ? chunk.data[0] : chunk.data;
+          if (pathInfo) yield { type: 'path_info', value: pathInfo };
+          break;
+        }
+
+        case '8': // Message annotations
+          yield {
+            type: 'annotations',
+            value: Array.isArray(chunk.data) ? chunk.data : [chunk.data],
+          };
+          break;
+
+        case 'h': // Source
+          yield { type: 'source', value: chunk.data };
+          break;
+
+        case 'k': // File
+          yield { type: 'file', value: chunk.data };
           break;
 
-        default:
-          // Unknown chunk type, just pass it through
-          yield { type: 'unknown', value: chunk };
+        case '3': // Error
+          yield {
+            type: 'error',
+            value: typeof chunk.data === 'string' ? chunk.data : JSON.stringify(chunk.data),
+          };
+          break;
       }
     }
+
+    yield* this.completePartialToolCalls(partialToolCalls, options);
+  }
+
+  /**
+   * Turns tool calls assembled from streamed deltas into complete tool call chunks.
+   * @private
+   */
+  private async *completePartialToolCalls(
+    partialToolCalls: Map<string, PartialToolCall>,
+    context: { vaultId: string }
+  ): AsyncIterable<StreamChunk> {
+    for (const [toolCallId, partial] of partialToolCalls) {
+      // The wallet policy already checked the call in streamRequest
+      yield {
+        type: 'tool_call',
+        value: this.parsePartialToolCall(toolCallId, partial, context.vaultId),
+      };
+    }
+    partialToolCalls.clear();
+  }
+
+  /**
+   * Parses the arguments of a tool call assembled from streamed deltas.
+   * @private
+   */
+  private parsePartialToolCall(
+    toolCallId: string,
+    partial: PartialToolCall,
+    vaultId: string
+  ): StreamToolCall {
+    let args: Record<string, unknown>;
+    try {
+      args = partial.argsText ? JSON.parse(partial.argsText) : {};
+    } catch (error) {
+      throw new StreamParseError(
+        `Invalid arguments for tool call ${toolCallId}: ${partial.argsText}`,
+        partial.raw,
+        { vaultId, cause: error }
+      );
+    }
+    return { toolCallId, toolName: partial.toolName, args };
+  }
+
+  /**
+   * Checks the tool calls in a raw chunk against the wallet policy. Calls streamed as deltas
+   * are assembled and checked when their step ends, before the chunk that ends it is yielded.
+   * @private
+   */
+  private async checkWalletActions(
+    chunk: RawChunk,
+    partialToolCalls: Map<string, PartialToolCall>,
+    context: UsageContext,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    if (!isKnownChunk(chunk)) return;
+    switch (chunk.prefix) {
+      case '9':
+        // A call the policy cannot read must not pass unchecked
+        this.checkToolCallChunk(chunk, context.vaultId);
+        // The whole call replaces its deltas
+        partialToolCalls.delete(chunk.data.toolCallId);
+        await this.walletPolicy?.check(chunk.data, context, signal);
+        break;
+      case 'b':
+        this.checkToolCallChunk(chunk, context.vaultId);
+        partialToolCalls.set(chunk.data.toolCallId, {
+          toolName: chunk.data.toolName,
+          argsText: '',
+          raw: chunk.raw,
+        });
+        break;
+      case 'c': {
+        this.checkToolCallChunk(chunk, context.vaultId);
+        const partial = partialToolCalls.get(chunk.data.toolCallId);
+        if (partial) {
+          partial.argsText += chunk.data.argsTextDelta;
+          partial.raw = chunk.raw;
+        }
+        break;
+      }
+      case 'e':
+      case 'd':
+        await this.checkPartialToolCalls(partialToolCalls, context, signal);
+        break;
+    }
+  }
+
+  /**
+   * Checks the data of a tool call chunk before its fields are read. Outside strict mode a
+   * schema mismatch is only logged, so a chunk such as `b:null` would otherwise get this far.
+   * @throws StreamParseError if the data does not match the chunk's schema.
+   * @private
+   */
+  private checkToolCallChunk(chunk: RawChunk, vaultId: string): void {
+    const parsed = getChunkSchema(chunk.prefix)?.safeParse(chunk.data);
+    if (parsed && !parsed.success) {
+      throw new StreamParseError(
+        `Invalid tool call chunk ${chunk.prefix}: ${formatSchemaIssues(parsed.error.issues)}`,
+        chunk.raw,
+        { vaultId }
+      );
+    }
+  }
+
+  /** @private */
+  private async checkPartialToolCalls(
+    partialToolCalls: Map<string, PartialToolCall>,
+    context: UsageContext,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    for (const [toolCallId, partial] of partialToolCalls) {
+      const toolCall = this.parsePartialToolCall(toolCallId, partial, context.vaultId);
+      await this.walletPolicy?.check(toolCall, context, signal);
+    }
+    partialToolCalls.clear();
+  }
+
+  /**
+   * Normalizes a tool call chunk from the API into a ToolCall. Also accepts the
+   * `{ id, name, arguments }` shape some servers send.
+   * @private
+   */
+  private toToolCall(data: StreamToolCall | Record<string, unknown>): ToolCall {
+    const fields: Record<string, unknown> = { ...data };
+    const id = fields['toolCallId'] ?? fields['id'];
+    const name = fields['toolName'] ?? fields['name'];
+    const args = fields['args'] ?? fields['arguments'];
+    return {
+      id: typeof id === 'string' ? id : undefined,
+      name: typeof name === 'string' ? name : '',
+      arguments: args && typeof args === 'object' ? (args as Record<string, unknown>) : {},
+    };
   }
 
   /**
    * Low-level function that provides direct access to the raw stream chunks.
    * This is a passthrough mode where processing is left to the consumer.
    *
-   * @param options - Chat configuration including messages, vaultId, etc.
-   * @param overrideFunc - Optional function to override the API call (useful for testing)
+   * @param rawOptions - Chat configuration including messages, vaultId, etc.
    * @returns An async iterable of raw chunks from the API
    */
-  public async *rawStream(
-    options: {
-      vaultId: string;
-      messages: ChatMessage[];
-      userApiKey?: string;
-      externalWalletAddress?: string;
-      slippageSettings?: Record<string, number>;
-      safeMode?: boolean;
-      currentPath?: string | null;
-    },
-    overrideFunc: Function | null = null
-  ): AsyncIterable<RawChunk> {
-    // Implement override pattern
-    if (overrideFunc && typeof overrideFunc === 'function') {
-      if (this.debug)
-        console.log(`[${new Date().toISOString()}] Using override function for rawStream method`);
-      // For custom stream handling, yield generator from override function
-      yield* overrideFunc(this.apiKey, options);
+  public async *rawStream(rawOptions: {
+    vaultId?: string;
+    messages: ChatMessage[];
+    userApiKey?: string;
+    externalWalletAddress?: string;
+    slippageProfile?: SlippageProfileName;
+    slippageSettings?: Partial<SlippageSettings>;
+    safeMode?: boolean;
+    currentPath?: string | null;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    historyStrategy?: HistoryStrategy | null;
+    attachments?: AttachmentInput[];
+    conversationId?: string;
+    chatId?: string;
+    priority?: RequestPriority;
+  }): AsyncIterable<RawChunk> {
+    const options = this.withDefaultVault(rawOptions);
+    const innerState = this.innerStreams.get(rawOptions);
+    if (innerState) {
+      yield* this.streamRequest(options, innerState);
       return;
     }
+    const state = {};
+    yield* this.applyChunkMiddleware(this.streamRequest(options, state), options, state);
+  }
 
-    const requestBody = this.prepareRequestBody(options);
-    if (this.debug) {
-      console.log(
-        `[${new Date().toISOString()}] Prepared request body:`,
-        JSON.stringify(requestBody)
-      );
-      console.log(`[${new Date().toISOString()}] Sending request to ${this.baseUrl}/api/chat`);
-    }
-
-    try {
-      const response = await this.createRequest(requestBody);
-      if (this.debug)
-        console.log(
-          `[${new Date().toISOString()}] Response status: ${response.status} ${response.statusText}`
-        );
+  /**
+   * Sends one request and yields the raw chunks of its response, retrying if allowed.
+   * @private
+   */
+  private async *streamRequest(
+    options: ResolvedRawStreamOptions,
+    state: Record<string, unknown>
+  ): AsyncIterable<RawChunk> {
+    const usageContext = { vaultId: options.vaultId, conversationId: options.conversationId };
+    this.checkUsageBudget(usageContext);
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('Stream reader not available');
+    const prepared = await this.prepareRequest(options, state);
+    if (!prepared) {
+      this.log('debug', 'Request stopped by middleware', { vaultId: options.vaultId });
+      return;
+    }
+    const { body: requestBody, headers } = prepared;
+    this.checkSchema(hustleRequestSchema, requestBody, 'request', { vaultId: options.vaultId });
+    this.log('debug', 'Prepared request body', { vaultId: options.vaultId, body: requestBody });
+    await this.walletPolicy?.checkRequest?.(requestBody, usageContext);
 
-      if (this.debug) console.log(`[${new Date().toISOString()}] Starting to read stream`);
+    const requestSignal = createRequestSignal(options.signal, options.timeoutMs ?? this.timeoutMs);
+    let startedAt = Date.now();
+    const telemetry = this.telemetry?.startRequest({
+      'hustle.vault_id': options.vaultId,
+      'hustle.message_count': requestBody.messages.length,
+    });
+    const usage = new UsageAccumulator();
+    let attempt = 0;
+    let reported: HustleError | null = null;
+    let release: (() => void) | undefined;
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          if (this.debug) console.log(`[${new Date().toISOString()}] Stream complete`);
-          break;
+    try {
+      // Time spent waiting for the rate limiter counts towards the timeout
+      const permit = await this.rateLimiter?.acquire(
+        {
+          apiKey: requestBody.apiKey,
+          vaultId: options.vaultId,
+          priority: options.priority || 'normal',
+        },
+        requestSignal.signal
+      );
+      if (permit) {
+        release = permit.release;
+        // Durations count from here, so time in the queue is not reported as latency
+        startedAt = Date.now();
+        telemetry?.queued(permit.waitMs);
+        if (permit.waitMs > 0) {
+          this.log('debug', 'Waited for the rate limiter', {
+            vaultId: options.vaultId,
+            waitMs: permit.waitMs,
+          });
         }
+      }
+      for (attempt = 1; ; attempt++) {
+        let emitted = false;
+        let chunkCount = 0;
+        // Tool calls streamed as deltas, assembled for the wallet policy
+        const partialToolCalls = new Map<string, PartialToolCall>();
+        telemetry?.attempt(attempt);
+        try {
+          const response = await this.createRequest(
+            requestBody,
+            headers,
+            requestSignal.signal,
+            attempt,
+            telemetry
+          );
+          if (!response.body) throw new NetworkError('Stream reader not available');
 
-        const text = new TextDecoder().decode(value);
-        if (this.debug) console.log(`[${new Date().toISOString()}] Raw stream data:`, text);
-
-        const lines = text.split('\n');
-
-        for (const line of lines) {
-          if (!line.trim()) continue;
-
-          try {
-            const prefix = line.charAt(0);
-            const data = line.substring(2);
-
-            // Parse JSON if it's valid JSON, otherwise leave as string
-            let parsedData;
-            try {
-              parsedData = JSON.parse(data);
-              if (this.debug)
-                console.log(
-                  `[${new Date().toISOString()}] Parsed JSON data for prefix ${prefix}:`,
-                  JSON.stringify(parsedData)
-                );
-            } catch (e) {
-              parsedData = data;
-              if (this.debug)
-                console.log(
-                  `[${new Date().toISOString()}] Non-JSON data for prefix ${prefix}:`,
-                  data
-                );
+          for await (const chunk of parseDataStream(response.body, {
+            signal: requestSignal.signal,
+          })) {
+            this.log('debug', 'Parsed chunk', {
+              vaultId: options.vaultId,
+              prefix: chunk.prefix,
+              data: chunk.data,
+            });
+            const schema = getChunkSchema(chunk.prefix);
+            if (schema) {
+              this.checkSchema(schema, chunk.data, `chunk ${chunk.prefix}`, {
+                vaultId: options.vaultId,
+                line: chunk.raw,
+              });
             }
-
-            yield { prefix, data: parsedData, raw: line };
-          } catch (error) {
-            if (this.debug)
-              console.error(`[${new Date().toISOString()}] Error parsing stream chunk:`, error);
-            yield { prefix: 'error', data: line, raw: line };
+            // Wallet actions wait here for the policy, and a denial ends the stream
+            if (this.walletPolicy) {
+              await this.checkWalletActions(
+                chunk,
+                partialToolCalls,
+                usageContext,
+                requestSignal.signal
+              );
+            }
+            this.callHook('onChunk', { vaultId: options.vaultId, index: chunkCount++, chunk });
+            telemetry?.chunk(chunk);
+            if (isKnownChunk(chunk) && (chunk.prefix === 'e' || chunk.prefix === 'd')) {
+              usage.add({
+                usage: chunk.data?.usage,
+                scope: chunk.prefix === 'e' ? 'step' : 'message',
+              });
+            }
+            emitted = true;
+            yield chunk;
           }
+
+          // Calls still streaming when the response ended are checked before it finishes
+          await this.checkPartialToolCalls(partialToolCalls, usageContext, requestSignal.signal);
+          this.log('debug', 'Stream complete', { vaultId: options.vaultId, chunkCount });
+          this.callHook('onFinish', {
+            vaultId: options.vaultId,
+            attempts: attempt,
+            chunkCount,
+            durationMs: Date.now() - startedAt,
+          });
+          return;
+        } catch (error) {
+          const hustleError = this.toHustleError(error, options.vaultId, requestSignal);
+          // Once output has reached the consumer, a retry would duplicate it
+          const willRetry =
+            !emitted &&
+            attempt < this.retry.maxAttempts &&
+            isRetryableError(hustleError, this.retry);
+          reported = hustleError;
+          this.callHook('onError', {
+            vaultId: options.vaultId,
+            attempt,
+            error: hustleError,
+            willRetry,
+          });
+          if (!willRetry) throw hustleError;
+
+          const delayMs = computeRetryDelay(attempt, this.retry, hustleError);
+          telemetry?.retry(attempt, delayMs, hustleError);
+          this.log('warn', 'Request failed, retrying', {
+            vaultId: options.vaultId,
+            attempt,
+            delayMs,
+            error: hustleError,
+          });
+          this.retry.onRetry?.({
+            attempt,
+            maxAttempts: this.retry.maxAttempts,
+            delayMs,
+            error: hustleError,
+            vaultId: options.vaultId,
+          });
+          await sleep(delayMs, requestSignal.signal);
         }
       }
     } catch (error) {
-      if (this.debug) console.error(`[${new Date().toISOString()}] Error in rawStream:`, error);
-      yield { prefix: 'error', data: String(error), raw: String(error) };
-      throw error;
+      const hustleError = this.toHustleError(error, options.vaultId, requestSignal);
+      // Aborts while waiting to retry have not been reported yet
+      if (hustleError !== reported) {
+        this.callHook('onError', {
+          vaultId: options.vaultId,
+          attempt,
+          error: hustleError,
+          willRetry: false,
+        });
+      }
+      this.log(hustleError instanceof AbortedError ? 'info' : 'error', 'Request failed', {
+        vaultId: options.vaultId,
+        error: hustleError,
+      });
+      telemetry?.end(hustleError);
+      throw hustleError;
+    } finally {
+      // Also ends the span and frees the slot when the consumer stops reading early
+      release?.();
+      telemetry?.end();
+      requestSignal.dispose();
+      const total = usage.total;
+      if (total) this.usageTracker?.record(total, usageContext);
     }
   }
 
+  /**
+   * Runs request middleware around building the body and headers.
+   *
+   * @returns The body and headers to send, or null if middleware stopped the request.
+   * @private
+   */
+  private async prepareRequest(
+    options: ResolvedRawStreamOptions,
+    state: Record<string, unknown>
+  ): Promise<{ body: HustleRequest; headers: Record<string, string> } | null> {
+    let stopped = false;
+    const context: RequestMiddlewareContext = {
+      vaultId: options.vaultId,
+      conversationId: options.conversationId,
+      messages: options.messages,
+      headers: this.getHeaders(),
+      state,
+      signal: options.signal,
+      stop: () => {
+        stopped = true;
+      },
+    };
+    const handlers = this.middleware.flatMap(m => (m.request ? [m.request.bind(m)] : []));
+
+    await composeMiddleware(handlers)(context, async () => {
+      const messages = await this.applyHistoryStrategy({ ...options, messages: context.messages });
+      const attachments = await createAttachments(options.attachments, {
+        maxBytes: this.maxAttachmentBytes,
+      });
+      context.body = this.prepareRequestBody({ ...options, messages, attachments });
+    });
+
+    // Middleware that skips next() also leaves nothing to send
+    if (stopped || !context.body) return null;
+    return { body: context.body, headers: context.headers };
+  }
+
+  /**
+   * Runs chunk middleware on each chunk before it is yielded.
+   * @private
+   */
+  private async *applyChunkMiddleware<T extends StreamChunk | RawChunk>(
+    chunks: AsyncIterable<T>,
+    options: { vaultId: string; conversationId?: string },
+    state: Record<string, unknown>
+  ): AsyncIterable<T> {
+    const handlers = this.middleware.flatMap(m => (m.chunk ? [m.chunk.bind(m)] : []));
+    if (handlers.length === 0) {
+      yield* chunks;
+      return;
+    }
+
+    const run = composeMiddleware(handlers);
+    let index = 0;
+    for await (const chunk of chunks) {
+      let stopped = false;
+      const context: ChunkMiddlewareContext = {
+        vaultId: options.vaultId,
+        conversationId: options.conversationId,
+        index: index++,
+        chunk,
+        state,
+        stop: () => {
+          stopped = true;
+        },
+      };
+      await run(context);
+      // Returning ends the source stream too, which stops reading the response
+      if (stopped) {
+        this.log('debug', 'Stream stopped by middleware', {
+          vaultId: options.vaultId,
+          index: context.index,
+        });
+        return;
+      }
+      if (context.chunk !== null) yield context.chunk as T;
+    }
+  }
+
+  /**
+   * Refuses the request if a usage budget is used up, or logs a warning if the tracker only
+   * warns.
+   * @private
+   */
+  private checkUsageBudget(context: { vaultId: string; conversationId?: string }): void {
+    if (!this.usageTracker) return;
+    for (const budget of this.usageTracker.check(context)) {
+      this.log('warn', 'Usage budget exceeded', { ...context, budget });
+    }
+  }
+
+  /**
+   * Applies the per-call or client-wide history strategy to the messages about to be sent.
+   * @private
+   */
+  private async applyHistoryStrategy(options: {
+    vaultId: string;
+    messages: ChatMessage[];
+    userApiKey?: string;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    historyStrategy?: HistoryStrategy | null;
+    conversationId?: string;
+  }): Promise<ChatMessage[]> {
+    const strategy =
+      options.historyStrategy === undefined ? this.historyStrategy : options.historyStrategy;
+    if (!strategy) return options.messages;
+
+    const messages = await strategy.apply(options.messages, {
+      vaultId: options.vaultId,
+      // The summary request itself is sent with the full history it was given
+      summarize: async (history, prompt) => {
+        const response = (await this.chat([...history, { role: 'user', content: prompt }], {
+          vaultId: options.vaultId,
+          userApiKey: options.userApiKey,
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
+          historyStrategy: null,
+          conversationId: options.conversationId,
+        })) as ProcessedResponse;
+        return response.content;
+      },
+    });
+
+    if (messages.length !== options.messages.length)
+      this.log('debug', 'History strategy reduced the messages sent', {
+        vaultId: options.vaultId,
+        from: options.messages.length,
+        to: messages.length,
+      });
+
+    return messages;
+  }
+
   /**
    * Prepares the request body for a chat request
    * @private
    */
   private prepareRequestBody(options: {
     vaultId: string;
+    conversationId?: string;
+    chatId?: string;
     messages: ChatMessage[];
     userApiKey?: string;
     externalWalletAddress?: string;
-    slippageSettings?: Record<string, number>;
+    slippageProfile?: SlippageProfileName;
+    slippageSettings?: Partial<SlippageSettings>;
     safeMode?: boolean;
     currentPath?: string | null;
+    attachments?: Attachment[];
   }): HustleRequest {
     const apiKey = options.userApiKey || this.apiKey;
     if (!apiKey) {
@@ -387,19 +1223,15 @@ export class HustleIncognitoClient {
     }
 
     return {
-      id: `chat-${options.vaultId}`,
+      id: options.chatId || options.conversationId || generateId('chat'),
       messages: options.messages,
       apiKey,
       vaultId: options.vaultId,
-      externalWalletAddress: options.externalWalletAddress || '',
-      slippageSettings: options.slippageSettings || {
-        lpSlippage: 5,
-        swapSlippage: 5,
-        pumpSlippage: 5,
-      },
-      safeMode: options.safeMode !== false,
+      externalWalletAddress: options.externalWalletAddress || this.externalWalletAddress || '',
+      slippageSettings: this.resolveSlippageSettings({ call: options }).settings,
+      safeMode: (options.safeMode ?? this.safeMode) !== false,
       currentPath: options.currentPath || null,
-      attachments: [],
+      attachments: options.attachments || [],
     };
   }
 
@@ -407,32 +1239,164 @@ export class HustleIncognitoClient {
    * Creates a fetch request to the chat API
    * @private
    */
-  private async createRequest(requestBody: HustleRequest): Promise<Response> {
-    if (this.debug) {
-      console.log(`[${new Date().toISOString()}] Making POST request to ${this.baseUrl}/api/chat`);
-      console.log(
-        `[${new Date().toISOString()}] Request headers:`,
-        JSON.stringify(this.getHeaders())
-      );
-    }
-
-    const response = await this.fetchImpl(`${this.baseUrl}/api/chat`, {
+  private async createRequest(
+    requestBody: HustleRequest,
+    headers: Record<string, string>,
+    signal: AbortSignal | undefined,
+    attempt: number,
+    telemetry?: RequestTelemetry
+  ): Promise<TransportResponse> {
+    const vaultId = requestBody.vaultId;
+    const sentAt = Date.now();
+    const response = await this.send({
+      url: `${this.baseUrl}/api/chat`,
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(requestBody),
+      headers,
+      body: requestBody,
+      signal,
+      attempt,
     });
 
-    if (!response.ok) {
-      if (this.debug)
-        console.error(
-          `[${new Date().toISOString()}] HTTP error: ${response.status} ${response.statusText}`
-        );
-      throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
+    const requestId = getRequestId(response);
+    this.log('debug', 'Received response', { vaultId, attempt, status: response.status });
+    telemetry?.response(response.status, requestId);
+    this.callHook('onResponse', {
+      vaultId,
+      attempt,
+      status: response.status,
+      requestId,
+      durationMs: Date.now() - sentAt,
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw await createHttpError(response, vaultId);
     }
 
     return response;
   }
 
+  /**
+   * Logs and reports a request just before the transport sends it.
+   * @private
+   */
+  private async beforeSend(
+    request: TransportRequest,
+    next: TransportHandler
+  ): Promise<TransportResponse> {
+    const { url, headers, body, attempt } = request;
+    const vaultId = body.vaultId;
+    this.log('debug', `Making ${request.method} request`, { vaultId, attempt, url, headers });
+    if (this.hooks.onRequest) {
+      this.callHook('onRequest', {
+        vaultId,
+        attempt,
+        url,
+        headers: redact(headers, this.secrets()),
+        body: redact(body, this.secrets()),
+      });
+    }
+
+    if (request.signal?.aborted) throw abortReason(request.signal);
+    return next(request);
+  }
+
+  /**
+   * Checks a value against its schema, throwing a SchemaValidationError in strict mode and
+   * logging a warning otherwise.
+   *
+   * @returns Whether the value matches.
+   * @private
+   */
+  private checkSchema(
+    schema: z.ZodTypeAny,
+    value: unknown,
+    target: string,
+    context: { vaultId: string; line?: string }
+  ): boolean {
+    const result = schema.safeParse(value);
+    if (result.success) return true;
+
+    const issues = result.error.issues;
+    if (this.strict) {
+      throw new SchemaValidationError(
+        `Schema mismatch in ${target}: ${formatSchemaIssues(issues)}`,
+        target,
+        issues,
+        context
+      );
+    }
+    this.log('warn', 'Schema mismatch', { ...context, target, issues });
+    return false;
+  }
+
+  /**
+   * Wraps anything thrown while talking to the API in the matching HustleError.
+   * @private
+   */
+  private toHustleError(
+    error: unknown,
+    vaultId: string,
+    requestSignal?: RequestSignal
+  ): HustleError {
+    if (error instanceof HustleError) {
+      error.vaultId = error.vaultId ?? vaultId;
+      return error;
+    }
+    if (requestSignal?.signal?.aborted || isAbortError(error)) {
+      const timedOut = requestSignal?.timedOut() ?? false;
+      return new AbortedError(timedOut ? 'Request timed out' : 'Request aborted', {
+        vaultId,
+        cause: error,
+        timedOut,
+      });
+    }
+    return new NetworkError(`Network error: ${String(error)}`, { vaultId, cause: error });
+  }
+
+  /**
+   * Fills in the client's vault when the options do not name one.
+   * @private
+   */
+  private withDefaultVault<T extends { vaultId?: string }>(options: T): T & { vaultId: string } {
+    return { ...options, vaultId: options.vaultId || this.defaultVaultId };
+  }
+
+  /**
+   * Sends a message to the logger with credentials redacted. Does nothing without a logger.
+   * @private
+   */
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.logger) return;
+    this.logger[level](message, fields && redact(fields, this.secrets()));
+  }
+
+  /**
+   * Calls a lifecycle hook, logging instead of throwing if the hook fails.
+   * @private
+   */
+  private callHook<K extends keyof ClientHooks>(
+    name: K,
+    event: Parameters<NonNullable<ClientHooks[K]>>[0]
+  ): void {
+    const hook = this.hooks[name] as ((event: unknown) => void) | undefined;
+    if (!hook) return;
+    try {
+      hook(event);
+    } catch (error) {
+      this.log('warn', `The ${name} hook threw an error`, { error });
+    }
+  }
+
+  /**
+   * Credentials that must never appear in logs or hook events.
+   * @private
+   */
+  private secrets(): string[] {
+    return [this.apiKey, this.userKey, this.userSecret, this.cookie].filter(
+      (secret): secret is string => Boolean(secret)
+    );
+  }
+
   /**
    * Constructs the necessary headers for API requests.
    * @private
@@ -0,0 +1,339 @@
+// src/conversation.ts
+import type {
+  ChatMessage,
+  ConversationOptions,
+  ConversationSnapshot,
+  ConversationSendOptions,
+  ProcessedResponse,
+  ResolvedSlippageSettings,
+  StreamChunk,
+  ToolInvocation,
+  Usage,
+} from './types';
+import type { HustleIncognitoClient } from './client.js';
+import { UsageAccumulator } from './usage.js';
+import { generateId } from './utils.js';
+import { StreamError } from './errors.js';
+
+/**
+ * A chat session that keeps its own transcript and settings.
+ *
+ * Each `send()` or `stream()` appends the user message and the assistant reply, including
+ * completed tool invocations, and tracks the current path reported by the agent. The
+ * transcript only changes once a reply has been received in full, so a failed or aborted
+ * request can simply be sent again. With a `store`, the conversation is saved after every
+ * reply and can be resumed in another process with `client.resumeConversation()`.
+ */
+export class Conversation {
+  /** The unique ID of the conversation. */
+  readonly id: string;
+  private readonly client: HustleIncognitoClient;
+  private readonly options: ConversationOptions & { vaultId: string };
+  private transcript: ChatMessage[];
+  private path: string | null;
+  private pathInfo: unknown | null;
+  private readonly messageIds: string[];
+  private readonly usageByMessageId: Record<string, Usage>;
+  // Current path after each message, so forks resume from the right place
+  private readonly pathByMessageId: Map<string, string | null>;
+  private readonly createdAt: string;
+
+  /**
+   * @param client - The client used to send messages.
+   * @param options - Settings used for every message.
+   * @param snapshot - Optional saved state to restore; settings in `options` take precedence.
+   */
+  constructor(
+    client: HustleIncognitoClient,
+    options: ConversationOptions,
+    snapshot?: ConversationSnapshot
+  ) {
+    this.client = client;
+    this.options = { ...options, vaultId: options.vaultId || snapshot?.vaultId || client.vaultId };
+    this.id = options.id || snapshot?.id || generateId('conv');
+    this.transcript = (options.messages || snapshot?.messages || []).map(message =>
+      message.id ? message : { ...message, id: generateId('msg') }
+    );
+    this.path = options.currentPath ?? snapshot?.currentPath ?? null;
+    this.pathInfo = snapshot?.pathInfo ?? null;
+    this.messageIds = [...(snapshot?.messageIds || [])];
+    this.usageByMessageId = { ...(snapshot?.usage || {}) };
+    this.pathByMessageId = new Map(Object.entries(snapshot?.pathByMessageId || {}));
+    this.createdAt = snapshot?.createdAt || new Date().toISOString();
+    // Fail on typos now rather than on the first message
+    this.resolveSlippageSettings();
+  }
+
+  /**
+   * Restores a conversation from a snapshot, keeping its settings unless overridden.
+   *
+   * @param client - The client used to send messages.
+   * @param snapshot - The saved state.
+   * @param options - Optional settings such as handlers, credentials or a store.
+   */
+  static fromSnapshot(
+    client: HustleIncognitoClient,
+    snapshot: ConversationSnapshot,
+    options: Partial<ConversationOptions> = {}
+  ): Conversation {
+    return new Conversation(
+      client,
+      {
+        externalWalletAddress: snapshot.externalWalletAddress,
+        slippageProfile: snapshot.slippageProfile,
+        slippageSettings: snapshot.slippageSettings,
+        safeMode: snapshot.safeMode,
+        ...options,
+        vaultId: options.vaultId || snapshot.vaultId,
+      },
+      snapshot
+    );
+  }
+
+  /** The vault this conversation runs against. */
+  get vaultId(): string {
+    return this.options.vaultId;
+  }
+
+  /** A copy of the full transcript. */
+  get messages(): ChatMessage[] {
+    return [...this.transcript];
+  }
+
+  /** The current path reported by the latest `path_info` chunk. */
+  get currentPath(): string | null {
+    return this.path;
+  }
+
+  /**
+   * Captures the persistable state of the conversation.
+   */
+  public toSnapshot(): ConversationSnapshot {
+    return {
+      id: this.id,
+      vaultId: this.options.vaultId,
+      messages: this.messages,
+      messageIds: [...this.messageIds],
+      usage: { ...this.usageByMessageId },
+      pathInfo: this.pathInfo,
+      currentPath: this.path,
+      pathByMessageId: Object.fromEntries(this.pathByMessageId),
+      externalWalletAddress: this.options.externalWalletAddress,
+      slippageProfile: this.options.slippageProfile,
+      slippageSettings: this.options.slippageSettings,
+      safeMode: this.options.safeMode,
+      createdAt: this.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Shows the slippage settings a message would send and where each value was set. Settings
+   * given for the message win over the conversation's, which win over the client's.
+   *
+   * @param options - Optional slippage profile and settings for one message.
+   * @throws Error for unknown profiles, unknown keys and values outside 0 to 100.
+   */
+  public resolveSlippageSettings(
+    options: Pick<ConversationSendOptions, 'slippageProfile' | 'slippageSettings'> = {}
+  ): ResolvedSlippageSettings {
+    return this.client.resolveSlippageSettings({ conversation: this.options, call: options });
+  }
+
+  /**
+   * Saves the conversation to its store. Does nothing without a store.
+   */
+  public async save(): Promise<void> {
+    await this.options.store?.save(this.toSnapshot());
+  }
+
+  /**
+   * Sends a message and resolves with the complete reply.
+   *
+   * @param text - The user message.
+   * @param options - Optional parts, signal, timeout and slippage for this message.
+   * @throws StreamError if the API reports an error in the middle of the reply. The message
+   * and the partial reply are then not added to the transcript.
+   */
+  public async send(
+    text: string,
+    options: ConversationSendOptions = {}
+  ): Promise<ProcessedResponse> {
+    const response: ProcessedResponse = {
+      content: '',
+      messageId: null,
+      usage: null,
+      pathInfo: null,
+      toolCalls: [],
+      toolResults: [],
+    };
+
+    const usage = new UsageAccumulator();
+    for await (const chunk of this.stream(text, options)) {
+      switch (chunk.type) {
+        case 'text':
+          response.content += chunk.value;
+          break;
+        case 'message_id':
+          response.messageId = chunk.value;
+          break;
+        case 'finish':
+          usage.add(chunk.value);
+          response.usage = usage.total;
+          break;
+        case 'path_info':
+          response.pathInfo = chunk.value;
+          break;
+        case 'tool_call':
+          response.toolCalls.push(chunk.value);
+          break;
+        case 'tool_result':
+          response.toolResults.push(chunk.value);
+          break;
+        case 'error':
+          throw new StreamError(chunk.value, { vaultId: this.vaultId });
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Sends a message and streams the reply. The transcript is updated once the stream ends.
+   *
+   * @param text - The user message.
+   * @param options - Optional parts, signal, timeout and slippage for this message.
+   */
+  public async *stream(
+    text: string,
+    options: ConversationSendOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const userMessage: ChatMessage = { id: generateId('msg'), role: 'user', content: text };
+    if (options.parts) userMessage.parts = options.parts;
+    if (options.attachments) {
+      userMessage.experimental_attachments = await this.client.prepareAttachments(
+        options.attachments
+      );
+    }
+    const messages = [...this.transcript, userMessage];
+    const { settings: slippageSettings } = this.resolveSlippageSettings(options);
+
+    let content = '';
+    let messageId: string | null = null;
+    const usage = new UsageAccumulator();
+    let pathInfo = this.pathInfo;
+    let path = this.path;
+    const toolCalls = new Map<string, { toolName: string; args: Record<string, unknown> }>();
+    const toolInvocations: ToolInvocation[] = [];
+
+    for await (const chunk of this.client.chatStream({
+      vaultId: this.options.vaultId,
+      messages,
+      userApiKey: this.options.userApiKey,
+      externalWalletAddress: this.options.externalWalletAddress,
+      slippageSettings,
+      safeMode: this.options.safeMode,
+      currentPath: this.path,
+      onToolCall: this.options.onToolCall,
+      maxToolIterations: this.options.maxToolIterations,
+      historyStrategy: this.options.historyStrategy,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      conversationId: this.id,
+      priority: options.priority,
+    })) {
+      // chatStream only yields raw chunks when processChunks is false
+      const processed = chunk as StreamChunk;
+      switch (processed.type) {
+        case 'text':
+          content += processed.value;
+          break;
+        case 'message_id':
+          messageId = processed.value;
+          break;
+        case 'finish':
+          usage.add(processed.value);
+          break;
+        case 'path_info':
+          pathInfo = processed.value;
+          if (typeof processed.value?.path === 'string') {
+            path = processed.value.path;
+          }
+          break;
+        case 'tool_call':
+          toolCalls.set(processed.value.toolCallId, {
+            toolName: processed.value.toolName,
+            args: processed.value.args ?? {},
+          });
+          break;
+        case 'tool_result': {
+          // Server results use toolCallId, results from onToolCall use tool_call_id
+          const id =
+            'toolCallId' in processed.value
+              ? processed.value.toolCallId
+              : processed.value.tool_call_id;
+          const call = toolCalls.get(id);
+          if (call) {
+            toolInvocations.push({
+              state: 'result',
+              toolCallId: id,
+              toolName: call.toolName,
+              args: call.args,
+              result: processed.value.result,
+            });
+          }
+          break;
+        }
+      }
+      yield processed;
+    }
+
+    const assistantMessage: ChatMessage = {
+      id: messageId || generateId('msg'),
+      role: 'assistant',
+      content,
+    };
+    if (toolInvocations.length > 0) assistantMessage.toolInvocations = toolInvocations;
+
+    this.pathByMessageId.set(userMessage.id as string, this.path);
+    this.pathByMessageId.set(assistantMessage.id as string, path);
+    if (messageId) this.messageIds.push(messageId);
+    if (usage.total) this.usageByMessageId[assistantMessage.id as string] = usage.total;
+    this.transcript = [...messages, assistantMessage];
+    this.path = path;
+    this.pathInfo = pathInfo;
+
+    await this.save();
+  }
+
+  /**
+   * Creates a new conversation with the same settings and the transcript up to and including
+   * the given message.
+   *
+   * @param message - The ID or index of the last message to keep.
+   */
+  public fork(message: string | number): Conversation {
+    const index =
+      typeof message === 'number' ? message : this.transcript.findIndex(m => m.id === message);
+    if (index < 0 || index >= this.transcript.length) {
+      throw new Error(`Message not found in conversation: ${message}`);
+    }
+
+    const messages = this.transcript.slice(0, index + 1);
+    let currentPath = this.options.currentPath ?? null;
+    for (let i = index; i >= 0; i--) {
+      const id = messages[i]?.id;
+      if (id && this.pathByMessageId.has(id)) {
+        currentPath = this.pathByMessageId.get(id) ?? null;
+        break;
+      }
+    }
+
+    return new Conversation(this.client, {
+      ...this.options,
+      id: undefined,
+      messages,
+      currentPath,
+    });
+  }
+}
@@ -0,0 +1,115 @@
+// src/data-stream.ts
+import type { RawChunk } from './types';
+import { StreamParseError } from './errors.js';
+import { abortReason } from './signal.js';
+
+/**
+ * Options for parsing a data stream.
+ */
+export interface ParseDataStreamOptions {
+  /** Cancels the underlying stream and stops parsing when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parses a single line of the data stream protocol into a raw chunk.
+ * Lines have the form `<prefix>:<json>`; data that is not valid JSON is kept as a string.
+ *
+ * @param line - A complete line without its trailing newline.
+ * @returns The parsed chunk, or null for blank lines.
+ * @throws StreamParseError if the line has no `<prefix>:` header.
+ */
+export function parseDataStreamLine(line: string): RawChunk | null {
+  if (!line.trim()) return null;
+  if (line.charAt(1) !== ':') {
+    throw new StreamParseError(`Malformed data stream line: ${line.slice(0, 100)}`, line);
+  }
+
+  const prefix = line.charAt(0);
+  const data = line.substring(2);
+
+  let parsedData;
+  try {
+    parsedData = JSON.parse(data);
+  } catch (e) {
+    parsedData = data;
+  }
+
+  return { prefix, data: parsedData, raw: line };
+}
+
+/**
+ * Formats a chunk as a line of the data stream protocol, the reverse of
+ * {@link parseDataStreamLine}.
+ *
+ * @param prefix - The single-character chunk type, e.g. `0` for text.
+ * @param data - The chunk data, serialized as JSON.
+ * @returns The line, without a trailing newline.
+ */
+export function formatDataStreamLine(prefix: string, data: unknown): string {
+  return `${prefix}:${JSON.stringify(data)}`;
+}
+
+/**
+ * Incrementally parses a byte stream in the data stream protocol.
+ *
+ * Partial lines and partial UTF-8 code points are carried over between reads, so chunk
+ * boundaries from the network never split a line. Whatever remains at end-of-stream is
+ * flushed as a final line. If the consumer stops early or the signal aborts, the underlying
+ * stream is cancelled; an abort rejects with the signal's reason.
+ *
+ * @param stream - The response body to parse.
+ * @param options - Optional abort signal.
+ * @returns An async iterable of raw chunks, one per line.
+ */
+export async function* parseDataStream(
+  stream: ReadableStream<Uint8Array>,
+  options: ParseDataStreamOptions = {}
+): AsyncIterable<RawChunk> {
+  const { signal } = options;
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let done = false;
+
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    while (true) {
+      if (signal?.aborted) throw abortReason(signal);
+      const result = await reader.read();
+      if (signal?.aborted) throw abortReason(signal);
+      if (result.done) {
+        done = true;
+        buffer += decoder.decode();
+        break;
+      }
+
+      buffer += decoder.decode(result.value, { stream: true });
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const chunk = parseDataStreamLine(stripCarriageReturn(buffer.slice(0, newlineIndex)));
+        buffer = buffer.slice(newlineIndex + 1);
+        if (chunk) yield chunk;
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    const last = parseDataStreamLine(stripCarriageReturn(buffer));
+    if (last) yield last;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    if (!done) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
@@ -0,0 +1,303 @@
+// src/errors.ts
+import type { ZodIssue } from 'zod';
+import type {
+  ApiError,
+  BudgetExceededEvent,
+  ToolCall,
+  TransportResponse,
+  WalletAction,
+} from './types';
+
+/**
+ * Context attached to every SDK error.
+ */
+export interface HustleErrorContext {
+  /** HTTP status code, if the error came from a response. */
+  status?: number;
+  /** The raw response body, if one could be read. */
+  responseBody?: string;
+  /** The request ID reported by the server, if any. */
+  requestId?: string;
+  /** The vault the request was made for. */
+  vaultId?: string;
+  /** The underlying error, if this error wraps another. */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the SDK.
+ */
+export class HustleError extends Error implements ApiError {
+  override readonly name: string = 'HustleError';
+  /** HTTP status code, if the error came from a response. */
+  status?: number;
+  /** The raw response body, if one could be read. */
+  responseBody?: string;
+  /** The request ID reported by the server, if any. */
+  requestId?: string;
+  /** The vault the request was made for. */
+  vaultId?: string;
+
+  constructor(message: string, context: HustleErrorContext = {}) {
+    super(message, context.cause !== undefined ? { cause: context.cause } : undefined);
+    this.status = context.status;
+    this.responseBody = context.responseBody;
+    this.requestId = context.requestId;
+    this.vaultId = context.vaultId;
+  }
+
+  /** The parsed response body, or the raw body if it is not JSON. */
+  get details(): unknown {
+    if (this.responseBody === undefined) return undefined;
+    try {
+      return JSON.parse(this.responseBody);
+    } catch (e) {
+      return this.responseBody;
+    }
+  }
+}
+
+/**
+ * The API responded with a non-success HTTP status.
+ */
+export class HttpError extends HustleError {
+  override readonly name: string = 'HttpError';
+  /** How long the server asked us to wait, in milliseconds, if it sent Retry-After. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, context: HustleErrorContext & { retryAfterMs?: number } = {}) {
+    super(message, context);
+    this.retryAfterMs = context.retryAfterMs;
+  }
+}
+
+/**
+ * The API rejected the credentials (401 or 403).
+ */
+export class AuthenticationError extends HttpError {
+  override readonly name: string = 'AuthenticationError';
+}
+
+/**
+ * The API is rate limiting requests (429).
+ */
+export class RateLimitError extends HttpError {
+  override readonly name: string = 'RateLimitError';
+}
+
+/**
+ * The API failed with a 5xx status.
+ */
+export class ServerError extends HttpError {
+  override readonly name: string = 'ServerError';
+}
+
+/**
+ * The request could not be sent or the connection dropped while reading.
+ */
+export class NetworkError extends HustleError {
+  override readonly name: string = 'NetworkError';
+}
+
+/**
+ * The response stream contained data that does not follow the data stream protocol.
+ */
+export class StreamParseError extends HustleError {
+  override readonly name: string = 'StreamParseError';
+  /** The line that could not be parsed. */
+  readonly line: string;
+
+  constructor(message: string, line: string, context: HustleErrorContext = {}) {
+    super(message, context);
+    this.line = line;
+  }
+}
+
+/**
+ * A request, chunk or tool result does not match its schema, e.g. because the API changed.
+ * Thrown in `strict` mode.
+ */
+export class SchemaValidationError extends HustleError {
+  override readonly name: string = 'SchemaValidationError';
+  /** What was validated, e.g. `request`, `chunk 9` or `tool results`. */
+  readonly target: string;
+  /** The problems zod found. */
+  readonly issues: ZodIssue[];
+  /** The stream line, if a chunk failed validation. */
+  readonly line?: string;
+
+  constructor(
+    message: string,
+    target: string,
+    issues: ZodIssue[],
+    context: HustleErrorContext & { line?: string } = {}
+  ) {
+    super(message, context);
+    this.target = target;
+    this.issues = issues;
+    this.line = context.line;
+  }
+}
+
+/**
+ * The API reported an error in the middle of the response stream, in a `3:` chunk. Thrown by
+ * `chat()` and `Conversation.send()`; `chatStream()` yields the chunk as an `error` chunk instead.
+ */
+export class StreamError extends HustleError {
+  override readonly name: string = 'StreamError';
+}
+
+/**
+ * The request was aborted before it completed.
+ */
+export class AbortedError extends HustleError {
+  override readonly name: string = 'AbortedError';
+  /** Whether the request was aborted because its timeout elapsed. */
+  readonly timedOut: boolean;
+
+  constructor(message: string, context: HustleErrorContext & { timedOut?: boolean } = {}) {
+    super(message, context);
+    this.timedOut = context.timedOut ?? false;
+  }
+}
+
+/**
+ * A client-side tool handler failed or the tool loop did not converge.
+ */
+export class ToolExecutionError extends HustleError {
+  override readonly name: string = 'ToolExecutionError';
+  /** The tool calls that were being executed. */
+  readonly toolCalls: ToolCall[];
+
+  constructor(message: string, toolCalls: ToolCall[], context: HustleErrorContext = {}) {
+    super(message, context);
+    this.toolCalls = toolCalls;
+  }
+}
+
+/**
+ * An attachment could not be read or exceeds the size limit.
+ */
+export class AttachmentError extends HustleError {
+  override readonly name: string = 'AttachmentError';
+}
+
+/**
+ * A usage budget is used up, so the request was refused before it was sent.
+ */
+export class BudgetExceededError extends HustleError {
+  override readonly name: string = 'BudgetExceededError';
+  /** The budget that was used up. */
+  readonly budget: BudgetExceededEvent;
+
+  constructor(message: string, budget: BudgetExceededEvent, context: HustleErrorContext = {}) {
+    super(message, context);
+    this.budget = budget;
+  }
+}
+
+/**
+ * A wallet policy refused a trading or transfer tool call, so the request was stopped.
+ */
+export class PolicyDeniedError extends HustleError {
+  override readonly name: string = 'PolicyDeniedError';
+  /** The action that was refused. */
+  readonly action: WalletAction;
+  /** The rule that refused it, e.g. `maxNotionalUsd` or `approval`. */
+  readonly rule: string;
+
+  constructor(
+    message: string,
+    action: WalletAction,
+    rule: string,
+    context: HustleErrorContext = {}
+  ) {
+    super(message, context);
+    this.action = action;
+    this.rule = rule;
+  }
+}
+
+/**
+ * A request waited in the rate limiter's queue for longer than `queueTimeoutMs`, so it was
+ * never sent.
+ */
+export class QueueTimeoutError extends HustleError {
+  override readonly name: string = 'QueueTimeoutError';
+  /** How long the request waited, in milliseconds. */
+  readonly waitedMs: number;
+
+  constructor(message: string, waitedMs: number, context: HustleErrorContext = {}) {
+    super(message, context);
+    this.waitedMs = waitedMs;
+  }
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Reads the request ID the API or its host assigned to a response, if any.
+ */
+export function getRequestId(response: Pick<TransportResponse, 'headers'>): string | undefined {
+  return response.headers.get('x-request-id') || response.headers.get('x-vercel-id') || undefined;
+}
+
+/**
+ * Builds the matching error for a non-success HTTP response.
+ */
+export async function createHttpError(
+  response: TransportResponse,
+  vaultId?: string
+): Promise<HttpError> {
+  let responseBody: string | undefined;
+  try {
+    responseBody = await new Response(response.body).text();
+  } catch (e) {
+    responseBody = undefined;
+  }
+
+  const context = {
+    status: response.status,
+    responseBody,
+    requestId: getRequestId(response),
+    vaultId,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  };
+  const message = `HTTP error: ${response.status} ${response.statusText ?? ''}`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthenticationError(message, context);
+  }
+  if (response.status === 429) {
+    return new RateLimitError(message, context);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, context);
+  }
+  return new HttpError(message, context);
+}
+
+/**
+ * Returns true if the error is an abort raised by fetch or an AbortSignal.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    ((error as { name?: string }).name === 'AbortError' ||
+      (error as { name?: string }).name === 'TimeoutError')
+  );
+}
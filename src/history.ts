@@ -0,0 +1,163 @@
+// src/history.ts
+import type { ChatMessage, HistoryContext, HistoryStrategy } from './types';
+
+/**
+ * Estimates the number of tokens in a message list. Uses roughly four characters per token
+ * plus a small per-message overhead, which is close enough for budgeting.
+ */
+export function approximateTokenCount(messages: ChatMessage[]): number {
+  let characters = 0;
+  for (const message of messages) {
+    characters += message.content.length;
+    for (const part of message.parts || []) {
+      characters += (part.text || part.url || '').length;
+    }
+    if (message.toolInvocations) {
+      characters += JSON.stringify(message.toolInvocations).length;
+    }
+  }
+  return Math.ceil(characters / 4) + messages.length * 4;
+}
+
+/**
+ * Splits a history into pinned system messages and turns. A turn starts at a user message
+ * and includes everything up to the next one.
+ */
+export function splitTurns(messages: ChatMessage[]): {
+  system: ChatMessage[];
+  turns: ChatMessage[][];
+} {
+  const system: ChatMessage[] = [];
+  const turns: ChatMessage[][] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      system.push(message);
+    } else if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1]?.push(message);
+    }
+  }
+
+  return { system, turns };
+}
+
+/**
+ * Sends only the last N turns. System messages are always kept.
+ */
+export class LastTurnsStrategy implements HistoryStrategy {
+  private readonly maxTurns: number;
+
+  /**
+   * @param maxTurns - Number of turns to keep, counting the one being sent.
+   */
+  constructor(maxTurns: number) {
+    if (maxTurns < 1) throw new Error('maxTurns must be at least 1');
+    this.maxTurns = maxTurns;
+  }
+
+  public apply(messages: ChatMessage[]): ChatMessage[] {
+    const { system, turns } = splitTurns(messages);
+    return [...system, ...turns.slice(-this.maxTurns).flat()];
+  }
+}
+
+/**
+ * Drops the oldest turns until the history fits a token budget. System messages and the
+ * latest turn are always kept, even if they exceed the budget on their own.
+ */
+export class TokenBudgetStrategy implements HistoryStrategy {
+  private readonly maxTokens: number;
+  private readonly countTokens: (messages: ChatMessage[]) => number;
+
+  /**
+   * @param options - The token budget and an optional tokenizer. Defaults to
+   * `approximateTokenCount`.
+   */
+  constructor(options: { maxTokens: number; countTokens?: (messages: ChatMessage[]) => number }) {
+    this.maxTokens = options.maxTokens;
+    this.countTokens = options.countTokens || approximateTokenCount;
+  }
+
+  public apply(messages: ChatMessage[]): ChatMessage[] {
+    const { system, turns } = splitTurns(messages);
+    let kept = turns;
+    while (kept.length > 1 && this.countTokens([...system, ...kept.flat()]) > this.maxTokens) {
+      kept = kept.slice(1);
+    }
+    return [...system, ...kept.flat()];
+  }
+}
+
+/**
+ * Options for SummarizeStrategy.
+ */
+export interface SummarizeStrategyOptions {
+  /** Number of recent turns sent verbatim. Defaults to 4. */
+  keepTurns?: number;
+  /** Only summarize once the history has more turns than this. Defaults to twice `keepTurns`. */
+  triggerTurns?: number;
+  /** Instruction sent to the agent with the turns to summarize. */
+  prompt?: string;
+}
+
+const DEFAULT_SUMMARY_PROMPT =
+  'Summarize the conversation so far in a few sentences. Keep token names, addresses, amounts ' +
+  'and any decisions that were made. Reply with the summary only.';
+
+/**
+ * Asks the agent to summarize older turns and sends the summary as a system message in their
+ * place. System messages are always kept. Summaries are built incrementally, so each turn is
+ * only summarized once. The cache holds one history, so use one instance per conversation.
+ */
+export class SummarizeStrategy implements HistoryStrategy {
+  private readonly keepTurns: number;
+  private readonly triggerTurns: number;
+  private readonly prompt: string;
+  // The most recent summary and the serialized messages it covers
+  private cache: { count: number; key: string; summary: string } | null = null;
+
+  constructor(options: SummarizeStrategyOptions = {}) {
+    this.keepTurns = options.keepTurns ?? 4;
+    if (this.keepTurns < 1) throw new Error('keepTurns must be at least 1');
+    this.triggerTurns = options.triggerTurns ?? this.keepTurns * 2;
+    this.prompt = options.prompt || DEFAULT_SUMMARY_PROMPT;
+  }
+
+  public async apply(messages: ChatMessage[], context: HistoryContext): Promise<ChatMessage[]> {
+    const { system, turns } = splitTurns(messages);
+    if (turns.length <= this.triggerTurns) return messages;
+
+    const older = turns.slice(0, -this.keepTurns).flat();
+    const recent = turns.slice(-this.keepTurns).flat();
+    const summary = await this.summarize(older, context);
+
+    return [
+      ...system,
+      { role: 'system', content: `Summary of the earlier conversation: ${summary}` },
+      ...recent,
+    ];
+  }
+
+  private async summarize(older: ChatMessage[], context: HistoryContext): Promise<string> {
+    const key = JSON.stringify(older);
+    if (this.cache && this.cache.key === key) return this.cache.summary;
+
+    // Extend the previous summary when the older turns only grew
+    let toSummarize = older;
+    if (this.cache) {
+      const { count } = this.cache;
+      if (JSON.stringify(older.slice(0, count)) === this.cache.key) {
+        toSummarize = [
+          { role: 'system', content: `Summary so far: ${this.cache.summary}` },
+          ...older.slice(count),
+        ];
+      }
+    }
+
+    const summary = (await context.summarize(toSummarize, this.prompt)).trim();
+    this.cache = { count: older.length, key, summary };
+    return summary;
+  }
+}
@@ -2,14 +2,204 @@
 
 // Export the client class
 export { HustleIncognitoClient } from './client.js';
+export { Conversation } from './conversation.js';
+export { HustleClientPool } from './pool.js';
+export type { HustleClientPoolOptions } from './pool.js';
+export { RateLimiter } from './rate-limit.js';
+export type { RateLimits, RateLimiterOptions, RateLimiterMetrics } from './rate-limit.js';
+export { FileBatchCheckpoint } from './batch.js';
+export type {
+  BatchItem,
+  BatchOptions,
+  BatchResult,
+  BatchProgress,
+  BatchCheckpoint,
+  BatchCheckpointData,
+} from './batch.js';
+export {
+  createAttachment,
+  createAttachments,
+  createAttachmentPart,
+  detectContentType,
+} from './attachments.js';
+export type { AttachmentOptions } from './attachments.js';
+export {
+  LastTurnsStrategy,
+  TokenBudgetStrategy,
+  SummarizeStrategy,
+  approximateTokenCount,
+} from './history.js';
+export type { SummarizeStrategyOptions } from './history.js';
+export {
+  MemoryConversationStore,
+  FileConversationStore,
+  KeyValueConversationStore,
+} from './stores.js';
+export { createConsoleLogger, redact, LOG_LEVELS, REDACTED } from './logger.js';
+export {
+  InMemoryTelemetryExporter,
+  SPAN_KIND,
+  SPAN_STATUS,
+  TELEMETRY_METRICS,
+  TELEMETRY_SPAN_NAME,
+} from './telemetry.js';
+export type { RecordedSpan, RecordedMeasurement } from './telemetry.js';
+export { UsageTracker, UsageAccumulator, toUsage, addUsage } from './usage.js';
+export {
+  FetchTransport,
+  composeTransport,
+  createDataStream,
+  createDataStreamResponse,
+} from './transport.js';
+export type { FetchTransportOptions } from './transport.js';
+export type { UsageBudgets, UsageTrackerOptions, UsageReport } from './usage.js';
+
+// Export the data stream parser
+export { parseDataStream, parseDataStreamLine, formatDataStreamLine } from './data-stream.js';
+
+// Export error classes
+export {
+  HustleError,
+  HttpError,
+  AuthenticationError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  StreamParseError,
+  StreamError,
+  AbortedError,
+  ToolExecutionError,
+  AttachmentError,
+  BudgetExceededError,
+  SchemaValidationError,
+  PolicyDeniedError,
+  QueueTimeoutError,
+} from './errors.js';
+export type { HustleErrorContext } from './errors.js';
+
+// Export zod schemas
+export {
+  hustleRequestSchema,
+  chatMessageSchema,
+  messagePartSchema,
+  attachmentSchema,
+  toolInvocationSchema,
+  toolCallSchema,
+  toolResultSchema,
+  streamToolCallSchema,
+  streamToolResultSchema,
+  streamUsageSchema,
+  finishDataSchema,
+  pathInfoSchema,
+  streamSourceSchema,
+  streamFileSchema,
+  chunkSchemas,
+  getChunkSchema,
+  isKnownChunk,
+  formatSchemaIssues,
+  slippageSettingsSchema,
+  partialSlippageSettingsSchema,
+} from './schemas.js';
+export type { ChunkPrefix, ChunkData, KnownRawChunk } from './schemas.js';
+
+// Export client-side tools
+export { ToolRegistry, defineTool } from './tools.js';
+export type { ClientTool, ToolExecutionContext } from './tools.js';
+
+// Export wallet policies
+export { WalletPolicyGate, InMemoryAuditLog, classifyWalletAction } from './policy.js';
+export type {
+  WalletPolicyOptions,
+  ApprovalRequest,
+  ApprovalResponse,
+  AuditEntry,
+  AuditLog,
+} from './policy.js';
+
+// Export slippage profiles
+export {
+  SLIPPAGE_PROFILES,
+  resolveSlippageSettings,
+  validateSlippageSettings,
+  validateSlippageProfiles,
+} from './slippage.js';
 
 // Export types
 export {
   HustleIncognitoClientOptions,
   ChatMessage,
+  ChatOptions,
+  ConversationOptions,
+  ConversationSendOptions,
+  ConversationSnapshot,
+  ConversationStore,
+  KeyValueAdapter,
+  HistoryStrategy,
+  HistoryContext,
+  Attachment,
+  AttachmentInput,
+  MessagePart,
   StreamChunk,
+  StreamToolCall,
+  StreamToolResult,
+  ToolCallDelta,
+  PathInfo,
+  StreamSource,
+  StreamFile,
+  StreamUsage,
   HustleRequest,
   StreamOptions,
   ProcessedResponse,
   RawChunk,
+  ToolCall,
+  ToolResult,
+  ToolCallHandler,
+  ToolInvocation,
+  ApiError,
+  RetryOptions,
+  RetryAttempt,
+  Logger,
+  LogLevel,
+  LogFields,
+  ClientHooks,
+  RequestHookEvent,
+  ResponseHookEvent,
+  ChunkHookEvent,
+  ErrorHookEvent,
+  FinishHookEvent,
+  TelemetryOptions,
+  TelemetryAttributes,
+  TelemetryAttributeValue,
+  Tracer,
+  TelemetrySpan,
+  Meter,
+  MetricOptions,
+  Counter,
+  Histogram,
+  Usage,
+  UsageLimits,
+  UsageContext,
+  BudgetExceededEvent,
+  UsageTrackerLike,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  TransportHandler,
+  TransportMiddleware,
+  ClientMiddleware,
+  MiddlewareNext,
+  RequestMiddlewareContext,
+  ChunkMiddlewareContext,
+  WalletAction,
+  WalletActionKind,
+  WalletActionGate,
+  SlippageSettings,
+  SlippageProfileName,
+  SlippageOptions,
+  SlippageLevel,
+  ResolvedSlippageSettings,
+  RequestPriority,
+  RateLimitRequest,
+  RateLimitPermit,
+  RateLimiterLike,
 } from './types.js';
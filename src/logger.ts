@@ -0,0 +1,106 @@
+// src/logger.ts
+import type { LogFields, LogLevel, Logger } from './types';
+
+/** Log levels from most to least verbose. */
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** Replacement for redacted values. */
+export const REDACTED = '[REDACTED]';
+
+// Compared after lowercasing and removing dashes and underscores
+const SENSITIVE_KEYS = new Set([
+  'apikey',
+  'userapikey',
+  'xapikey',
+  'xuserkey',
+  'xusersecret',
+  'userkey',
+  'usersecret',
+  'secret',
+  'password',
+  'cookie',
+  'setcookie',
+  'authorization',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+]);
+
+/**
+ * Returns a copy of a value with credentials masked: values under sensitive keys such as
+ * `apiKey`, `X-User-Secret` or `Cookie`, and any occurrence of the given secret strings.
+ *
+ * @param value - The value to redact. Not modified.
+ * @param secrets - Known secret strings, such as the client's API key, to mask wherever they appear.
+ */
+export function redact<T>(value: T, secrets: readonly string[] = []): T {
+  const known = secrets.filter(secret => secret && secret.length >= 4);
+  return redactValue(value, known, new Set()) as T;
+}
+
+function redactValue(value: unknown, secrets: string[], ancestors: Set<object>): unknown {
+  if (typeof value === 'string') {
+    let result = value;
+    for (const secret of secrets) result = result.split(secret).join(REDACTED);
+    return result;
+  }
+  if (!value || typeof value !== 'object') return value;
+  if (ancestors.has(value)) return '[Circular]';
+
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) return value.map(item => redactValue(item, secrets, ancestors));
+    if (value instanceof Error) {
+      return {
+        name: value.name,
+        message: redactValue(value.message, secrets, ancestors),
+        ...(redactValue({ ...value }, secrets, ancestors) as object),
+      };
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEYS.has(key.toLowerCase().replace(/[-_]/g, ''))
+        ? REDACTED
+        : redactValue(entry, secrets, ancestors);
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * Creates a logger that writes to the console, dropping messages below the given level.
+ * Warnings and errors go to `console.warn` and `console.error`, everything else to
+ * `console.log`. Fields are printed as JSON after the message.
+ *
+ * @param level - The least severe level to print. Defaults to `info`.
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const write =
+    (messageLevel: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (LOG_LEVELS.indexOf(messageLevel) < threshold) return;
+      const line = `[${new Date().toISOString()}] ${message}`;
+      const output =
+        messageLevel === 'error'
+          ? console.error
+          : messageLevel === 'warn'
+            ? console.warn
+            : console.log;
+      if (fields && Object.keys(fields).length > 0) {
+        output(line, JSON.stringify(fields));
+      } else {
+        output(line);
+      }
+    };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+// src/mcp/cli.ts
+import { realpathSync } from 'node:fs';
+import { FileConversationStore } from '../stores.js';
+import { createHustleMcpServer } from './server.js';
+
+// Configured through the same environment variables as the examples
+const transport = process.env['MCP_TRANSPORT'] || 'stdio';
+if (transport !== 'stdio' && transport !== 'sse' && transport !== 'http-stream') {
+  console.error(`Unknown MCP_TRANSPORT "${transport}". Use stdio, sse or http-stream.`);
+  process.exit(1);
+}
+
+const conversationDir = process.env['HUSTLE_CONVERSATION_DIR'];
+
+async function main(): Promise<void> {
+  const server = createHustleMcpServer({
+    apiKey: process.env['HUSTLE_API_KEY'],
+    vaultId: process.env['VAULT_ID'],
+    externalWalletAddress: process.env['HUSTLE_WALLET_ADDRESS'],
+    store: conversationDir ? new FileConversationStore(conversationDir) : undefined,
+    transport: transport as 'stdio' | 'sse' | 'http-stream',
+    port: process.env['MCP_PORT'] ? Number(process.env['MCP_PORT']) : undefined,
+    // Tools sit next to this file, but process.argv[1] is the npm bin symlink when installed.
+    // import.meta.url would name this file too, but this file is also compiled to CommonJS.
+    basePath: process.argv[1] ? realpathSync(process.argv[1]) : undefined,
+  });
+  await server.start();
+}
+
+main().catch(error => {
+  console.error('Failed to start the Hustle MCP server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+// src/mcp/context.ts
+import type { ConversationStore, SlippageSettings } from '../types';
+import type { HustleIncognitoClient } from '../client.js';
+
+/**
+ * What the MCP tools run against. mcp-framework constructs tools itself, so they read this
+ * shared context instead of receiving it in a constructor.
+ */
+export interface HustleMcpContext {
+  /** The client used for every tool call. */
+  client: HustleIncognitoClient;
+  /** Where conversations are kept between tool calls. */
+  store: ConversationStore;
+  /** Vault used when a tool call does not name one. */
+  vaultId: string;
+  /** Wallet used when a tool call does not name one. */
+  externalWalletAddress?: string;
+  /** Slippage used when a tool call does not set it. */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Safe mode used when a tool call does not set it. */
+  safeMode?: boolean;
+}
+
+let context: HustleMcpContext | null = null;
+
+/**
+ * Sets the context used by the Hustle MCP tools.
+ */
+export function setHustleMcpContext(next: HustleMcpContext): void {
+  context = next;
+}
+
+/**
+ * Returns the context used by the Hustle MCP tools.
+ *
+ * @throws Error if `createHustleMcpServer()` or `setHustleMcpContext()` has not been called.
+ */
+export function getHustleMcpContext(): HustleMcpContext {
+  if (!context) {
+    throw new Error('Hustle MCP context is not set. Create the server with createHustleMcpServer.');
+  }
+  return context;
+}
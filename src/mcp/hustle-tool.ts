@@ -0,0 +1,144 @@
+// src/mcp/hustle-tool.ts
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import type { SlippageSettings } from '../types';
+import { Conversation } from '../conversation.js';
+import { getHustleMcpContext } from './context.js';
+
+/**
+ * Input fields shared by the tools that talk to the agent.
+ */
+export const chatInputSchema = {
+  message: {
+    type: z.string().min(1),
+    description: 'The message to send to the Hustle agent',
+  },
+  conversationId: {
+    type: z.string().min(1).optional(),
+    description: 'Continue an earlier conversation. Omit to start a new one.',
+  },
+  vaultId: {
+    type: z.string().min(1).optional(),
+    description: 'The vault to act on. Defaults to the server vault.',
+  },
+  wallet: {
+    type: z.string().min(1).optional(),
+    description: 'External wallet address to use for on-chain actions',
+  },
+  slippage: {
+    type: z
+      .object({
+        swapSlippage: z.number().min(0).max(100).optional(),
+        lpSlippage: z.number().min(0).max(100).optional(),
+        pumpSlippage: z.number().min(0).max(100).optional(),
+      })
+      .strict()
+      .optional(),
+    description: 'Slippage percentages for swaps, liquidity and pump.fun trades',
+  },
+  safeMode: {
+    type: z.boolean().optional(),
+    description: 'Ask for confirmation before executing transactions. Defaults to true.',
+  },
+};
+
+/**
+ * Input accepted by the tools that talk to the agent. A type alias rather than an interface,
+ * so it satisfies the `Record<string, unknown>` constraint of `HustleTool`.
+ */
+export type ChatToolInput = {
+  message: string;
+  conversationId?: string;
+  vaultId?: string;
+  wallet?: string;
+  slippage?: Partial<SlippageSettings>;
+  safeMode?: boolean;
+};
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Base class for the Hustle MCP tools. Publishes a JSON schema with real types and required
+ * fields, where mcp-framework would describe optional and nested fields as strings.
+ */
+export abstract class HustleTool<TInput extends Record<string, unknown>> extends MCPTool<TInput> {
+  override get inputSchema(): {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+  } {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    for (const [key, field] of Object.entries(this.schema) as [
+      string,
+      { type: z.ZodTypeAny; description: string },
+    ][]) {
+      properties[key] = { ...toJsonSchema(field.type), description: field.description };
+      if (!field.type.isOptional()) required.push(key);
+    }
+    return { type: 'object', properties, required };
+  }
+
+  /**
+   * Resumes the requested conversation, or starts one, with the settings from the input
+   * layered over the server defaults.
+   */
+  protected async openConversation(input: ChatToolInput): Promise<Conversation> {
+    const context = getHustleMcpContext();
+    const settings = {
+      ...(input.vaultId && { vaultId: input.vaultId }),
+      ...(input.wallet && { externalWalletAddress: input.wallet }),
+      ...(input.safeMode !== undefined && { safeMode: input.safeMode }),
+    };
+
+    const snapshot = input.conversationId ? await context.store.load(input.conversationId) : null;
+    if (snapshot) {
+      return Conversation.fromSnapshot(context.client, snapshot, {
+        ...settings,
+        ...(input.slippage && {
+          slippageSettings: { ...snapshot.slippageSettings, ...input.slippage },
+        }),
+        store: context.store,
+      });
+    }
+
+    return context.client.createConversation({
+      id: input.conversationId,
+      vaultId: context.vaultId,
+      externalWalletAddress: context.externalWalletAddress,
+      safeMode: context.safeMode,
+      ...settings,
+      slippageSettings: input.slippage
+        ? { ...context.slippageSettings, ...input.slippage }
+        : context.slippageSettings,
+      store: context.store,
+    });
+  }
+}
+
+function toJsonSchema(type: z.ZodTypeAny): JsonSchema {
+  if (type instanceof z.ZodOptional || type instanceof z.ZodNullable) {
+    return toJsonSchema(type.unwrap());
+  }
+  if (type instanceof z.ZodDefault) return toJsonSchema(type.removeDefault());
+  if (type instanceof z.ZodString) return { type: 'string' };
+  if (type instanceof z.ZodNumber) {
+    return {
+      type: 'number',
+      ...(type.minValue !== null && { minimum: type.minValue }),
+      ...(type.maxValue !== null && { maximum: type.maxValue }),
+    };
+  }
+  if (type instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (type instanceof z.ZodArray) return { type: 'array', items: toJsonSchema(type.element) };
+  if (type instanceof z.ZodObject) {
+    const shape = type.shape as Record<string, z.ZodTypeAny>;
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+      ),
+    };
+  }
+  return {};
+}
@@ -0,0 +1,10 @@
+// src/mcp/index.ts
+export { createHustleMcpServer } from './server.js';
+export type { HustleMcpServerOptions } from './server.js';
+export { getHustleMcpContext, setHustleMcpContext } from './context.js';
+export type { HustleMcpContext } from './context.js';
+export { HustleTool, chatInputSchema } from './hustle-tool.js';
+export type { ChatToolInput } from './hustle-tool.js';
+export { default as HustleChatTool } from './tools/hustle-chat.js';
+export { default as HustleStreamSummaryTool } from './tools/hustle-stream-summary.js';
+export { default as HustleListConversationsTool } from './tools/hustle-list-conversations.js';
@@ -0,0 +1,77 @@
+// src/mcp/server.ts
+import { MCPServer } from 'mcp-framework';
+import type { ConversationStore, SlippageSettings } from '../types';
+import { HustleIncognitoClient } from '../client.js';
+import { MemoryConversationStore } from '../stores.js';
+import { setHustleMcpContext } from './context.js';
+
+/**
+ * Options for the Hustle MCP server.
+ */
+export interface HustleMcpServerOptions {
+  /** The client to use. Created from `apiKey` when omitted. */
+  client?: HustleIncognitoClient;
+  /** API key used to create a client when none is given. */
+  apiKey?: string;
+  /** Where conversations are kept. Defaults to memory, so they end with the process. */
+  store?: ConversationStore;
+  /** Vault used when a tool call does not name one. Defaults to the client's vault. */
+  vaultId?: string;
+  /** Wallet used when a tool call does not name one. */
+  externalWalletAddress?: string;
+  /** Slippage used when a tool call does not set it. */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Safe mode used when a tool call does not set it. */
+  safeMode?: boolean;
+  /** How MCP clients connect. Defaults to `stdio`. */
+  transport?: 'stdio' | 'sse' | 'http-stream';
+  /** Port for the `sse` and `http-stream` transports. Defaults to 8080. */
+  port?: number;
+  /** Server name reported to MCP clients. */
+  name?: string;
+  /** Server version reported to MCP clients. */
+  version?: string;
+  /**
+   * A file in the directory that contains the compiled `tools/` directory. mcp-framework
+   * discovers tools from there. Defaults to the running script as Node.js was given it, so pass
+   * the real path when the script can be started through a symlink. The bundled `hustle-mcp`
+   * entry point does this.
+   */
+  basePath?: string;
+}
+
+/**
+ * Creates an MCP server that exposes the Hustle agent as `hustle_chat`,
+ * `hustle_stream_summary` and `hustle_list_conversations`. Call `start()` on the result.
+ *
+ * Only one server per process is supported, since the tools share a single context.
+ *
+ * @param options - The client or API key, defaults for tool calls and the transport.
+ */
+export function createHustleMcpServer(options: HustleMcpServerOptions = {}): MCPServer {
+  let client = options.client;
+  if (!client) {
+    if (!options.apiKey) throw new Error('Either client or apiKey is required');
+    client = new HustleIncognitoClient({ apiKey: options.apiKey });
+  }
+
+  setHustleMcpContext({
+    client,
+    store: options.store || new MemoryConversationStore(),
+    vaultId: options.vaultId || client.vaultId,
+    externalWalletAddress: options.externalWalletAddress,
+    slippageSettings: options.slippageSettings,
+    safeMode: options.safeMode,
+  });
+
+  const transport = options.transport || 'stdio';
+  return new MCPServer({
+    name: options.name || 'hustle-incognito',
+    version: options.version,
+    basePath: options.basePath,
+    transport:
+      transport === 'stdio'
+        ? { type: 'stdio' }
+        : { type: transport, options: { port: options.port ?? 8080 } },
+  });
+}
@@ -0,0 +1,28 @@
+// src/mcp/tools/hustle-chat.ts
+import { HustleTool, type ChatToolInput, chatInputSchema } from '../hustle-tool.js';
+
+/**
+ * Sends a message to the Hustle agent and returns its complete reply.
+ */
+class HustleChatTool extends HustleTool<ChatToolInput> {
+  name = 'hustle_chat';
+  description =
+    'Chat with the Hustle crypto agent. It can look up tokens, prices and wallets, and trade ' +
+    'from the vault. Pass the returned conversationId to continue the conversation.';
+  protected schema = chatInputSchema;
+
+  protected async execute(input: ChatToolInput) {
+    const conversation = await this.openConversation(input);
+    const response = await conversation.send(input.message);
+
+    return {
+      conversationId: conversation.id,
+      vaultId: conversation.vaultId,
+      content: response.content,
+      toolCalls: response.toolCalls.map(call => ({ name: call.toolName, args: call.args })),
+      currentPath: conversation.currentPath,
+    };
+  }
+}
+
+export default HustleChatTool;
@@ -0,0 +1,54 @@
+// src/mcp/tools/hustle-list-conversations.ts
+import { z } from 'zod';
+import { HustleTool } from '../hustle-tool.js';
+import { getHustleMcpContext } from '../context.js';
+
+// A type alias, so it satisfies the Record<string, unknown> constraint of HustleTool
+type ListConversationsInput = {
+  vaultId?: string;
+  limit?: number;
+};
+
+/**
+ * Lists the conversations kept by the MCP server, most recent first.
+ */
+class HustleListConversationsTool extends HustleTool<ListConversationsInput> {
+  name = 'hustle_list_conversations';
+  description =
+    'List earlier conversations with the Hustle agent, most recent first. Pass a ' +
+    'conversationId to hustle_chat to continue one.';
+  protected schema = {
+    vaultId: {
+      type: z.string().min(1).optional(),
+      description: 'Only list conversations for this vault',
+    },
+    limit: {
+      type: z.number().int().min(1).max(100).optional(),
+      description: 'Maximum number of conversations to return. Defaults to 20.',
+    },
+  };
+
+  protected async execute(input: ListConversationsInput) {
+    const { store } = getHustleMcpContext();
+    const snapshots = [];
+    for (const id of await store.list()) {
+      const snapshot = await store.load(id);
+      if (snapshot && (!input.vaultId || snapshot.vaultId === input.vaultId)) {
+        snapshots.push(snapshot);
+      }
+    }
+
+    return snapshots
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, input.limit ?? 20)
+      .map(snapshot => ({
+        conversationId: snapshot.id,
+        vaultId: snapshot.vaultId,
+        messageCount: snapshot.messages.length,
+        lastMessage: snapshot.messages[snapshot.messages.length - 1]?.content.slice(0, 200),
+        updatedAt: snapshot.updatedAt,
+      }));
+  }
+}
+
+export default HustleListConversationsTool;
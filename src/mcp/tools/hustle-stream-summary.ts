@@ -0,0 +1,80 @@
+// src/mcp/tools/hustle-stream-summary.ts
+import { HustleTool, type ChatToolInput, chatInputSchema } from '../hustle-tool.js';
+import { UsageAccumulator } from '../../usage.js';
+
+/**
+ * Streams a reply from the Hustle agent and returns a summary of everything in the stream:
+ * text, reasoning, tool activity, sources, errors and timing.
+ */
+class HustleStreamSummaryTool extends HustleTool<ChatToolInput> {
+  name = 'hustle_stream_summary';
+  description =
+    'Send a message to the Hustle crypto agent and get a breakdown of its streamed reply: ' +
+    'the text, reasoning, each tool call with its result, sources, errors, token usage and timing.';
+  protected schema = chatInputSchema;
+
+  protected async execute(input: ChatToolInput) {
+    const conversation = await this.openConversation(input);
+    const startedAt = Date.now();
+    let firstTokenMs: number | null = null;
+    let content = '';
+    let reasoning = '';
+    const usage = new UsageAccumulator();
+    const chunkCounts: Record<string, number> = {};
+    const toolCalls: { id: string; name: string; args: unknown; result?: unknown }[] = [];
+    const sources: { url: string; title?: string }[] = [];
+    const errors: string[] = [];
+
+    for await (const chunk of conversation.stream(input.message)) {
+      chunkCounts[chunk.type] = (chunkCounts[chunk.type] || 0) + 1;
+      switch (chunk.type) {
+        case 'text':
+          if (firstTokenMs === null) firstTokenMs = Date.now() - startedAt;
+          content += chunk.value;
+          break;
+        case 'reasoning':
+          reasoning += chunk.value;
+          break;
+        case 'tool_call':
+          toolCalls.push({
+            id: chunk.value.toolCallId,
+            name: chunk.value.toolName,
+            args: chunk.value.args,
+          });
+          break;
+        case 'tool_result': {
+          const id =
+            'toolCallId' in chunk.value ? chunk.value.toolCallId : chunk.value.tool_call_id;
+          const call = toolCalls.find(c => c.id === id);
+          if (call) call.result = chunk.value.result;
+          break;
+        }
+        case 'source':
+          sources.push({ url: chunk.value.url, title: chunk.value.title });
+          break;
+        case 'error':
+          errors.push(chunk.value);
+          break;
+        case 'finish':
+          usage.add(chunk.value);
+          break;
+      }
+    }
+
+    return {
+      conversationId: conversation.id,
+      vaultId: conversation.vaultId,
+      content,
+      ...(reasoning && { reasoning }),
+      toolCalls,
+      sources,
+      errors,
+      usage: usage.total,
+      chunkCounts,
+      timeToFirstTokenMs: firstTokenMs,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+export default HustleStreamSummaryTool;
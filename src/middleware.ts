@@ -0,0 +1,30 @@
+// src/middleware.ts
+import type { MiddlewareNext } from './types';
+
+/**
+ * One handler in a middleware chain.
+ */
+export type MiddlewareHandler<C> = (context: C, next: MiddlewareNext) => Promise<void>;
+
+/**
+ * Composes handlers into one function, Koa-style. The first handler runs first and its `next`
+ * calls the second; the last handler's `next` calls `inner`.
+ *
+ * @param handlers - The handlers, outermost first.
+ * @returns A function that runs the chain for a context.
+ */
+export function composeMiddleware<C>(
+  handlers: MiddlewareHandler<C>[]
+): (context: C, inner?: MiddlewareNext) => Promise<void> {
+  return (context, inner) => {
+    let called = -1;
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= called) throw new Error('Middleware called next() more than once');
+      called = index;
+      const handler = handlers[index];
+      if (handler) return handler(context, () => dispatch(index + 1));
+      if (inner) return inner();
+    };
+    return dispatch(0);
+  };
+}
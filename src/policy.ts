@@ -0,0 +1,515 @@
+// src/policy.ts
+import type {
+  HustleRequest,
+  SlippageSettings,
+  StreamToolCall,
+  UsageContext,
+  WalletAction,
+  WalletActionGate,
+  WalletActionKind,
+} from './types';
+import { PolicyDeniedError } from './errors.js';
+import { abortReason } from './signal.js';
+
+/**
+ * A request for a human to approve a wallet action.
+ */
+export interface ApprovalRequest {
+  action: WalletAction;
+  /**
+   * Aborts when the approval is no longer needed, e.g. because it timed out or the request was
+   * aborted.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * A human's answer to an {@link ApprovalRequest}. `true` and `false` are short for
+ * `{ approved: true }` and `{ approved: false }`.
+ */
+export type ApprovalResponse =
+  | boolean
+  | {
+      approved: boolean;
+      /** Who answered, for the audit log. */
+      approvedBy?: string;
+      /** Why, for the audit log and the error message. */
+      reason?: string;
+    };
+
+/**
+ * A decision recorded in the audit log.
+ */
+export interface AuditEntry {
+  /** When the decision was made, in milliseconds since the epoch. */
+  timestamp: number;
+  outcome: 'allowed' | 'denied';
+  action: WalletAction;
+  /** The rule that denied the action. */
+  rule?: string;
+  reason?: string;
+  /** Who approved or rejected the action, if a human was asked. */
+  approvedBy?: string;
+}
+
+/**
+ * Receives every decision a {@link WalletPolicyGate} makes, e.g. to write it to a database.
+ */
+export interface AuditLog {
+  record(entry: AuditEntry): void | Promise<void>;
+}
+
+/**
+ * Keeps audit entries in memory. This is the default audit log.
+ */
+export class InMemoryAuditLog implements AuditLog {
+  readonly entries: AuditEntry[] = [];
+
+  record(entry: AuditEntry): void {
+    this.entries.push(entry);
+  }
+
+  /** The actions that were denied, oldest first. */
+  denials(): AuditEntry[] {
+    return this.entries.filter(entry => entry.outcome === 'denied');
+  }
+}
+
+/**
+ * Rules for a {@link WalletPolicyGate}. Every rule is optional; actions pass the rules that are
+ * not set.
+ */
+export interface WalletPolicyOptions {
+  /** Kinds of action that may run at all. Defaults to every kind. */
+  allowKinds?: WalletActionKind[];
+  /** Largest allowed value of one action in USD. */
+  maxNotionalUsd?: number;
+  /**
+   * What to do when `maxNotionalUsd` is set but the value of an action is not known:
+   * `deny` (the default), `approve` to ask a human, or `allow`.
+   */
+  unknownNotional?: 'deny' | 'approve' | 'allow';
+  /** Tokens that may be traded or sent, by symbol or mint address. Others are denied. */
+  allowTokens?: string[];
+  /**
+   * What to do when `allowTokens` is set but no token can be found in the arguments:
+   * `deny` (the default), `approve` to ask a human, or `allow`.
+   */
+  unknownTokens?: 'deny' | 'approve' | 'allow';
+  /** Tokens that may never be traded or sent, by symbol or mint address. */
+  denyTokens?: string[];
+  /**
+   * Largest allowed slippage tolerance in percent, for tool arguments and for the slippage
+   * settings the client sends.
+   */
+  maxSlippage?: number;
+  /** Actions that need a human approval once they pass the rules. */
+  requireApproval?: boolean | ((action: WalletAction) => boolean);
+  /** Asks a human to approve an action. Required when approvals can be needed. */
+  approve?: (request: ApprovalRequest) => Promise<ApprovalResponse>;
+  /** How long to wait for an approval before denying the action. Waits forever when unset. */
+  approvalTimeoutMs?: number;
+  /** Receives every decision. Defaults to an `InMemoryAuditLog`. */
+  auditLog?: AuditLog;
+  /** Kinds for specific tool names, used before the built-in name matching. */
+  tools?: Record<string, WalletActionKind | null>;
+  /**
+   * What to do with tool calls that neither `tools` nor the built-in name matching classify:
+   * `allow` (the default) lets them run unchecked, `approve` asks a human, and `deny` refuses
+   * them. With `deny` or `approve`, list the tools that cannot move funds in `tools` as `null`.
+   */
+  unknownTools?: 'deny' | 'approve' | 'allow';
+  /** Estimates the value of an action in USD when its arguments do not give one. */
+  estimateNotionalUsd?: (action: WalletAction) => number | undefined | Promise<number | undefined>;
+}
+
+// Checked in order: pump.fun and liquidity tools often also say "buy" or "add"
+const KIND_PATTERNS: [WalletActionKind, RegExp][] = [
+  ['pump', /pump/i],
+  ['liquidity', /liquidity|(^|[^a-z])lp([^a-z]|$)|pool/i],
+  ['transfer', /transfer|send|withdraw/i],
+  ['swap', /swap|trade|buy|sell|order|dca/i],
+];
+
+const TOKEN_KEY = /mint|token|symbol|asset|currency/i;
+// The sides of a swap. For transfers `to` is the recipient, so these only count for trades.
+const SIDE_KEY = /^(from|to|input|output)$/i;
+const NOTIONAL_KEY = /usd|notional/i;
+const SLIPPAGE_KEY = /slippage/i;
+// How deep nested arguments are searched
+const MAX_ARGS_DEPTH = 4;
+
+// The request slippage setting that applies to each kind of action
+const SLIPPAGE_SETTINGS: [WalletActionKind, keyof SlippageSettings][] = [
+  ['swap', 'swapSlippage'],
+  ['liquidity', 'lpSlippage'],
+  ['pump', 'pumpSlippage'],
+];
+
+/**
+ * Works out whether a tool call is a wallet action, and which details it names.
+ *
+ * @param tools - Kinds for specific tool names. `null` marks a tool as not a wallet action.
+ * @returns The action, or null for tools that do not trade or transfer.
+ */
+export function classifyWalletAction(
+  toolCall: StreamToolCall,
+  context: UsageContext,
+  tools: Record<string, WalletActionKind | null> = {}
+): WalletAction | null {
+  const kind = Object.prototype.hasOwnProperty.call(tools, toolCall.toolName)
+    ? tools[toolCall.toolName]
+    : KIND_PATTERNS.find(([, pattern]) => pattern.test(toolCall.toolName))?.[0];
+  if (!kind) return null;
+  return describeWalletAction(toolCall, kind, context);
+}
+
+/**
+ * Builds the action for a tool call of a known kind.
+ */
+function describeWalletAction(
+  toolCall: StreamToolCall,
+  kind: WalletActionKind,
+  context: UsageContext
+): WalletAction {
+  const args = toolCall.args || {};
+  const details: ArgDetails = { tokens: [] };
+  for (const [key, value] of Object.entries(args)) {
+    readArg(key, value, kind, details, 0);
+  }
+
+  return {
+    kind,
+    toolName: toolCall.toolName,
+    toolCallId: toolCall.toolCallId,
+    args,
+    tokens: details.tokens,
+    notionalUsd: details.notionalUsd,
+    slippage: details.slippage,
+    vaultId: context.vaultId,
+    conversationId: context.conversationId,
+  };
+}
+
+interface ArgDetails {
+  tokens: string[];
+  notionalUsd?: number;
+  slippage?: number;
+}
+
+/**
+ * Collects the tokens, value and slippage named by one argument, including nested objects and
+ * arrays. Array items are read under the array's key, so `tokens: ['SOL']` names SOL. When
+ * several arguments give a value or slippage, the largest one counts, so a small `priceUsd`
+ * cannot hide a large `amountUsd`.
+ */
+function readArg(
+  key: string,
+  value: unknown,
+  kind: WalletActionKind,
+  details: ArgDetails,
+  depth: number
+): void {
+  if (value && typeof value === 'object') {
+    if (depth >= MAX_ARGS_DEPTH) return;
+    const entries = Array.isArray(value)
+      ? value.map((item): [string, unknown] => [key, item])
+      : Object.entries(value);
+    for (const [childKey, child] of entries) readArg(childKey, child, kind, details, depth + 1);
+  } else if (SLIPPAGE_KEY.test(key)) {
+    const number = Number(value);
+    if (Number.isFinite(number)) {
+      details.slippage = largest(details.slippage, /bps/i.test(key) ? number / 100 : number);
+    }
+  } else if (NOTIONAL_KEY.test(key)) {
+    const number = Number(value);
+    if (Number.isFinite(number)) details.notionalUsd = largest(details.notionalUsd, number);
+  } else if (
+    typeof value === 'string' &&
+    value &&
+    (TOKEN_KEY.test(key) || (kind !== 'transfer' && SIDE_KEY.test(key)))
+  ) {
+    details.tokens.push(value);
+  }
+}
+
+/**
+ * Checks trading and transfer tool calls against rules and, if required, a human approval.
+ * Pass it as the client's `walletPolicy`. Denied calls stop the request with a
+ * `PolicyDeniedError`, and every decision is written to the audit log.
+ *
+ * @example
+ * const policy = new WalletPolicyGate({
+ *   maxNotionalUsd: 1_000,
+ *   denyTokens: ['BONK'],
+ *   maxSlippage: 2,
+ *   requireApproval: action => action.kind === 'transfer',
+ *   approve: ({ action }) => askTreasury(action),
+ * });
+ * const client = new HustleIncognitoClient({ apiKey, walletPolicy: policy });
+ */
+export class WalletPolicyGate implements WalletActionGate {
+  /** Where decisions are recorded. */
+  readonly auditLog: AuditLog;
+  private readonly options: WalletPolicyOptions;
+
+  constructor(options: WalletPolicyOptions = {}) {
+    if (options.requireApproval && !options.approve) {
+      throw new Error('requireApproval needs an approve function');
+    }
+    if (options.unknownNotional === 'approve' && !options.approve) {
+      throw new Error("unknownNotional 'approve' needs an approve function");
+    }
+    if (options.unknownTokens === 'approve' && !options.approve) {
+      throw new Error("unknownTokens 'approve' needs an approve function");
+    }
+    if (options.unknownTools === 'approve' && !options.approve) {
+      throw new Error("unknownTools 'approve' needs an approve function");
+    }
+    this.options = options;
+    this.auditLog = options.auditLog || new InMemoryAuditLog();
+  }
+
+  /**
+   * Checks a tool call. Tool calls that are not wallet actions pass without an audit entry, and
+   * so do unclassified ones unless `unknownTools` says otherwise.
+   *
+   * @param signal - Stops waiting for an approval when aborted.
+   * @throws PolicyDeniedError if a rule or the approver refuses the action.
+   * @throws The signal's reason if it aborts while an approval is pending.
+   */
+  async check(
+    toolCall: StreamToolCall,
+    context: UsageContext,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const action = classifyWalletAction(toolCall, context, this.options.tools);
+    if (!action) return this.checkUnknownTool(toolCall, context, signal);
+    if (action.notionalUsd === undefined && this.options.estimateNotionalUsd) {
+      action.notionalUsd = await this.options.estimateNotionalUsd(action);
+    }
+
+    const result = this.applyRules(action);
+    if (result && result !== 'approve') return this.deny(action, result.rule, result.reason);
+    if (result === 'approve' || this.needsApproval(action)) {
+      return this.requestApproval(action, signal);
+    }
+    await this.auditLog.record({ timestamp: Date.now(), outcome: 'allowed', action });
+  }
+
+  /**
+   * Checks the slippage settings of a request against `maxSlippage` before it is sent. Settings
+   * for kinds of action that `allowKinds` excludes are not checked.
+   *
+   * @throws PolicyDeniedError if a setting is above the ceiling.
+   */
+  async checkRequest(request: HustleRequest, context: UsageContext): Promise<void> {
+    const { maxSlippage, allowKinds } = this.options;
+    const settings = request.slippageSettings;
+    if (maxSlippage === undefined || !settings) return;
+    for (const [kind, setting] of SLIPPAGE_SETTINGS) {
+      const slippage = settings[setting];
+      if (slippage <= maxSlippage || (allowKinds && !allowKinds.includes(kind))) continue;
+      const action: WalletAction = {
+        kind,
+        toolName: 'request',
+        args: { ...settings },
+        tokens: [],
+        slippage,
+        vaultId: context.vaultId,
+        conversationId: context.conversationId,
+      };
+      return this.deny(
+        action,
+        'maxSlippage',
+        `${setting} ${slippage}% is above the ${maxSlippage}% ceiling`
+      );
+    }
+  }
+
+  /**
+   * Returns the first rule the action breaks, `approve` if only a human can decide, or null.
+   * @private
+   */
+  private applyRules(action: WalletAction): { rule: string; reason: string } | 'approve' | null {
+    const options = this.options;
+    // Set when a rule can only be decided by a human; later rules may still deny the action
+    let approve = false;
+    if (options.allowKinds && !options.allowKinds.includes(action.kind)) {
+      return { rule: 'allowKinds', reason: `${action.kind} actions are not allowed` };
+    }
+
+    const denied = action.tokens.find(token => includesToken(options.denyTokens, token));
+    if (denied) return { rule: 'denyTokens', reason: `${denied} is on the deny list` };
+    if (options.allowTokens && action.tokens.length === 0) {
+      const unknown = options.unknownTokens ?? 'deny';
+      if (unknown === 'approve') approve = true;
+      if (unknown === 'deny') {
+        return { rule: 'allowTokens', reason: 'The tokens of the action are not known' };
+      }
+    } else if (options.allowTokens) {
+      const notAllowed = action.tokens.find(token => !includesToken(options.allowTokens, token));
+      if (notAllowed)
+        return { rule: 'allowTokens', reason: `${notAllowed} is not on the allow list` };
+    }
+
+    if (
+      options.maxSlippage !== undefined &&
+      action.slippage !== undefined &&
+      action.slippage > options.maxSlippage
+    ) {
+      return {
+        rule: 'maxSlippage',
+        reason: `Slippage ${action.slippage}% is above the ${options.maxSlippage}% ceiling`,
+      };
+    }
+
+    if (options.maxNotionalUsd !== undefined) {
+      if (action.notionalUsd === undefined) {
+        const unknown = options.unknownNotional ?? 'deny';
+        if (unknown === 'approve') approve = true;
+        if (unknown === 'deny') {
+          return { rule: 'maxNotionalUsd', reason: 'The value of the action is not known' };
+        }
+      } else if (action.notionalUsd > options.maxNotionalUsd) {
+        return {
+          rule: 'maxNotionalUsd',
+          reason: `$${action.notionalUsd} is above the $${options.maxNotionalUsd} limit`,
+        };
+      }
+    }
+    return approve ? 'approve' : null;
+  }
+
+  /**
+   * Applies `unknownTools` to a tool call that was not classified. Tools listed as `null` in
+   * `tools` are not wallet actions and always pass.
+   * @private
+   */
+  private async checkUnknownTool(
+    toolCall: StreamToolCall,
+    context: UsageContext,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    const unknown = this.options.unknownTools ?? 'allow';
+    const tools = this.options.tools || {};
+    if (unknown === 'allow' || Object.prototype.hasOwnProperty.call(tools, toolCall.toolName)) {
+      return;
+    }
+    const action = describeWalletAction(toolCall, 'unknown', context);
+    if (unknown === 'deny') {
+      return this.deny(action, 'unknownTools', 'The tool is not known to the policy');
+    }
+    return this.requestApproval(action, signal);
+  }
+
+  /** @private */
+  private needsApproval(action: WalletAction): boolean {
+    const requireApproval = this.options.requireApproval;
+    return typeof requireApproval === 'function' ? requireApproval(action) : !!requireApproval;
+  }
+
+  /**
+   * Waits for a human, denying the action if they refuse or do not answer in time. Rejects with
+   * the reason of `signal` if the request is aborted first.
+   * @private
+   */
+  private async requestApproval(action: WalletAction, signal?: AbortSignal): Promise<void> {
+    const approve = this.options.approve as NonNullable<WalletPolicyOptions['approve']>;
+    const controller = new AbortController();
+    const timeoutMs = this.options.approvalTimeoutMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    let response: ApprovalResponse | 'timeout';
+    try {
+      const waits: Promise<ApprovalResponse | 'timeout'>[] = [
+        approve({ action, signal: controller.signal }),
+      ];
+      if (timeoutMs !== undefined) {
+        waits.push(
+          new Promise(resolve => {
+            timer = setTimeout(() => resolve('timeout'), timeoutMs);
+          })
+        );
+      }
+      if (signal) {
+        waits.push(
+          new Promise((_, reject) => {
+            onAbort = () => reject(abortReason(signal));
+            if (signal.aborted) onAbort();
+            else signal.addEventListener('abort', onAbort, { once: true });
+          })
+        );
+      }
+      response = await Promise.race(waits);
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.auditLog.record({
+          timestamp: Date.now(),
+          outcome: 'denied',
+          action,
+          rule: 'approval',
+          reason: 'The request was aborted before an approval',
+        });
+        throw abortReason(signal);
+      }
+      return this.deny(action, 'approval', `Approval failed: ${String(error)}`);
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+      controller.abort();
+    }
+
+    if (response === 'timeout') {
+      return this.deny(action, 'approval', `No approval within ${timeoutMs}ms`);
+    }
+    const answer = typeof response === 'boolean' ? { approved: response } : response;
+    if (!answer.approved) {
+      return this.deny(
+        action,
+        'approval',
+        answer.reason || 'Approval was refused',
+        answer.approvedBy
+      );
+    }
+    await this.auditLog.record({
+      timestamp: Date.now(),
+      outcome: 'allowed',
+      action,
+      reason: answer.reason,
+      approvedBy: answer.approvedBy,
+    });
+  }
+
+  /**
+   * Records a denial and throws.
+   * @private
+   */
+  private async deny(
+    action: WalletAction,
+    rule: string,
+    reason: string,
+    approvedBy?: string
+  ): Promise<never> {
+    await this.auditLog.record({
+      timestamp: Date.now(),
+      outcome: 'denied',
+      action,
+      rule,
+      reason,
+      approvedBy,
+    });
+    throw new PolicyDeniedError(`${action.toolName} was denied: ${reason}`, action, rule, {
+      vaultId: action.vaultId,
+    });
+  }
+}
+
+function largest(current: number | undefined, value: number): number {
+  return current === undefined ? value : Math.max(current, value);
+}
+
+function includesToken(list: string[] | undefined, token: string): boolean {
+  return !!list?.some(entry => entry.toLowerCase() === token.toLowerCase());
+}
@@ -0,0 +1,130 @@
+// src/pool.ts
+import type { HustleIncognitoClientOptions } from './types';
+import { HustleIncognitoClient } from './client.js';
+
+/**
+ * Options for a {@link HustleClientPool}.
+ */
+export interface HustleClientPoolOptions {
+  /**
+   * Options shared by every tenant's client, such as a logger, transport or usage tracker.
+   * Tenant options win. Credentials are never shared, so they cannot be set here.
+   */
+  defaults?: Omit<HustleIncognitoClientOptions, 'apiKey' | 'userKey' | 'userSecret' | 'cookie'>;
+  /** Tenants to register up front, by tenant ID. */
+  tenants?: Record<string, HustleIncognitoClientOptions>;
+  /**
+   * Loads the options of a tenant that is not registered, e.g. from your database. Return null
+   * for unknown tenants.
+   */
+  loadTenant?: (
+    tenantId: string
+  ) =>
+    | HustleIncognitoClientOptions
+    | null
+    | undefined
+    | Promise<HustleIncognitoClientOptions | null | undefined>;
+}
+
+/**
+ * Keeps one client per tenant, each with its own credentials, default vault, wallet, slippage
+ * and concurrency limit, for platforms that serve many end users from one process.
+ *
+ * @example
+ * const pool = new HustleClientPool({
+ *   defaults: { logger, retry: { maxAttempts: 3 }, maxConcurrentRequests: 2 },
+ *   loadTenant: async tenantId => {
+ *     const tenant = await db.tenants.find(tenantId);
+ *     return tenant && { apiKey: tenant.apiKey, vaultId: tenant.vaultId };
+ *   },
+ * });
+ *
+ * const client = await pool.load(request.user.tenantId);
+ * const conversation = client.createConversation({});
+ */
+export class HustleClientPool {
+  private readonly options: HustleClientPoolOptions;
+  private readonly clients = new Map<string, HustleIncognitoClient>();
+  // Loads in flight, so concurrent requests for a new tenant create one client
+  private readonly loading = new Map<string, Promise<HustleIncognitoClient>>();
+
+  constructor(options: HustleClientPoolOptions = {}) {
+    this.options = options;
+    for (const [tenantId, tenant] of Object.entries(options.tenants || {})) {
+      this.register(tenantId, tenant);
+    }
+  }
+
+  /** Number of tenants with a client. */
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /** IDs of the tenants with a client, in the order they were added. */
+  tenantIds(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * Creates the client for a tenant, replacing any earlier one.
+   *
+   * @param tenantId - Your ID for the tenant.
+   * @param options - The tenant's credentials and settings, applied over the pool defaults.
+   * @returns The tenant's client.
+   */
+  register(tenantId: string, options: HustleIncognitoClientOptions): HustleIncognitoClient {
+    if (!tenantId) throw new Error('Tenant ID is required');
+    const client = new HustleIncognitoClient({ ...this.options.defaults, ...options });
+    this.clients.set(tenantId, client);
+    return client;
+  }
+
+  /** Whether a tenant has a client. */
+  has(tenantId: string): boolean {
+    return this.clients.has(tenantId);
+  }
+
+  /**
+   * Returns the client of a registered tenant.
+   *
+   * @throws Error if the tenant has no client. Use `load` to create clients on demand.
+   */
+  get(tenantId: string): HustleIncognitoClient {
+    const client = this.clients.get(tenantId);
+    if (!client) throw new Error(`Unknown tenant ${tenantId}`);
+    return client;
+  }
+
+  /**
+   * Returns the client of a tenant, creating it with `loadTenant` if needed.
+   *
+   * @throws Error if the tenant is not registered and `loadTenant` does not know it.
+   */
+  async load(tenantId: string): Promise<HustleIncognitoClient> {
+    const client = this.clients.get(tenantId);
+    if (client) return client;
+
+    let pending = this.loading.get(tenantId);
+    if (!pending) {
+      pending = this.loadClient(tenantId).finally(() => this.loading.delete(tenantId));
+      this.loading.set(tenantId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Drops a tenant's client. Requests already running on it continue.
+   *
+   * @returns Whether the tenant had a client.
+   */
+  remove(tenantId: string): boolean {
+    return this.clients.delete(tenantId);
+  }
+
+  /** @private */
+  private async loadClient(tenantId: string): Promise<HustleIncognitoClient> {
+    const options = await this.options.loadTenant?.(tenantId);
+    if (!options) throw new Error(`Unknown tenant ${tenantId}`);
+    return this.register(tenantId, options);
+  }
+}
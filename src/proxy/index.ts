@@ -0,0 +1,18 @@
+// src/proxy/index.ts
+export { createHustleProxy, PROXY_HEADERS } from './server.js';
+export type { HustleProxyOptions, ProxySettings } from './server.js';
+export {
+  toChatMessages,
+  toOpenAIUsage,
+  toOpenAIError,
+  validateChatCompletionRequest,
+} from './openai.js';
+export type {
+  OpenAIChatMessage,
+  OpenAIContentPart,
+  OpenAIChatCompletionRequest,
+  OpenAIChatCompletion,
+  OpenAIChatCompletionChunk,
+  OpenAIUsage,
+  OpenAIErrorBody,
+} from './openai.js';
@@ -0,0 +1,239 @@
+// src/proxy/openai.ts
+import type { Attachment, ChatMessage, Usage } from '../types';
+import { detectContentType } from '../attachments.js';
+import { AbortedError, HttpError, HustleError } from '../errors.js';
+import { generateId } from '../utils.js';
+
+/**
+ * A content part in an OpenAI chat message.
+ */
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: string } };
+
+/**
+ * A message in an OpenAI chat completion request.
+ */
+export interface OpenAIChatMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  name?: string;
+}
+
+// The roles the proxy accepts; anything else is rejected rather than forwarded to the agent
+const MESSAGE_ROLES: readonly string[] = ['system', 'developer', 'user', 'assistant', 'tool'];
+
+/**
+ * The subset of an OpenAI chat completion request the proxy understands. Other fields, such
+ * as `temperature` or `tools`, are accepted and ignored since the agent picks its own model
+ * and runs its own tools.
+ */
+export interface OpenAIChatCompletionRequest {
+  model?: string;
+  messages: OpenAIChatMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+}
+
+/**
+ * Token usage in OpenAI format.
+ */
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * A non-streaming OpenAI chat completion.
+ */
+export interface OpenAIChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: { role: 'assistant'; content: string };
+    finish_reason: string;
+  }[];
+  usage?: OpenAIUsage;
+}
+
+/**
+ * One server-sent event of a streaming OpenAI chat completion.
+ */
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: { role?: 'assistant'; content?: string };
+    finish_reason: string | null;
+  }[];
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * An error body in OpenAI format.
+ */
+export interface OpenAIErrorBody {
+  error: { message: string; type: string; code: string | null };
+}
+
+/**
+ * Checks that a request body looks like an OpenAI chat completion request.
+ *
+ * @returns An error message, or null if the body is usable.
+ */
+export function validateChatCompletionRequest(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+  const { messages } = body as { messages?: unknown };
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return '`messages` must be a non-empty array';
+  }
+  for (const [index, message] of messages.entries()) {
+    if (!message || typeof message !== 'object' || typeof message.role !== 'string') {
+      return 'Each message needs a `role`';
+    }
+    if (!MESSAGE_ROLES.includes(message.role)) {
+      return `\`messages[${index}].role\` must be one of ${MESSAGE_ROLES.join(', ')}`;
+    }
+    const invalid = validateContent(message.content);
+    if (invalid) return `\`messages[${index}].content\` ${invalid}`;
+  }
+  return null;
+}
+
+/**
+ * Checks the content of one message.
+ *
+ * @returns What is wrong with it, or null if it is usable.
+ */
+function validateContent(content: unknown): string | null {
+  if (content == null || typeof content === 'string') return null;
+  if (!Array.isArray(content)) return 'must be a string, null or an array of content parts';
+  for (const part of content) {
+    if (!part || typeof part !== 'object' || typeof part.type !== 'string') {
+      return 'parts must be objects with a string `type`';
+    }
+    if (part.type === 'text' && typeof part.text !== 'string') {
+      return 'text parts need a string `text`';
+    }
+    if (part.type === 'image_url' && typeof part.image_url?.url !== 'string') {
+      return 'image_url parts need a string `image_url.url`';
+    }
+  }
+  return null;
+}
+
+/**
+ * Converts OpenAI messages to Hustle chat messages. Developer messages become system
+ * messages, images become attachments, and tool messages are dropped because the agent runs
+ * its own tools.
+ */
+export function toChatMessages(messages: OpenAIChatMessage[]): ChatMessage[] {
+  const converted: ChatMessage[] = [];
+  for (const message of messages) {
+    if (message.role === 'tool') continue;
+
+    const role = message.role === 'developer' ? 'system' : message.role;
+    if (typeof message.content === 'string' || message.content == null) {
+      converted.push({ role, content: message.content || '' });
+      continue;
+    }
+
+    const text: string[] = [];
+    const attachments: Attachment[] = [];
+    for (const part of message.content) {
+      if (part.type === 'text') {
+        text.push(part.text);
+      } else if (part.type === 'image_url') {
+        attachments.push(toAttachment(part.image_url.url));
+      }
+    }
+    const chatMessage: ChatMessage = { role, content: text.join('\n') };
+    if (attachments.length > 0) chatMessage.experimental_attachments = attachments;
+    converted.push(chatMessage);
+  }
+  return converted;
+}
+
+/**
+ * Converts usage reported by the agent to OpenAI format.
+ */
+export function toOpenAIUsage(usage: Usage | null | undefined): OpenAIUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+  };
+}
+
+/**
+ * Maps the agent's finish reason to one OpenAI clients understand.
+ */
+export function toFinishReason(reason: string | undefined): string {
+  switch (reason) {
+    case 'length':
+      return 'length';
+    case 'content-filter':
+      return 'content_filter';
+    default:
+      return 'stop';
+  }
+}
+
+/**
+ * Creates an ID in the format OpenAI uses for chat completions.
+ */
+export function createCompletionId(): string {
+  return generateId('chatcmpl');
+}
+
+/**
+ * Maps an error to an HTTP status and an OpenAI error body.
+ */
+export function toOpenAIError(error: unknown): { status: number; body: OpenAIErrorBody } {
+  if (error instanceof AbortedError) {
+    return {
+      status: error.timedOut ? 504 : 499,
+      body: {
+        error: {
+          message: error.message,
+          type: error.timedOut ? 'timeout' : 'aborted',
+          code: error.timedOut ? 'timeout' : null,
+        },
+      },
+    };
+  }
+  if (error instanceof HustleError) {
+    // Rate limits and bad requests are the caller's to handle; anything else, including a
+    // rejected server-side API key, is a failure of the upstream service
+    const status = error instanceof HttpError ? error.status : undefined;
+    const passThrough =
+      status !== undefined && status >= 400 && status < 500 && status !== 401 && status !== 403;
+    return {
+      status: passThrough ? (status as number) : 502,
+      body: {
+        error: {
+          message: error.message,
+          type: error.name,
+          code: status !== undefined ? String(status) : null,
+        },
+      },
+    };
+  }
+  return {
+    status: 500,
+    body: { error: { message: 'Internal proxy error', type: 'server_error', code: null } },
+  };
+}
+
+function toAttachment(url: string): Attachment {
+  const dataUrl = /^data:([^;,]+)/.exec(url);
+  return { contentType: dataUrl?.[1] || detectContentType(undefined, url), url };
+}
@@ -0,0 +1,331 @@
+// src/proxy/server.ts
+import express, { type Express, type Request, type Response } from 'express';
+import cors, { type CorsOptions } from 'cors';
+import type { SlippageSettings } from '../types';
+import { HustleIncognitoClient } from '../client.js';
+import { UsageAccumulator } from '../usage.js';
+import { StreamError } from '../errors.js';
+import { validateSlippageSettings } from '../slippage.js';
+import {
+  type OpenAIChatCompletion,
+  type OpenAIChatCompletionChunk,
+  type OpenAIChatCompletionRequest,
+  createCompletionId,
+  toChatMessages,
+  toFinishReason,
+  toOpenAIError,
+  toOpenAIUsage,
+  validateChatCompletionRequest,
+} from './openai.js';
+
+/**
+ * Agent settings for one proxied request.
+ */
+export interface ProxySettings {
+  vaultId: string;
+  externalWalletAddress?: string;
+  slippageSettings?: Partial<SlippageSettings>;
+  safeMode?: boolean;
+}
+
+/**
+ * Options for the OpenAI-compatible proxy.
+ */
+export interface HustleProxyOptions {
+  /** The client to use. Created from `apiKey` when omitted. */
+  client?: HustleIncognitoClient;
+  /** API key used to create a client when none is given. Never sent to proxy callers. */
+  apiKey?: string;
+  /** Vault used when a request does not name one. Defaults to the client's vault. */
+  vaultId?: string;
+  /** Wallet used when a request does not name one. */
+  externalWalletAddress?: string;
+  /** Slippage used when a request does not set it. */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Safe mode used when a request does not set it. */
+  safeMode?: boolean;
+  /**
+   * Bearer tokens callers must send in `Authorization`. Without tokens the proxy is open to
+   * anyone who can reach it, so only leave this unset behind your own authentication.
+   */
+  accessTokens?: string[];
+  /**
+   * Whether callers may pick the vault, wallet, slippage and safe mode with headers. Defaults
+   * to false, since any caller could then use another vault or turn off safe mode. Only turn it
+   * on together with `accessTokens` or your own authentication.
+   */
+  allowHeaderSettings?: boolean;
+  /**
+   * Resolves the settings for a request, for example from your own session. Runs after the
+   * defaults and headers are applied, and receives the result.
+   */
+  resolveSettings?: (
+    request: Request,
+    settings: ProxySettings
+  ) => ProxySettings | Promise<ProxySettings>;
+  /** Model name reported to callers. Defaults to `hustle`. */
+  model?: string;
+  /** CORS settings, or false to disable CORS. Defaults to allowing any origin. */
+  cors?: CorsOptions | false;
+}
+
+/**
+ * Headers callers can use to choose agent settings for a request.
+ */
+export const PROXY_HEADERS = {
+  vaultId: 'x-hustle-vault-id',
+  walletAddress: 'x-hustle-wallet-address',
+  slippage: 'x-hustle-slippage',
+  safeMode: 'x-hustle-safe-mode',
+} as const;
+
+/**
+ * Creates an Express app that serves the agent through an OpenAI-compatible API, so OpenAI
+ * clients and tooling can talk to Hustle. The Hustle API key stays on the server.
+ *
+ * Routes:
+ * - `POST /v1/chat/completions`, streaming (server-sent events) and non-streaming
+ * - `GET /v1/models`
+ *
+ * @example
+ * const app = createHustleProxy({ apiKey: process.env.HUSTLE_API_KEY, vaultId: 'my-vault' });
+ * app.listen(3000);
+ *
+ * @param options - The client or API key, default settings and access control.
+ */
+export function createHustleProxy(options: HustleProxyOptions = {}): Express {
+  let client = options.client;
+  if (!client) {
+    if (!options.apiKey) throw new Error('Either client or apiKey is required');
+    client = new HustleIncognitoClient({ apiKey: options.apiKey });
+  }
+  const hustle = client;
+  const model = options.model || 'hustle';
+
+  const app = express();
+  if (options.cors !== false) app.use(cors(options.cors));
+  app.use(express.json({ limit: '20mb' }));
+
+  app.use('/v1', (request, response, next) => {
+    if (!options.accessTokens) return next();
+    const token = /^Bearer (.+)$/i.exec(request.get('authorization') || '')?.[1];
+    if (token && options.accessTokens.includes(token)) return next();
+    response.status(401).json({
+      error: {
+        message: 'Invalid access token',
+        type: 'invalid_request_error',
+        code: 'invalid_api_key',
+      },
+    });
+  });
+
+  app.get('/v1/models', (_request, response) => {
+    response.json({
+      object: 'list',
+      data: [{ id: model, object: 'model', created: 0, owned_by: 'emblem-vault' }],
+    });
+  });
+
+  app.post('/v1/chat/completions', async (request, response) => {
+    const invalid = validateChatCompletionRequest(request.body);
+    if (invalid) {
+      response.status(400).json({
+        error: { message: invalid, type: 'invalid_request_error', code: null },
+      });
+      return;
+    }
+
+    let settings: ProxySettings;
+    try {
+      settings = await resolveSettings(request, options, hustle);
+    } catch (error) {
+      // Only the proxy's own header checks are safe to show; resolveSettings may leak internals
+      response.status(400).json({
+        error: {
+          message:
+            error instanceof InvalidHeaderError
+              ? error.message
+              : 'The settings for this request could not be resolved',
+          type: 'invalid_request_error',
+          code: null,
+        },
+      });
+      return;
+    }
+
+    const body = request.body as OpenAIChatCompletionRequest;
+    const id = createCompletionId();
+    const created = Math.floor(Date.now() / 1000);
+
+    // Stop the agent when the caller goes away
+    const controller = new AbortController();
+    response.on('close', () => {
+      if (!response.writableEnded) controller.abort();
+    });
+
+    const stream = hustle.chatStream({
+      ...settings,
+      messages: toChatMessages(body.messages),
+      signal: controller.signal,
+    });
+
+    if (body.stream) {
+      await streamCompletion(response, stream, { id, created, model, body });
+    } else {
+      await sendCompletion(response, stream, { id, created, model });
+    }
+  });
+
+  return app;
+}
+
+/**
+ * Builds the settings for a request from the defaults, headers and `resolveSettings`.
+ */
+async function resolveSettings(
+  request: Request,
+  options: HustleProxyOptions,
+  client: HustleIncognitoClient
+): Promise<ProxySettings> {
+  const settings: ProxySettings = {
+    vaultId: options.vaultId || client.vaultId,
+    externalWalletAddress: options.externalWalletAddress,
+    slippageSettings: options.slippageSettings,
+    safeMode: options.safeMode,
+  };
+
+  if (options.allowHeaderSettings) {
+    const vaultId = request.get(PROXY_HEADERS.vaultId);
+    const wallet = request.get(PROXY_HEADERS.walletAddress);
+    const slippage = request.get(PROXY_HEADERS.slippage);
+    const safeMode = request.get(PROXY_HEADERS.safeMode);
+
+    if (vaultId) settings.vaultId = vaultId;
+    if (wallet) settings.externalWalletAddress = wallet;
+    if (slippage) settings.slippageSettings = parseSlippageHeader(slippage);
+    if (safeMode) settings.safeMode = safeMode.toLowerCase() !== 'false';
+  }
+
+  return options.resolveSettings ? options.resolveSettings(request, settings) : settings;
+}
+
+/**
+ * A settings header a caller sent is invalid. Its message is shown to the caller.
+ */
+class InvalidHeaderError extends Error {
+  override readonly name: string = 'InvalidHeaderError';
+}
+
+function parseSlippageHeader(value: string): Partial<SlippageSettings> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new InvalidHeaderError(`${PROXY_HEADERS.slippage} must be a JSON object`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new InvalidHeaderError(`${PROXY_HEADERS.slippage} must be a JSON object`);
+  }
+  try {
+    return validateSlippageSettings(parsed, PROXY_HEADERS.slippage);
+  } catch (error) {
+    throw new InvalidHeaderError((error as Error).message);
+  }
+}
+
+async function sendCompletion(
+  response: Response,
+  stream: ReturnType<HustleIncognitoClient['chatStream']>,
+  meta: { id: string; created: number; model: string }
+): Promise<void> {
+  let content = '';
+  let finishReason: string | undefined;
+  const usage = new UsageAccumulator();
+
+  try {
+    for await (const chunk of stream) {
+      if (!('type' in chunk)) continue;
+      if (chunk.type === 'error') throw new StreamError(chunk.value);
+      if (chunk.type === 'text') content += chunk.value;
+      if (chunk.type === 'finish') {
+        finishReason = chunk.value.reason;
+        usage.add(chunk.value);
+      }
+    }
+  } catch (error) {
+    const { status, body } = toOpenAIError(error);
+    if (!response.headersSent) response.status(status).json(body);
+    return;
+  }
+
+  const completion: OpenAIChatCompletion = {
+    id: meta.id,
+    object: 'chat.completion',
+    created: meta.created,
+    model: meta.model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: toFinishReason(finishReason),
+      },
+    ],
+    usage: toOpenAIUsage(usage.total),
+  };
+  response.json(completion);
+}
+
+async function streamCompletion(
+  response: Response,
+  stream: ReturnType<HustleIncognitoClient['chatStream']>,
+  meta: { id: string; created: number; model: string; body: OpenAIChatCompletionRequest }
+): Promise<void> {
+  response.status(200);
+  response.setHeader('Content-Type', 'text/event-stream');
+  response.setHeader('Cache-Control', 'no-cache');
+  response.setHeader('Connection', 'keep-alive');
+  response.flushHeaders();
+
+  const send = (data: unknown) => response.write(`data: ${JSON.stringify(data)}\n\n`);
+  const chunk = (
+    delta: OpenAIChatCompletionChunk['choices'][number]['delta'],
+    finishReason: string | null = null
+  ): OpenAIChatCompletionChunk => ({
+    id: meta.id,
+    object: 'chat.completion.chunk',
+    created: meta.created,
+    model: meta.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  let finishReason: string | undefined;
+  const usage = new UsageAccumulator();
+  send(chunk({ role: 'assistant', content: '' }));
+
+  try {
+    for await (const streamed of stream) {
+      if (!('type' in streamed)) continue;
+      // Ends the stream with an error event instead of a normal finish
+      if (streamed.type === 'error') throw new StreamError(streamed.value);
+      if (streamed.type === 'text' && streamed.value) send(chunk({ content: streamed.value }));
+      if (streamed.type === 'finish') {
+        finishReason = streamed.value.reason;
+        usage.add(streamed.value);
+      }
+    }
+  } catch (error) {
+    // Headers are already sent, so report the error in the stream as OpenAI does
+    if (!response.writableEnded && !response.destroyed) {
+      send(toOpenAIError(error).body);
+      response.end();
+    }
+    return;
+  }
+
+  send(chunk({}, toFinishReason(finishReason)));
+  if (meta.body.stream_options?.include_usage) {
+    send({ ...chunk({}), choices: [], usage: toOpenAIUsage(usage.total) ?? null });
+  }
+  response.write('data: [DONE]\n\n');
+  response.end();
+}
@@ -0,0 +1,358 @@
+// src/rate-limit.ts
+import type { RateLimitPermit, RateLimitRequest, RateLimiterLike, RequestPriority } from './types';
+import { QueueTimeoutError } from './errors.js';
+import { abortReason } from './signal.js';
+
+/**
+ * Limits for one scope of a {@link RateLimiter}. Every limit is optional.
+ */
+export interface RateLimits {
+  /** Requests that may start per minute, refilled continuously. */
+  requestsPerMinute?: number;
+  /** Requests that may start at once after a quiet period. Defaults to `requestsPerMinute`. */
+  burst?: number;
+  /** Most streams open at once. */
+  maxConcurrent?: number;
+}
+
+/**
+ * Options for a {@link RateLimiter}. A request must fit the limits of every scope it belongs to.
+ */
+export interface RateLimiterOptions {
+  /** Limits on all requests through the limiter. */
+  client?: RateLimits;
+  /** Limits applied to each API key. */
+  apiKey?: RateLimits;
+  /** Limits for specific API keys, used instead of `apiKey`. */
+  apiKeys?: Record<string, RateLimits>;
+  /** Limits applied to each vault. */
+  vault?: RateLimits;
+  /** Limits for specific vaults, by vault ID, used instead of `vault`. */
+  vaults?: Record<string, RateLimits>;
+  /**
+   * Longest time a request waits for its turn before failing with a `QueueTimeoutError`.
+   * Waits until the request's signal aborts when unset.
+   */
+  queueTimeoutMs?: number;
+}
+
+/**
+ * A snapshot of a {@link RateLimiter}, for monitoring.
+ */
+export interface RateLimiterMetrics {
+  /** Requests that have started and not finished. */
+  active: number;
+  /** Requests waiting for their turn. */
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Requests that got their turn since the limiter was created. */
+  started: number;
+  /** Requests that gave up waiting because of `queueTimeoutMs`. */
+  timedOut: number;
+  /** Time the started requests spent waiting, in milliseconds. */
+  totalWaitMs: number;
+  /** Longest time a started request waited, in milliseconds. */
+  maxWaitMs: number;
+  /** Client, API key and vault scopes currently tracked. Idle ones are dropped over time. */
+  scopes: number;
+}
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+// Number of scopes at which the limiter first looks for idle ones to drop
+const MIN_SWEEP_SIZE = 64;
+
+/**
+ * A token bucket and concurrency count for one client, API key or vault.
+ */
+class Scope {
+  private tokens: number;
+  private updatedAt = Date.now();
+  active = 0;
+
+  constructor(private readonly limits: RateLimits) {
+    this.tokens = this.capacity;
+  }
+
+  private get capacity(): number {
+    // A bucket that cannot hold a whole token would never grant one
+    return this.limits.burst ?? Math.max(this.limits.requestsPerMinute ?? Infinity, 1);
+  }
+
+  /** Whether the scope holds no state worth keeping: nothing active and a full bucket. */
+  isIdle(now: number): boolean {
+    this.tokenWait(now);
+    return this.active === 0 && this.tokens >= this.capacity;
+  }
+
+  /** Whether another stream may open. */
+  hasSlot(): boolean {
+    return this.limits.maxConcurrent === undefined || this.active < this.limits.maxConcurrent;
+  }
+
+  /** Milliseconds until a token is available, or 0 if one is available now. */
+  tokenWait(now: number): number {
+    const perMinute = this.limits.requestsPerMinute;
+    if (perMinute === undefined) return 0;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) * perMinute) / 60_000
+    );
+    this.updatedAt = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * 60_000) / perMinute);
+  }
+
+  take(): void {
+    if (this.limits.requestsPerMinute !== undefined) this.tokens -= 1;
+    this.active++;
+  }
+}
+
+interface QueueEntry {
+  scopes: Scope[];
+  enqueuedAt: number;
+  grant(waitMs: number): void;
+}
+
+/**
+ * Holds requests back to stay within requests-per-minute and concurrent-stream limits, for the
+ * whole client, per API key and per vault. Waiting requests start by priority lane, then first
+ * come first served. A request waiting on a busy vault does not hold up requests for other
+ * vaults.
+ *
+ * Pass it as the client's `rateLimiter`, and share one instance between clients that use the
+ * same API key.
+ *
+ * @example
+ * const limiter = new RateLimiter({
+ *   apiKey: { requestsPerMinute: 60, burst: 10 },
+ *   vault: { maxConcurrent: 2 },
+ *   queueTimeoutMs: 30_000,
+ * });
+ * const client = new HustleIncognitoClient({ apiKey, rateLimiter: limiter });
+ * await client.chat(messages, { vaultId, priority: 'high' });
+ */
+export class RateLimiter implements RateLimiterLike {
+  private readonly options: RateLimiterOptions;
+  private readonly scopes = new Map<string, Scope>();
+  private readonly lanes: Record<RequestPriority, QueueEntry[]> = { high: [], normal: [], low: [] };
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private active = 0;
+  // Scope count that triggers the next sweep for idle scopes
+  private sweepAt = MIN_SWEEP_SIZE;
+  private readonly counters = { started: 0, timedOut: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(options: RateLimiterOptions = {}) {
+    const all = [
+      options.client,
+      options.apiKey,
+      options.vault,
+      ...Object.values(options.apiKeys || {}),
+      ...Object.values(options.vaults || {}),
+    ];
+    for (const limits of all) {
+      if (limits) validateLimits(limits);
+    }
+    this.options = options;
+  }
+
+  /**
+   * Waits until the request fits every limit it is subject to.
+   *
+   * @param signal - Stops waiting when aborted.
+   * @throws QueueTimeoutError if the request waits longer than `queueTimeoutMs`.
+   */
+  acquire(request: RateLimitRequest, signal?: AbortSignal): Promise<RateLimitPermit> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+    const scopes = this.scopesFor(request);
+    const lane = this.lanes[request.priority] || this.lanes.normal;
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const leave = () => {
+        const index = lane.indexOf(entry);
+        if (index !== -1) lane.splice(index, 1);
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        leave();
+        reject(abortReason(signal as AbortSignal));
+        // The request may have held back others behind it
+        this.drain();
+      };
+      const entry: QueueEntry = {
+        scopes,
+        enqueuedAt: Date.now(),
+        grant: waitMs => {
+          leave();
+          resolve({ waitMs, release: this.releaser(scopes) });
+        },
+      };
+
+      const timeoutMs = this.options.queueTimeoutMs;
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          leave();
+          this.counters.timedOut++;
+          reject(
+            new QueueTimeoutError(
+              `Request waited more than ${timeoutMs}ms for the rate limiter`,
+              Date.now() - entry.enqueuedAt,
+              { vaultId: request.vaultId }
+            )
+          );
+          this.drain();
+        }, timeoutMs);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.push(entry);
+      this.drain();
+    });
+  }
+
+  /** A snapshot of the queue and the wait times so far. */
+  metrics(): RateLimiterMetrics {
+    const queuedByPriority = {
+      high: this.lanes.high.length,
+      normal: this.lanes.normal.length,
+      low: this.lanes.low.length,
+    };
+    return {
+      active: this.active,
+      queued: queuedByPriority.high + queuedByPriority.normal + queuedByPriority.low,
+      queuedByPriority,
+      ...this.counters,
+      scopes: this.scopes.size,
+    };
+  }
+
+  /**
+   * Finds or creates the scopes whose limits apply to a request.
+   * @private
+   */
+  private scopesFor(request: RateLimitRequest): Scope[] {
+    // Before looking up, so no scope of this request is dropped
+    if (this.scopes.size >= this.sweepAt) this.sweep();
+    const { client, apiKey, apiKeys, vault, vaults } = this.options;
+    const candidates: [string, RateLimits | undefined][] = [
+      ['client', client],
+      [`apiKey:${request.apiKey}`, lookup(apiKeys, request.apiKey) ?? apiKey],
+      [`vault:${request.vaultId}`, lookup(vaults, request.vaultId) ?? vault],
+    ];
+
+    const scopes: Scope[] = [];
+    for (const [key, limits] of candidates) {
+      if (!limits) continue;
+      let scope = this.scopes.get(key);
+      if (!scope) {
+        scope = new Scope(limits);
+        this.scopes.set(key, scope);
+      }
+      scopes.push(scope);
+    }
+    return scopes;
+  }
+
+  /**
+   * Starts every waiting request that fits its limits, in priority order, and schedules the next
+   * check for requests that wait for tokens.
+   * @private
+   */
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const now = Date.now();
+    // Scopes a request ahead is waiting on, so later requests cannot take its turn
+    const blocked = new Set<Scope>();
+    let nextCheckMs = Infinity;
+
+    for (const priority of PRIORITIES) {
+      for (const entry of [...this.lanes[priority]]) {
+        if (entry.scopes.some(scope => blocked.has(scope))) continue;
+
+        let waitMs = 0;
+        for (const scope of entry.scopes) {
+          if (!scope.hasSlot()) {
+            blocked.add(scope);
+            continue;
+          }
+          const tokenWait = scope.tokenWait(now);
+          if (tokenWait > 0) {
+            blocked.add(scope);
+            waitMs = Math.max(waitMs, tokenWait);
+          }
+        }
+        if (entry.scopes.some(scope => blocked.has(scope))) {
+          // Requests waiting for a slot are checked again when one is released
+          if (waitMs > 0) nextCheckMs = Math.min(nextCheckMs, waitMs);
+          continue;
+        }
+
+        for (const scope of entry.scopes) scope.take();
+        this.active++;
+        const waited = now - entry.enqueuedAt;
+        this.counters.started++;
+        this.counters.totalWaitMs += waited;
+        this.counters.maxWaitMs = Math.max(this.counters.maxWaitMs, waited);
+        entry.grant(waited);
+      }
+    }
+
+    if (nextCheckMs !== Infinity) {
+      this.timer = setTimeout(() => this.drain(), nextCheckMs);
+    }
+  }
+
+  /**
+   * Drops scopes that nothing is using or waiting on and whose bucket is full, so one scope per
+   * API key and vault does not pile up in long-running processes. A dropped scope is created
+   * again, unchanged, when needed.
+   * @private
+   */
+  private sweep(): void {
+    const now = Date.now();
+    const waiting = new Set(
+      PRIORITIES.flatMap(priority => this.lanes[priority].flatMap(entry => entry.scopes))
+    );
+    for (const [key, scope] of this.scopes) {
+      if (!waiting.has(scope) && scope.isIdle(now)) this.scopes.delete(key);
+    }
+    // Sweep again once the map has doubled, so sweeping stays cheap per new scope
+    this.sweepAt = Math.max(MIN_SWEEP_SIZE, this.scopes.size * 2);
+  }
+
+  /** @private */
+  private releaser(scopes: Scope[]): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      for (const scope of scopes) scope.active--;
+      this.active--;
+      this.drain();
+    };
+  }
+}
+
+function lookup(
+  limits: Record<string, RateLimits> | undefined,
+  key: string
+): RateLimits | undefined {
+  return limits && Object.prototype.hasOwnProperty.call(limits, key) ? limits[key] : undefined;
+}
+
+function validateLimits(limits: RateLimits): void {
+  for (const [name, value] of Object.entries(limits)) {
+    if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+      throw new Error(`Rate limit ${name} must be a positive number`);
+    }
+  }
+  // Below one, no request could ever start
+  for (const name of ['burst', 'maxConcurrent'] as const) {
+    const value = limits[name];
+    if (value !== undefined && value < 1) {
+      throw new Error(`Rate limit ${name} must be at least 1`);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+// src/retry.ts
+import type { RetryOptions } from './types';
+import { HttpError, HustleError, NetworkError } from './errors.js';
+import { abortReason } from './signal.js';
+
+/**
+ * Defaults applied to any retry option left unset.
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'onRetry'>> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+/**
+ * A retry policy with every default filled in.
+ */
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry'>> &
+  Pick<RetryOptions, 'onRetry'>;
+
+/**
+ * Fills in defaults for a retry policy. Without a policy, requests are attempted once.
+ */
+export function resolveRetryOptions(options?: RetryOptions): ResolvedRetryOptions {
+  if (!options) return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  return {
+    maxAttempts: options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts,
+    initialDelayMs: options.initialDelayMs ?? DEFAULT_RETRY_OPTIONS.initialDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+    backoffMultiplier: options.backoffMultiplier ?? DEFAULT_RETRY_OPTIONS.backoffMultiplier,
+    jitter: options.jitter ?? DEFAULT_RETRY_OPTIONS.jitter,
+    retryableStatuses: options.retryableStatuses ?? DEFAULT_RETRY_OPTIONS.retryableStatuses,
+    retryOnNetworkError: options.retryOnNetworkError ?? DEFAULT_RETRY_OPTIONS.retryOnNetworkError,
+    onRetry: options.onRetry,
+  };
+}
+
+/**
+ * Returns true if the error is transient under the given policy.
+ */
+export function isRetryableError(
+  error: HustleError,
+  options: Pick<RetryOptions, 'retryableStatuses' | 'retryOnNetworkError'>
+): boolean {
+  if (error instanceof HttpError) {
+    return error.status !== undefined && (options.retryableStatuses ?? []).includes(error.status);
+  }
+  if (error instanceof NetworkError) {
+    return options.retryOnNetworkError !== false;
+  }
+  return false;
+}
+
+/**
+ * Computes how long to wait before the next attempt. A Retry-After from the server wins over
+ * the computed backoff when it is longer, but never beyond `maxDelayMs`.
+ *
+ * @param attempt - The attempt that just failed, starting at 1.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  options: Pick<RetryOptions, 'initialDelayMs' | 'maxDelayMs' | 'backoffMultiplier' | 'jitter'>,
+  error?: HustleError
+): number {
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_RETRY_OPTIONS.initialDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+  const multiplier = options.backoffMultiplier ?? DEFAULT_RETRY_OPTIONS.backoffMultiplier;
+
+  let delayMs = Math.min(maxDelayMs, initialDelayMs * Math.pow(multiplier, attempt - 1));
+  if (options.jitter !== false) {
+    // Equal jitter: keep half the delay, randomize the other half
+    delayMs = delayMs / 2 + Math.random() * (delayMs / 2);
+  }
+
+  const retryAfterMs = error instanceof HttpError ? error.retryAfterMs : undefined;
+  if (retryAfterMs !== undefined && retryAfterMs > delayMs) {
+    // The server must not be able to stall the client for as long as it likes
+    delayMs = Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  return Math.round(delayMs);
+}
+
+/**
+ * Waits for the given delay, rejecting early if the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,253 @@
+// src/schemas.ts
+import { z } from 'zod';
+import type {
+  Attachment,
+  ChatMessage,
+  HustleRequest,
+  MessagePart,
+  PathInfo,
+  RawChunk,
+  SlippageSettings,
+  StreamFile,
+  StreamSource,
+  StreamToolCall,
+  StreamToolResult,
+  StreamUsage,
+  ToolCall,
+  ToolInvocation,
+  ToolResult,
+} from './types';
+
+// Objects pass unknown keys through: new fields from the server are not drift, missing or
+// retyped fields are. Schemas with an unknown `result` are cast, because zod infers the key as
+// optional.
+
+export const attachmentSchema: z.ZodType<Attachment> = z
+  .object({
+    name: z.string().optional(),
+    contentType: z.string(),
+    url: z.string(),
+  })
+  .passthrough();
+
+export const messagePartSchema: z.ZodType<MessagePart> = z
+  .object({
+    type: z.enum(['text', 'image', 'file']),
+    text: z.string().optional(),
+    url: z.string().optional(),
+    mimeType: z.string().optional(),
+    name: z.string().optional(),
+  })
+  .passthrough();
+
+export const toolInvocationSchema: z.ZodType<ToolInvocation> = z
+  .object({
+    state: z.literal('result'),
+    toolCallId: z.string(),
+    toolName: z.string(),
+    args: z.record(z.unknown()),
+    result: z.unknown(),
+  })
+  .passthrough() as z.ZodType<ToolInvocation>;
+
+export const chatMessageSchema: z.ZodType<ChatMessage> = z
+  .object({
+    id: z.string().optional(),
+    role: z.enum(['user', 'assistant', 'system', 'tool']),
+    content: z.string(),
+    name: z.string().optional(),
+    parts: z.array(messagePartSchema).optional(),
+    toolInvocations: z.array(toolInvocationSchema).optional(),
+    experimental_attachments: z.array(attachmentSchema).optional(),
+  })
+  .passthrough();
+
+const percentSchema = z.number().min(0).max(100);
+
+// Strict, unlike the other schemas: a misspelled key would otherwise fall back to the default
+const slippageObjectSchema = z
+  .object({
+    swapSlippage: percentSchema,
+    lpSlippage: percentSchema,
+    pumpSlippage: percentSchema,
+  })
+  .strict();
+
+/** Slippage tolerances in percent. Unknown keys are rejected. */
+export const slippageSettingsSchema: z.ZodType<SlippageSettings> = slippageObjectSchema;
+
+/** Slippage values set on top of a profile. Unknown keys are rejected. */
+export const partialSlippageSettingsSchema: z.ZodType<Partial<SlippageSettings>> =
+  slippageObjectSchema.partial();
+
+/** The body of a chat request. */
+export const hustleRequestSchema: z.ZodType<HustleRequest> = z
+  .object({
+    id: z.string().min(1),
+    apiKey: z.string().min(1),
+    messages: z.array(chatMessageSchema),
+    vaultId: z.string().min(1),
+    externalWalletAddress: z.string().optional(),
+    slippageSettings: slippageSettingsSchema.optional(),
+    safeMode: z.boolean().optional(),
+    currentPath: z.string().nullable().optional(),
+    attachments: z.array(attachmentSchema).optional(),
+  })
+  .passthrough();
+
+/** A tool call handed to `onToolCall`. */
+export const toolCallSchema: z.ZodType<ToolCall> = z
+  .object({
+    name: z.string(),
+    arguments: z.record(z.unknown()),
+    id: z.string().optional(),
+  })
+  .passthrough();
+
+/** A result returned by `onToolCall`. */
+export const toolResultSchema: z.ZodType<ToolResult> = z
+  .object({
+    tool_call_id: z.string(),
+    result: z.unknown(),
+  })
+  .passthrough() as z.ZodType<ToolResult>;
+
+// Token counts are null when the provider did not report them; toUsage() treats them as missing
+const tokenCount = z.number().nullable().optional() as z.ZodType<number | undefined>;
+
+export const streamUsageSchema: z.ZodType<StreamUsage> = z
+  .object({
+    promptTokens: tokenCount,
+    completionTokens: tokenCount,
+    totalTokens: tokenCount,
+  })
+  .passthrough();
+
+/** The data of a step finish (`e:`) or message finish (`d:`) chunk. */
+export const finishDataSchema = z
+  .object({
+    finishReason: z.string(),
+    usage: streamUsageSchema.optional(),
+    isContinued: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const streamToolCallSchema: z.ZodType<StreamToolCall> = z
+  .object({
+    toolCallId: z.string(),
+    toolName: z.string(),
+    args: z.record(z.unknown()),
+  })
+  .passthrough();
+
+export const streamToolResultSchema: z.ZodType<StreamToolResult> = z
+  .object({
+    toolCallId: z.string(),
+    result: z.unknown(),
+  })
+  .passthrough() as z.ZodType<StreamToolResult>;
+
+export const pathInfoSchema: z.ZodType<PathInfo> = z
+  .object({ path: z.string().optional() })
+  .passthrough();
+
+export const streamSourceSchema: z.ZodType<StreamSource> = z
+  .object({
+    sourceType: z.string(),
+    id: z.string(),
+    url: z.string(),
+    title: z.string().optional(),
+    providerMetadata: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+export const streamFileSchema: z.ZodType<StreamFile> = z
+  .object({
+    data: z.string(),
+    mimeType: z.string(),
+  })
+  .passthrough();
+
+/**
+ * Schemas for the data of each chunk prefix in the data stream protocol. Prefixes without a
+ * schema are passed through unchecked.
+ *
+ * @example
+ * const result = chunkSchemas['9'].safeParse(chunk.data);
+ * if (result.success) console.log(result.data.toolName);
+ */
+export const chunkSchemas = {
+  /** Text */
+  '0': z.string(),
+  /** Path info, sent as an array by the data stream protocol */
+  '2': z.union([z.array(pathInfoSchema), pathInfoSchema]),
+  /** Error */
+  '3': z.string(),
+  /** Message annotations */
+  '8': z.array(z.unknown()),
+  /** Tool call */
+  '9': streamToolCallSchema,
+  /** Tool result */
+  a: streamToolResultSchema,
+  /** Tool call streaming start */
+  b: z.object({ toolCallId: z.string(), toolName: z.string() }).passthrough(),
+  /** Tool call argument delta */
+  c: z.object({ toolCallId: z.string(), argsTextDelta: z.string() }).passthrough(),
+  /** Message finish */
+  d: finishDataSchema,
+  /** Step finish */
+  e: finishDataSchema,
+  /** Message ID */
+  f: z.object({ messageId: z.string() }).passthrough(),
+  /** Reasoning */
+  g: z.string(),
+  /** Source */
+  h: streamSourceSchema,
+  /** Redacted reasoning */
+  i: z.object({ data: z.string() }).passthrough(),
+  /** Reasoning signature */
+  j: z.object({ signature: z.string() }).passthrough(),
+  /** File */
+  k: streamFileSchema,
+} satisfies Record<string, z.ZodTypeAny>;
+
+/** A chunk prefix that has a schema. */
+export type ChunkPrefix = keyof typeof chunkSchemas;
+
+/** The data of a chunk with the given prefix. */
+export type ChunkData<P extends ChunkPrefix> = z.infer<(typeof chunkSchemas)[P]>;
+
+/**
+ * A raw chunk with a known prefix, its data typed by that prefix's schema. Narrow a `RawChunk`
+ * with `isKnownChunk`, then switch on `prefix`.
+ */
+export type KnownRawChunk = {
+  [P in ChunkPrefix]: RawChunk & { prefix: P; data: ChunkData<P> };
+}[ChunkPrefix];
+
+/**
+ * Whether a chunk's prefix has a schema, which then types its data. Only the prefix is checked.
+ * The client checks chunk data against the schemas as it arrives, but outside strict mode a
+ * mismatch is only logged, so validate with `getChunkSchema` before reading fields you rely on.
+ */
+export function isKnownChunk(chunk: RawChunk): chunk is KnownRawChunk {
+  return getChunkSchema(chunk.prefix) !== undefined;
+}
+
+/**
+ * Returns the schema for a chunk prefix, or undefined for prefixes without one.
+ */
+export function getChunkSchema(prefix: string): z.ZodTypeAny | undefined {
+  return Object.prototype.hasOwnProperty.call(chunkSchemas, prefix)
+    ? chunkSchemas[prefix as ChunkPrefix]
+    : undefined;
+}
+
+/**
+ * Describes validation issues in one line, e.g. `args: Required; toolName: Expected string`.
+ */
+export function formatSchemaIssues(issues: z.ZodIssue[]): string {
+  return issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
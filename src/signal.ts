@@ -0,0 +1,58 @@
+// src/signal.ts
+
+/**
+ * An abort signal for a single request, combining the caller's signal with a timeout.
+ */
+export interface RequestSignal {
+  /** The combined signal, or undefined if there is nothing to abort on. */
+  signal?: AbortSignal;
+  /** Whether the signal fired because the timeout elapsed. */
+  timedOut(): boolean;
+  /** Clears the timeout and detaches from the caller's signal. */
+  dispose(): void;
+}
+
+/**
+ * Creates a signal that aborts when the caller's signal aborts or after `timeoutMs`.
+ *
+ * @param signal - Optional signal supplied by the caller.
+ * @param timeoutMs - Optional timeout in milliseconds; zero or undefined disables it.
+ */
+export function createRequestSignal(signal?: AbortSignal, timeoutMs?: number): RequestSignal {
+  if (!signal && !timeoutMs) {
+    return { signal: undefined, timedOut: () => false, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal) {
+    if (signal.aborted) onAbort();
+    else signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  if (timeoutMs && !controller.signal.aborted) {
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new DOMException(`Timed out after ${timeoutMs}ms`, 'TimeoutError'));
+    }, timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Returns the error to throw for an aborted signal.
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
@@ -0,0 +1,118 @@
+// src/slippage.ts
+import type {
+  ResolvedSlippageSettings,
+  SlippageLevel,
+  SlippageOptions,
+  SlippageSettings,
+} from './types';
+import {
+  formatSchemaIssues,
+  partialSlippageSettingsSchema,
+  slippageSettingsSchema,
+} from './schemas.js';
+
+/**
+ * The built-in slippage profiles, in percent. `default` matches what the API used before
+ * profiles existed.
+ */
+export const SLIPPAGE_PROFILES: Readonly<
+  Record<'conservative' | 'default' | 'aggressive', SlippageSettings>
+> = {
+  conservative: { swapSlippage: 1, lpSlippage: 1, pumpSlippage: 2 },
+  default: { swapSlippage: 5, lpSlippage: 5, pumpSlippage: 5 },
+  aggressive: { swapSlippage: 10, lpSlippage: 10, pumpSlippage: 20 },
+};
+
+const SLIPPAGE_KEYS: (keyof SlippageSettings)[] = ['swapSlippage', 'lpSlippage', 'pumpSlippage'];
+
+/**
+ * Checks slippage values set on top of a profile.
+ *
+ * @param label - Names the values in the error message.
+ * @throws Error for unknown keys and values outside 0 to 100.
+ */
+export function validateSlippageSettings(
+  settings: unknown,
+  label = 'slippageSettings'
+): Partial<SlippageSettings> {
+  const parsed = partialSlippageSettingsSchema.safeParse(settings);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${label}: ${formatSchemaIssues(parsed.error.issues)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Checks custom profiles, which must set every value.
+ *
+ * @throws Error for missing or unknown keys and values outside 0 to 100.
+ */
+export function validateSlippageProfiles(
+  profiles: Record<string, unknown>
+): Record<string, SlippageSettings> {
+  const validated: Record<string, SlippageSettings> = {};
+  for (const [name, profile] of Object.entries(profiles)) {
+    const parsed = slippageSettingsSchema.safeParse(profile);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid slippage profile ${name}: ${formatSchemaIssues(parsed.error.issues)}`
+      );
+    }
+    validated[name] = parsed.data;
+  }
+  return validated;
+}
+
+/**
+ * Works out the slippage settings to send. Levels apply from least to most specific: the
+ * `default` profile, then the client, the conversation and the call. At each level a profile
+ * replaces all values and explicit settings then replace single values, so a profile picked for
+ * a call wins over settings made for the client.
+ *
+ * @param levels - The profile and settings set at each level.
+ * @param profiles - Profiles by name. Defaults to the built-in ones.
+ * @throws Error for unknown profiles, unknown keys and values outside 0 to 100.
+ */
+export function resolveSlippageSettings(
+  levels: Partial<Record<Exclude<SlippageLevel, 'default'>, SlippageOptions | undefined>>,
+  profiles: Record<string, SlippageSettings> = SLIPPAGE_PROFILES
+): ResolvedSlippageSettings {
+  const base = findProfile(profiles, 'default');
+  const settings = { ...base };
+  const sources = {} as ResolvedSlippageSettings['sources'];
+  for (const key of SLIPPAGE_KEYS) sources[key] = { level: 'default', profile: 'default' };
+
+  for (const level of ['client', 'conversation', 'call'] as const) {
+    const options = levels[level];
+    if (!options) continue;
+
+    if (options.slippageProfile !== undefined) {
+      const profile = findProfile(profiles, options.slippageProfile);
+      for (const key of SLIPPAGE_KEYS) {
+        settings[key] = profile[key];
+        sources[key] = { level, profile: options.slippageProfile };
+      }
+    }
+
+    if (options.slippageSettings) {
+      const overrides = validateSlippageSettings(
+        options.slippageSettings,
+        `${level} slippageSettings`
+      );
+      for (const key of SLIPPAGE_KEYS) {
+        const value = overrides[key];
+        if (value === undefined) continue;
+        settings[key] = value;
+        sources[key] = { level };
+      }
+    }
+  }
+
+  return { settings, sources };
+}
+
+function findProfile(profiles: Record<string, SlippageSettings>, name: string): SlippageSettings {
+  const profile = Object.prototype.hasOwnProperty.call(profiles, name) ? profiles[name] : undefined;
+  if (!profile) throw new Error(`Unknown slippage profile ${name}`);
+  return profile;
+}
@@ -0,0 +1,133 @@
+// src/stores.ts
+import type { ConversationSnapshot, ConversationStore, KeyValueAdapter } from './types';
+
+// Snapshots are copied on the way in and out so callers cannot mutate stored state
+function clone(snapshot: ConversationSnapshot): ConversationSnapshot {
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+/**
+ * Keeps conversations in memory. Useful for tests and single-process services.
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private readonly snapshots = new Map<string, ConversationSnapshot>();
+
+  public async load(id: string): Promise<ConversationSnapshot | null> {
+    const snapshot = this.snapshots.get(id);
+    return snapshot ? clone(snapshot) : null;
+  }
+
+  public async save(snapshot: ConversationSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.id, clone(snapshot));
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.snapshots.delete(id);
+  }
+
+  public async list(): Promise<string[]> {
+    return [...this.snapshots.keys()];
+  }
+}
+
+/**
+ * Stores each conversation as a JSON file in a directory. Node.js only.
+ */
+export class FileConversationStore implements ConversationStore {
+  private readonly directory: string;
+
+  /**
+   * @param directory - Directory for the JSON files. Created on first save.
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async load(id: string): Promise<ConversationSnapshot | null> {
+    const fs = await import('node:fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(id), 'utf8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  public async save(snapshot: ConversationSnapshot): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated transcript
+    const target = this.pathFor(snapshot.id);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(snapshot, null, 2), 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  public async delete(id: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+
+  public async list(): Promise<string[]> {
+    const fs = await import('node:fs/promises');
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return [];
+      throw error;
+    }
+    return entries
+      .filter(name => name.endsWith('.json'))
+      .map(name => decodeURIComponent(name.slice(0, -'.json'.length)));
+  }
+
+  private pathFor(id: string): string {
+    return `${this.directory.replace(/[\\/]+$/, '')}/${encodeURIComponent(id)}.json`;
+  }
+}
+
+/**
+ * Stores conversations in any string key-value backend, such as a SQLite table or Redis.
+ *
+ * @example
+ * const store = new KeyValueConversationStore({
+ *   get: async key => db.prepare('SELECT value FROM kv WHERE key = ?').get(key)?.value,
+ *   set: async (key, value) => db.prepare('REPLACE INTO kv VALUES (?, ?)').run(key, value),
+ *   delete: async key => db.prepare('DELETE FROM kv WHERE key = ?').run(key),
+ *   keys: async prefix =>
+ *     db.prepare('SELECT key FROM kv WHERE key LIKE ?').all(`${prefix}%`).map(row => row.key),
+ * });
+ */
+export class KeyValueConversationStore implements ConversationStore {
+  private readonly adapter: KeyValueAdapter;
+  private readonly prefix: string;
+
+  /**
+   * @param adapter - The key-value backend.
+   * @param options - Optional key prefix. Defaults to `hustle:conversation:`.
+   */
+  constructor(adapter: KeyValueAdapter, options: { prefix?: string } = {}) {
+    this.adapter = adapter;
+    this.prefix = options.prefix ?? 'hustle:conversation:';
+  }
+
+  public async load(id: string): Promise<ConversationSnapshot | null> {
+    const value = await this.adapter.get(this.prefix + id);
+    return value ? JSON.parse(value) : null;
+  }
+
+  public async save(snapshot: ConversationSnapshot): Promise<void> {
+    await this.adapter.set(this.prefix + snapshot.id, JSON.stringify(snapshot));
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.adapter.delete(this.prefix + id);
+  }
+
+  public async list(): Promise<string[]> {
+    const keys = await this.adapter.keys(this.prefix);
+    return keys.map(key => key.slice(this.prefix.length));
+  }
+}
@@ -0,0 +1,406 @@
+// src/telemetry.ts
+import type {
+  Counter,
+  Histogram,
+  Meter,
+  MetricOptions,
+  RawChunk,
+  TelemetryAttributeValue,
+  TelemetryAttributes,
+  TelemetryOptions,
+  TelemetrySpan,
+  Tracer,
+} from './types';
+import { UsageAccumulator } from './usage.js';
+import { isKnownChunk } from './schemas.js';
+
+/** Span kinds, with the values OpenTelemetry uses. */
+export const SPAN_KIND = { INTERNAL: 0, SERVER: 1, CLIENT: 2 } as const;
+
+/** Span status codes, with the values OpenTelemetry uses. */
+export const SPAN_STATUS = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+
+/** Names of the metrics the client records. */
+export const TELEMETRY_METRICS = {
+  duration: 'hustle.client.duration',
+  timeToFirstToken: 'hustle.client.time_to_first_token',
+  chunksPerSecond: 'hustle.client.chunks_per_second',
+  toolCalls: 'hustle.client.tool_calls',
+  tokenUsage: 'hustle.client.token_usage',
+  queueWait: 'hustle.client.queue_wait',
+} as const;
+
+/** Name of the span created for each API request. */
+export const TELEMETRY_SPAN_NAME = 'hustle.chat';
+
+/**
+ * Creates the instruments once per client and starts a {@link RequestTelemetry} for each
+ * request.
+ */
+export class ClientTelemetry {
+  private readonly tracer?: Tracer;
+  private readonly instruments?: {
+    duration: Histogram;
+    timeToFirstToken: Histogram;
+    chunksPerSecond: Histogram;
+    toolCalls: Counter;
+    tokenUsage: Counter;
+    queueWait: Histogram;
+  };
+
+  constructor(options: TelemetryOptions) {
+    this.tracer = options.tracer;
+    const meter = options.meter;
+    if (meter) {
+      this.instruments = {
+        duration: meter.createHistogram(TELEMETRY_METRICS.duration, {
+          description: 'Time from sending a request to the end of its response stream',
+          unit: 'ms',
+        }),
+        timeToFirstToken: meter.createHistogram(TELEMETRY_METRICS.timeToFirstToken, {
+          description: 'Time from sending a request to the first text or reasoning chunk',
+          unit: 'ms',
+        }),
+        chunksPerSecond: meter.createHistogram(TELEMETRY_METRICS.chunksPerSecond, {
+          description: 'Rate at which chunks arrived after the first one',
+          unit: '{chunk}/s',
+        }),
+        toolCalls: meter.createCounter(TELEMETRY_METRICS.toolCalls, {
+          description: 'Tool calls made by the agent',
+          unit: '{call}',
+        }),
+        tokenUsage: meter.createCounter(TELEMETRY_METRICS.tokenUsage, {
+          description: 'Tokens reported in the finish chunk, by token type',
+          unit: '{token}',
+        }),
+        queueWait: meter.createHistogram(TELEMETRY_METRICS.queueWait, {
+          description: 'Time a request waited for the rate limiter before it was sent',
+          unit: 'ms',
+        }),
+      };
+    }
+  }
+
+  /**
+   * Starts measuring a request.
+   *
+   * @param attributes - Attributes for the span and every metric of the request.
+   */
+  startRequest(attributes: TelemetryAttributes): RequestTelemetry {
+    return new RequestTelemetry(this.tracer, this.instruments, attributes);
+  }
+}
+
+/**
+ * Measures one request from the first attempt to the end of the stream. Only the first call
+ * to `end` counts.
+ */
+export class RequestTelemetry {
+  private readonly span?: TelemetrySpan;
+  private readonly startedAt = Date.now();
+  // When the request left the rate limiter's queue. Latency metrics count from here.
+  private sentAt = this.startedAt;
+  private firstChunkAt?: number;
+  private firstTokenAt?: number;
+  private chunkCount = 0;
+  private attempts = 0;
+  private readonly toolCalls = new Map<string, string>();
+  private finishReason?: string;
+  private readonly usage = new UsageAccumulator();
+  private ended = false;
+
+  constructor(
+    tracer: Tracer | undefined,
+    private readonly instruments: ClientTelemetry['instruments'],
+    private readonly attributes: TelemetryAttributes
+  ) {
+    this.span = tracer?.startSpan(TELEMETRY_SPAN_NAME, {
+      kind: SPAN_KIND.CLIENT,
+      attributes,
+      startTime: this.startedAt,
+    });
+  }
+
+  /**
+   * Records how long the request waited for the rate limiter. The span covers the wait, but
+   * the duration and time to first token are measured from now.
+   */
+  queued(waitMs: number): void {
+    this.sentAt = Date.now();
+    this.span?.setAttribute('hustle.queue_wait_ms', waitMs);
+    this.instruments?.queueWait.record(waitMs, this.attributes);
+  }
+
+  /** Records the start of an attempt. */
+  attempt(attempt: number): void {
+    this.attempts = attempt;
+  }
+
+  /** Records the response status of the current attempt. */
+  response(status: number, requestId?: string): void {
+    this.span?.setAttribute('http.response.status_code', status);
+    if (requestId) this.span?.setAttribute('hustle.request_id', requestId);
+  }
+
+  /** Records a failed attempt that will be retried. */
+  retry(attempt: number, delayMs: number, error: Error): void {
+    this.span?.addEvent('retry', {
+      'hustle.attempt': attempt,
+      'hustle.retry_delay_ms': delayMs,
+      'error.type': error.name,
+      'error.message': error.message,
+    });
+  }
+
+  /** Records a chunk of the response stream. */
+  chunk(chunk: RawChunk): void {
+    const now = Date.now();
+    this.chunkCount++;
+    this.firstChunkAt ??= now;
+
+    if (!isKnownChunk(chunk)) return;
+    switch (chunk.prefix) {
+      case '0': // Text
+      case 'g': // Reasoning
+        if (this.firstTokenAt === undefined) {
+          this.firstTokenAt = now;
+          this.span?.addEvent('first_token');
+        }
+        break;
+      case '9': // Tool call
+      case 'b': // Tool call streaming start
+        if (chunk.data?.toolCallId) {
+          this.toolCalls.set(chunk.data.toolCallId, chunk.data.toolName || 'unknown');
+        }
+        break;
+      case 'e': // Step finish
+      case 'd': // Message finish
+        this.usage.add({
+          usage: chunk.data?.usage,
+          scope: chunk.prefix === 'e' ? 'step' : 'message',
+        });
+        this.finishReason = chunk.data?.finishReason ?? this.finishReason;
+        break;
+    }
+  }
+
+  /**
+   * Ends the span and records the metrics.
+   *
+   * @param error - The error the request failed with, if it failed.
+   */
+  end(error?: Error): void {
+    if (this.ended) return;
+    this.ended = true;
+    const endedAt = Date.now();
+    const durationMs = endedAt - this.sentAt;
+    const usage = this.usage.total;
+    const timeToFirstTokenMs =
+      this.firstTokenAt !== undefined ? this.firstTokenAt - this.sentAt : undefined;
+    const chunksPerSecond =
+      this.firstChunkAt !== undefined
+        ? (this.chunkCount * 1000) / Math.max(endedAt - this.firstChunkAt, 1)
+        : undefined;
+    const outcome: TelemetryAttributes = error
+      ? { ...this.attributes, 'error.type': error.name }
+      : this.attributes;
+
+    if (this.span) {
+      this.span.setAttributes({
+        'hustle.attempts': this.attempts,
+        'hustle.chunk_count': this.chunkCount,
+        'hustle.tool_call_count': this.toolCalls.size,
+        'hustle.time_to_first_token_ms': timeToFirstTokenMs,
+        'hustle.chunks_per_second': chunksPerSecond,
+        'hustle.finish_reason': this.finishReason,
+        'hustle.usage.prompt_tokens': usage?.promptTokens,
+        'hustle.usage.completion_tokens': usage?.completionTokens,
+        'hustle.usage.total_tokens': usage?.totalTokens,
+      });
+      if (this.toolCalls.size > 0) {
+        this.span.setAttribute('hustle.tool_names', [...new Set(this.toolCalls.values())]);
+      }
+      if (error) {
+        this.span.setAttribute('error.type', error.name);
+        this.span.recordException(error);
+        this.span.setStatus({ code: SPAN_STATUS.ERROR, message: error.message });
+      } else {
+        this.span.setStatus({ code: SPAN_STATUS.OK });
+      }
+      this.span.end(endedAt);
+    }
+
+    const instruments = this.instruments;
+    if (!instruments) return;
+    instruments.duration.record(durationMs, outcome);
+    if (timeToFirstTokenMs !== undefined) {
+      instruments.timeToFirstToken.record(timeToFirstTokenMs, this.attributes);
+    }
+    if (chunksPerSecond !== undefined) {
+      instruments.chunksPerSecond.record(chunksPerSecond, this.attributes);
+    }
+    for (const toolName of this.toolCalls.values()) {
+      instruments.toolCalls.add(1, { ...this.attributes, 'hustle.tool_name': toolName });
+    }
+    if (usage?.promptTokens) {
+      instruments.tokenUsage.add(usage.promptTokens, {
+        ...this.attributes,
+        'hustle.token_type': 'prompt',
+      });
+    }
+    if (usage?.completionTokens) {
+      instruments.tokenUsage.add(usage.completionTokens, {
+        ...this.attributes,
+        'hustle.token_type': 'completion',
+      });
+    }
+  }
+}
+
+/**
+ * A span recorded by {@link InMemoryTelemetryExporter}.
+ */
+export interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: Record<string, TelemetryAttributeValue>;
+  events: { name: string; attributes: Record<string, TelemetryAttributeValue>; time: number }[];
+  status: { code: number; message?: string };
+  exceptions: (Error | string)[];
+  startTime: number;
+  endTime?: number;
+}
+
+/**
+ * A measurement recorded by {@link InMemoryTelemetryExporter}.
+ */
+export interface RecordedMeasurement {
+  name: string;
+  type: 'counter' | 'histogram';
+  value: number;
+  attributes: Record<string, TelemetryAttributeValue>;
+  unit?: string;
+}
+
+/**
+ * Keeps spans and measurements in memory, for tests and local debugging. Pass its `tracer`
+ * and `meter` as the client's `telemetry`.
+ *
+ * @example
+ * const exporter = new InMemoryTelemetryExporter();
+ * const client = new HustleIncognitoClient({ apiKey, telemetry: exporter });
+ * await client.chat(messages, { vaultId });
+ * console.log(exporter.getFinishedSpans(), exporter.getMeasurements());
+ */
+export class InMemoryTelemetryExporter {
+  private spans: RecordedSpan[] = [];
+  private measurements: RecordedMeasurement[] = [];
+
+  readonly tracer: Tracer = {
+    startSpan: (name, options = {}) => this.startSpan(name, options),
+  };
+
+  readonly meter: Meter = {
+    createCounter: (name, options) => ({
+      add: (value, attributes) => this.measure(name, 'counter', value, attributes, options),
+    }),
+    createHistogram: (name, options) => ({
+      record: (value, attributes) => this.measure(name, 'histogram', value, attributes, options),
+    }),
+  };
+
+  /** Spans that have ended, oldest first. */
+  getFinishedSpans(): RecordedSpan[] {
+    return this.spans.filter(span => span.endTime !== undefined);
+  }
+
+  /**
+   * Measurements in the order they were recorded.
+   *
+   * @param name - Only return measurements of this metric.
+   */
+  getMeasurements(name?: string): RecordedMeasurement[] {
+    return name ? this.measurements.filter(m => m.name === name) : [...this.measurements];
+  }
+
+  /** Forgets everything recorded so far. */
+  reset(): void {
+    this.spans = [];
+    this.measurements = [];
+  }
+
+  /** @private */
+  private startSpan(
+    name: string,
+    options: { kind?: number; attributes?: TelemetryAttributes; startTime?: number }
+  ): TelemetrySpan {
+    const recorded: RecordedSpan = {
+      name,
+      kind: options.kind,
+      attributes: definedAttributes(options.attributes),
+      events: [],
+      status: { code: SPAN_STATUS.UNSET },
+      exceptions: [],
+      startTime: options.startTime ?? Date.now(),
+    };
+    this.spans.push(recorded);
+
+    const span: TelemetrySpan = {
+      setAttribute(key, value) {
+        recorded.attributes[key] = value;
+        return span;
+      },
+      setAttributes(attributes) {
+        Object.assign(recorded.attributes, definedAttributes(attributes));
+        return span;
+      },
+      addEvent(eventName, attributes) {
+        recorded.events.push({
+          name: eventName,
+          attributes: definedAttributes(attributes),
+          time: Date.now(),
+        });
+        return span;
+      },
+      setStatus(status) {
+        recorded.status = { ...status };
+        return span;
+      },
+      recordException(exception) {
+        recorded.exceptions.push(exception);
+      },
+      end(endTime) {
+        // Like OpenTelemetry, ignore calls after the first
+        recorded.endTime ??= endTime ?? Date.now();
+      },
+    };
+    return span;
+  }
+
+  /** @private */
+  private measure(
+    name: string,
+    type: RecordedMeasurement['type'],
+    value: number,
+    attributes: TelemetryAttributes | undefined,
+    options: MetricOptions | undefined
+  ): void {
+    this.measurements.push({
+      name,
+      type,
+      value,
+      attributes: definedAttributes(attributes),
+      unit: options?.unit,
+    });
+  }
+}
+
+function definedAttributes(
+  attributes: TelemetryAttributes | undefined
+): Record<string, TelemetryAttributeValue> {
+  const result: Record<string, TelemetryAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes || {})) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
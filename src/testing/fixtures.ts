@@ -0,0 +1,67 @@
+// src/testing/fixtures.ts
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { HustleRequest } from '../types';
+
+/**
+ * One recorded request and the response it got.
+ */
+export interface FixtureExchange {
+  request: {
+    url: string;
+    /** The request body, with credentials redacted. */
+    body: HustleRequest;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    /** The response body split into lines, without newlines. */
+    lines: string[];
+  };
+}
+
+/**
+ * The contents of a fixture file.
+ */
+export interface HustleFixture {
+  version: 1;
+  exchanges: FixtureExchange[];
+}
+
+/**
+ * Reads a fixture file written in record mode.
+ *
+ * @param path - The fixture file.
+ * @throws Error if the file is not a fixture.
+ */
+export async function loadFixture(path: string): Promise<HustleFixture> {
+  return parseFixture(await readFile(path, 'utf8'), path);
+}
+
+/**
+ * Reads a fixture file synchronously, so a mock server can be created without awaiting.
+ * @private
+ */
+export function loadFixtureSync(path: string): HustleFixture {
+  return parseFixture(readFileSync(path, 'utf8'), path);
+}
+
+/**
+ * Writes a fixture file, creating its directory if needed.
+ *
+ * @param path - The fixture file.
+ * @param fixture - The exchanges to save.
+ */
+export async function saveFixture(path: string, fixture: HustleFixture): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+}
+
+function parseFixture(text: string, path: string): HustleFixture {
+  const fixture = JSON.parse(text) as HustleFixture;
+  if (fixture?.version !== 1 || !Array.isArray(fixture.exchanges)) {
+    throw new Error(`Not a Hustle fixture file: ${path}`);
+  }
+  return fixture;
+}
@@ -0,0 +1,11 @@
+// src/testing/index.ts
+export { createMockHustleServer, MockHustleServer } from './mock-server.js';
+export type {
+  MockFetch,
+  MockResponse,
+  MockResponder,
+  MockRequest,
+  MockHustleServerOptions,
+} from './mock-server.js';
+export { loadFixture, saveFixture } from './fixtures.js';
+export type { HustleFixture, FixtureExchange } from './fixtures.js';
@@ -0,0 +1,359 @@
+// src/testing/mock-server.ts
+import type { HustleRequest } from '../types';
+import { formatDataStreamLine } from '../data-stream.js';
+import { redact } from '../logger.js';
+import { sleep } from '../retry.js';
+import { abortReason } from '../signal.js';
+import { type FixtureExchange, loadFixtureSync, saveFixture } from './fixtures.js';
+
+/**
+ * A fetch function, as accepted by the client's `fetch` option.
+ */
+export type MockFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+/**
+ * A scripted response.
+ */
+export interface MockResponse {
+  /**
+   * The stream, as protocol lines such as `0:"Hello"` or as `{ prefix, data }` chunks, which
+   * are serialized for you.
+   */
+  chunks?: (string | { prefix: string; data: unknown })[];
+  /** A raw body, sent instead of `chunks`. Useful for error responses. */
+  body?: string;
+  /** HTTP status. Defaults to 200. */
+  status?: number;
+  /** Response headers, added to the data stream defaults. */
+  headers?: Record<string, string>;
+  /**
+   * How the body is split into network reads: `line` (the default) sends one line per read,
+   * `whole` sends everything at once, and a number sends that many bytes per read, which can
+   * split lines and multi-byte characters.
+   */
+  chunking?: 'line' | 'whole' | number;
+  /** Delay before each network read in milliseconds, or a function of the read's index. */
+  delayMs?: number | ((index: number) => number);
+  /**
+   * Fails the request with this error. Without `failAfter`, fetch itself rejects; with it, the
+   * stream breaks after that many reads.
+   */
+  error?: unknown;
+  /** Number of reads to deliver before the stream fails with `error`. */
+  failAfter?: number;
+}
+
+/**
+ * A request the mock server received.
+ */
+export interface MockRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** The parsed request body. */
+  body: HustleRequest;
+}
+
+/**
+ * Responds to a request, for responses that depend on what was sent.
+ */
+export type MockResponder = (request: MockRequest) => MockResponse;
+
+/**
+ * Options for {@link createMockHustleServer}.
+ */
+export interface MockHustleServerOptions {
+  /** Responses to send, in order, one per request. */
+  responses?: (MockResponse | MockResponder)[];
+  /**
+   * A fixture file. In replay mode its responses are sent before `responses`; in record mode
+   * `save()` writes to it.
+   */
+  fixture?: string;
+  /**
+   * `replay` (the default) answers from scripted responses. `record` sends requests to the
+   * real API with `fetch` and captures the responses for `save()`.
+   */
+  mode?: 'replay' | 'record';
+  /** The fetch used in record mode. Defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_HEADERS = {
+  'Content-Type': 'text/plain; charset=utf-8',
+  'X-Vercel-AI-Data-Stream': 'v1',
+};
+
+type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+/**
+ * A stand-in for the Hustle API that answers the client's requests with scripted or recorded
+ * data streams. Pass its `fetch` to the client, so responses go through the same parsing as
+ * real ones.
+ */
+export class MockHustleServer {
+  /** Every request received, oldest first. */
+  readonly requests: MockRequest[] = [];
+  private readonly queue: (MockResponse | MockResponder)[] = [];
+  private readonly options: MockHustleServerOptions;
+  private readonly recordings: Promise<FixtureExchange>[] = [];
+
+  /** The fetch function to pass to the client. */
+  readonly fetch: MockFetch = (input, init) => this.handle(input, init);
+
+  constructor(options: MockHustleServerOptions = {}) {
+    this.options = options;
+    if (options.fixture && options.mode !== 'record') {
+      for (const exchange of loadFixtureSync(options.fixture).exchanges) {
+        this.queue.push({
+          status: exchange.response.status,
+          headers: exchange.response.headers,
+          body: exchange.response.lines.join('\n'),
+        });
+      }
+    }
+    this.queue.push(...(options.responses || []));
+  }
+
+  /** The most recent request, if any. */
+  get lastRequest(): MockRequest | undefined {
+    return this.requests[this.requests.length - 1];
+  }
+
+  /** Number of scripted responses not sent yet. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Adds responses for the next requests.
+   */
+  enqueue(...responses: (MockResponse | MockResponder)[]): this {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  /**
+   * Checks that a request body contains the expected values. Objects may have more fields
+   * than expected; arrays must have the same length.
+   *
+   * @param index - The request to check, starting at 0. Negative values count from the end.
+   * @param expected - The values the body must contain.
+   * @throws Error describing the first difference.
+   */
+  assertRequest(index: number, expected: DeepPartial<HustleRequest>): void {
+    const request = this.requests[index < 0 ? this.requests.length + index : index];
+    if (!request) {
+      throw new Error(`Expected request ${index}, but only ${this.requests.length} were made`);
+    }
+    const mismatch = findMismatch(request.body, expected, 'body');
+    if (mismatch) throw new Error(`Request ${index} does not match: ${mismatch}`);
+  }
+
+  /**
+   * Checks that every scripted response was used.
+   *
+   * @throws Error if any are left.
+   */
+  assertDone(): void {
+    if (this.queue.length > 0) {
+      throw new Error(`${this.queue.length} scripted response(s) were not requested`);
+    }
+  }
+
+  /**
+   * Writes the exchanges captured in record mode to the fixture file, with the API key,
+   * credential headers and cookies redacted. Waits for streams still being read.
+   *
+   * @param path - The file to write. Defaults to the `fixture` option.
+   */
+  async save(path = this.options.fixture): Promise<void> {
+    if (!path) throw new Error('No fixture path to save to');
+    const exchanges = await Promise.all(this.recordings);
+    await saveFixture(path, { version: 1, exchanges });
+  }
+
+  /** Forgets requests and scripted responses. */
+  reset(): void {
+    this.requests.length = 0;
+    this.queue.length = 0;
+    this.recordings.length = 0;
+  }
+
+  /** @private */
+  private async handle(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+    const request = toMockRequest(input, init);
+    this.requests.push(request);
+    if (init.signal?.aborted) throw abortReason(init.signal);
+
+    if (this.options.mode === 'record') return this.record(input, init, request);
+
+    const next = this.queue.shift();
+    if (!next) {
+      throw new Error(`No scripted response left for request ${this.requests.length - 1}`);
+    }
+    const response = typeof next === 'function' ? next(request) : next;
+    if (response.error !== undefined && response.failAfter === undefined) throw response.error;
+
+    const headers = new Headers(DEFAULT_HEADERS);
+    for (const [name, value] of Object.entries(response.headers || {})) headers.set(name, value);
+    return new Response(createBody(response, init.signal), {
+      status: response.status ?? 200,
+      headers,
+    });
+  }
+
+  /** @private */
+  private async record(
+    input: RequestInfo | URL,
+    init: RequestInit,
+    request: MockRequest
+  ): Promise<Response> {
+    const fetchImpl = this.options.fetch || fetch;
+    const response = await fetchImpl(input, init);
+    const [forClient, forFixture] = response.body ? response.body.tee() : [null, null];
+
+    // apiKey is a sensitive key, and the secret also catches it anywhere else in the body
+    const secrets = [request.body.apiKey].filter(Boolean);
+    const body = redact(request.body, secrets);
+    this.recordings.push(
+      new Response(forFixture).text().then(text => ({
+        request: { url: request.url, body },
+        response: {
+          status: response.status,
+          headers: redact(headersToObject(response.headers), secrets),
+          lines: text.replace(/\n$/, '').split('\n'),
+        },
+      }))
+    );
+
+    return new Response(forClient, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+}
+
+/**
+ * Creates a mock Hustle API for tests.
+ *
+ * @example
+ * const server = createMockHustleServer({
+ *   responses: [{ chunks: ['0:"Hello"', { prefix: 'd', data: { finishReason: 'stop' } }] }],
+ * });
+ * const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+ * await client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-1' });
+ * server.assertRequest(0, { vaultId: 'vault-1' });
+ *
+ * @param options - Scripted responses, a fixture file, or record mode.
+ */
+export function createMockHustleServer(options: MockHustleServerOptions = {}): MockHustleServer {
+  return new MockHustleServer(options);
+}
+
+function toMockRequest(input: RequestInfo | URL, init: RequestInit): MockRequest {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  let body: HustleRequest;
+  try {
+    body = JSON.parse(typeof init.body === 'string' ? init.body : '{}');
+  } catch {
+    throw new Error(`Mock server received a body that is not JSON: ${String(init.body)}`);
+  }
+  return {
+    url,
+    method: init.method || 'GET',
+    headers: headersToObject(new Headers(init.headers)),
+    body,
+  };
+}
+
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = value;
+  });
+  return result;
+}
+
+function createBody(
+  response: MockResponse,
+  signal?: AbortSignal | null
+): ReadableStream<Uint8Array> {
+  const text =
+    response.body ??
+    (response.chunks || [])
+      .map(chunk =>
+        typeof chunk === 'string' ? chunk : formatDataStreamLine(chunk.prefix, chunk.data)
+      )
+      .map(line => `${line}\n`)
+      .join('');
+  const reads = splitBody(text, response.chunking ?? 'line');
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (response.failAfter !== undefined && index >= response.failAfter) {
+          throw response.error ?? new TypeError('terminated');
+        }
+        if (index >= reads.length) {
+          controller.close();
+          return;
+        }
+        const delayMs =
+          typeof response.delayMs === 'function' ? response.delayMs(index) : response.delayMs;
+        if (delayMs) await sleep(delayMs, signal ?? undefined);
+        controller.enqueue(reads[index++] as Uint8Array);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+}
+
+function splitBody(text: string, chunking: 'line' | 'whole' | number): Uint8Array[] {
+  const encoder = new TextEncoder();
+  if (chunking === 'whole') return text ? [encoder.encode(text)] : [];
+  if (chunking === 'line') {
+    return (text.match(/[^\n]*\n|[^\n]+$/g) || []).map(line => encoder.encode(line));
+  }
+  if (!Number.isInteger(chunking) || chunking < 1) {
+    throw new Error(`chunking must be 'line', 'whole' or a positive integer, got ${chunking}`);
+  }
+  const bytes = encoder.encode(text);
+  const reads: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length; offset += chunking) {
+    reads.push(bytes.slice(offset, offset + chunking));
+  }
+  return reads;
+}
+
+function findMismatch(actual: unknown, expected: unknown, path: string): string | null {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return `${path} should be an array`;
+    if (actual.length !== expected.length) {
+      return `${path} should have ${expected.length} items, has ${actual.length}`;
+    }
+    for (let i = 0; i < expected.length; i++) {
+      const mismatch = findMismatch(actual[i], expected[i], `${path}[${i}]`);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') return `${path} should be an object`;
+    for (const [key, value] of Object.entries(expected)) {
+      const mismatch = findMismatch(
+        (actual as Record<string, unknown>)[key],
+        value,
+        `${path}.${key}`
+      );
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  return Object.is(actual, expected)
+    ? null
+    : `${path} should be ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+}
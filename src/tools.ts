@@ -0,0 +1,136 @@
+// src/tools.ts
+import type { z } from 'zod';
+import type { ToolCall, ToolResult } from './types';
+import { ToolExecutionError } from './errors.js';
+import { formatSchemaIssues } from './schemas.js';
+
+/**
+ * What a registered tool's `execute` gets besides its arguments.
+ */
+export interface ToolExecutionContext {
+  /** The ID of the tool call being answered. */
+  toolCallId?: string;
+  /** The vault the request was made for. */
+  vaultId: string;
+  /** Aborts when the request is cancelled. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A tool that runs in your process when the agent calls it.
+ */
+export interface ClientTool<P extends z.ZodTypeAny = z.ZodTypeAny, R = unknown> {
+  /** The name the agent calls the tool by. */
+  name: string;
+  /** What the tool does. */
+  description: string;
+  /** Schema for the arguments. Calls with arguments that do not match are not executed. */
+  parameters: P;
+  /** Runs the tool. The return value is sent to the agent as the result. */
+  execute(args: z.infer<P>, context: ToolExecutionContext): Promise<R> | R;
+}
+
+/**
+ * Defines a tool with its argument types inferred from the schema, e.g. to keep tools in their
+ * own modules.
+ *
+ * @example
+ * export const priceTool = defineTool({
+ *   name: 'internal-price',
+ *   description: 'Price of a token from our price feed',
+ *   parameters: z.object({ symbol: z.string() }),
+ *   execute: async ({ symbol }) => priceFeed.get(symbol),
+ * });
+ */
+export function defineTool<P extends z.ZodTypeAny, R>(tool: ClientTool<P, R>): ClientTool<P, R> {
+  return tool;
+}
+
+/**
+ * Tools registered with a client, looked up by name when the agent calls them.
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, ClientTool>();
+
+  /** Number of registered tools. */
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Adds a tool.
+   *
+   * @throws Error if a tool with the same name is already registered.
+   */
+  register(tool: ClientTool): void {
+    if (!tool.name) throw new Error('Tool name is required');
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Removes a tool.
+   *
+   * @returns Whether the tool was registered.
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /** Whether a tool with this name is registered. */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /** The registered tools, in the order they were added. */
+  list(): ClientTool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Runs registered tools for the given calls. Calls whose arguments do not match the schema
+   * get an error result, so the agent can correct them.
+   *
+   * @param calls - Calls to registered tools.
+   * @param context - The vault and signal of the request.
+   * @returns One result per call, in the same order.
+   * @throws ToolExecutionError if a tool is not registered or its `execute` throws.
+   */
+  async execute(
+    calls: ToolCall[],
+    context: Omit<ToolExecutionContext, 'toolCallId'>
+  ): Promise<ToolResult[]> {
+    return Promise.all(
+      calls.map(async call => {
+        const tool = this.tools.get(call.name);
+        if (!tool) {
+          throw new ToolExecutionError(`Tool ${call.name} is not registered`, [call], {
+            vaultId: context.vaultId,
+          });
+        }
+
+        const parsed = await tool.parameters.safeParseAsync(call.arguments);
+        if (!parsed.success) {
+          return {
+            tool_call_id: call.id || '',
+            result: {
+              error: `Invalid arguments for ${call.name}: ${formatSchemaIssues(parsed.error.issues)}`,
+            },
+          };
+        }
+
+        try {
+          const result = await tool.execute(parsed.data, { ...context, toolCallId: call.id });
+          return { tool_call_id: call.id || '', result };
+        } catch (error) {
+          throw new ToolExecutionError(`Tool ${call.name} failed: ${String(error)}`, [call], {
+            vaultId: context.vaultId,
+            cause: error,
+          });
+        }
+      })
+    );
+  }
+}
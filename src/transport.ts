@@ -0,0 +1,99 @@
+// src/transport.ts
+import type {
+  Transport,
+  TransportHandler,
+  TransportMiddleware,
+  TransportRequest,
+  TransportResponse,
+} from './types';
+import { formatDataStreamLine } from './data-stream.js';
+
+/**
+ * Options for a {@link FetchTransport}.
+ */
+export interface FetchTransportOptions {
+  /** The fetch implementation. Defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * The default transport, which sends requests with fetch.
+ */
+export class FetchTransport implements Transport {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    return this.fetchImpl(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+      signal: request.signal,
+    });
+  }
+}
+
+/**
+ * Wraps a transport in middleware. The first middleware sees the request first and the
+ * response last.
+ *
+ * @param transport - The transport that sends requests once every middleware has called `next`.
+ * @param middleware - The middleware, outermost first.
+ * @returns A function that sends a request through the chain.
+ */
+export function composeTransport(
+  transport: Transport,
+  middleware: TransportMiddleware[] = []
+): TransportHandler {
+  return middleware.reduceRight<TransportHandler>(
+    (next, wrap) => request => wrap(request, next),
+    request => transport.send(request)
+  );
+}
+
+/**
+ * Creates a response body in the data stream protocol, e.g. for middleware or transports that
+ * answer without calling the API.
+ *
+ * @param chunks - Protocol lines such as `0:"Hello"`, or `{ prefix, data }` chunks.
+ */
+export function createDataStream(
+  chunks: (string | { prefix: string; data: unknown })[]
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const lines = chunks.map(chunk =>
+    typeof chunk === 'string' ? chunk : formatDataStreamLine(chunk.prefix, chunk.data)
+  );
+  return new ReadableStream({
+    start(controller) {
+      for (const line of lines) controller.enqueue(encoder.encode(`${line}\n`));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Creates a successful transport response that streams the given chunks.
+ *
+ * @example
+ * // Middleware that answers every request without calling the API
+ * const offline: TransportMiddleware = async () =>
+ *   createDataStreamResponse(['0:"Offline reply"', 'd:{"finishReason":"stop"}']);
+ *
+ * @param chunks - Protocol lines such as `0:"Hello"`, or `{ prefix, data }` chunks.
+ * @param init - Optional status and headers.
+ */
+export function createDataStreamResponse(
+  chunks: (string | { prefix: string; data: unknown })[],
+  init: { status?: number; headers?: Record<string, string> } = {}
+): TransportResponse {
+  const headers = new Headers({
+    'Content-Type': 'text/plain; charset=utf-8',
+    'X-Vercel-AI-Data-Stream': 'v1',
+  });
+  for (const [name, value] of Object.entries(init.headers || {})) headers.set(name, value);
+  return { status: init.status ?? 200, headers, body: createDataStream(chunks) };
+}
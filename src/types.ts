@@ -12,34 +12,473 @@ export interface HustleIncognitoClientOptions {
   userKey?: string;
   /** Optional user secret associated with the user key. */
   userSecret?: string;
+  /** Vault used when a request does not name one. Defaults to `unspecified-incognito`. */
+  vaultId?: string;
+  /** Wallet used when a request does not name one. */
+  externalWalletAddress?: string;
+  /** Safe mode used when a request does not set it. Defaults to true. */
+  safeMode?: boolean;
+  /**
+   * Most requests streamed at once. Further requests wait for a free slot. Unlimited when unset.
+   * Shorthand for a `RateLimiter` with `client: { maxConcurrent }`.
+   */
+  maxConcurrentRequests?: number;
+  /** Queues requests to stay within rate and concurrency limits, e.g. a `RateLimiter`. */
+  rateLimiter?: RateLimiterLike;
   /** Optional fetch implementation for environments without native fetch. */
   fetch?: typeof fetch;
   /** Enable debug logging. */
   debug?: boolean;
   /** Optional cookie for authentication with Vercel. */
   cookie?: string;
+  /** Default timeout for each request in milliseconds. Disabled when unset. */
+  timeoutMs?: number;
+  /** Retry policy for transient failures. Requests are attempted once when unset. */
+  retry?: RetryOptions;
+  /** Strategy applied to the message history before each request. Sends everything when unset. */
+  historyStrategy?: HistoryStrategy;
+  /** Maximum size of a single attachment in bytes. Defaults to 10 MB. */
+  maxAttachmentBytes?: number;
+  /** Receives log messages with structured fields. Credentials are redacted first. */
+  logger?: Logger;
+  /**
+   * Level for the built-in console logger, used when no `logger` is given. `debug: true` is the
+   * same as `'debug'`. Nothing is logged when neither is set.
+   */
+  logLevel?: LogLevel;
+  /** Lifecycle hooks called for each API request. */
+  hooks?: ClientHooks;
+  /** Tracer and meter that receive a span and metrics for each API request. */
+  telemetry?: TelemetryOptions;
+  /** Sums token usage and enforces budgets. Share one tracker to sum across clients. */
+  usageTracker?: UsageTrackerLike;
+  /** Sends requests to the API. Defaults to a `FetchTransport` using `fetch`. */
+  transport?: Transport;
+  /** Middleware wrapped around the transport, outermost first. */
+  transportMiddleware?: TransportMiddleware[];
+  /**
+   * Validate requests, chunks and tool results against the exported schemas and throw a
+   * `SchemaValidationError` when they do not match. Mismatches are logged as warnings otherwise.
+   */
+  strict?: boolean;
+  /** Checks trading and transfer tool calls before they reach the caller, e.g. a `WalletPolicyGate`. */
+  walletPolicy?: WalletActionGate;
+  /** Slippage profile used when conversations and calls do not pick one. Defaults to `default`. */
+  slippageProfile?: SlippageProfileName;
+  /** Slippage values applied on top of the client's profile. */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Custom slippage profiles by name. Entries named like a built-in profile replace it. */
+  slippageProfiles?: Record<string, SlippageSettings>;
+}
+
+/**
+ * A request for a transport to send.
+ */
+export interface TransportRequest {
+  /** The full endpoint URL. */
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** The request body, serialized as JSON by the transport. */
+  body: HustleRequest;
+  /** Aborts the request, including reading the response body. */
+  signal?: AbortSignal;
+  /** The attempt number, starting at 1. */
+  attempt: number;
+}
+
+/**
+ * What a transport returns. A fetch `Response` fits this shape.
+ */
+export interface TransportResponse {
+  status: number;
+  statusText?: string;
+  headers: Headers;
+  /** The response body in the data stream protocol, or null if there is none. */
+  body: ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * Sends requests to the Hustle API, e.g. over fetch, Node.js `http` or in-process.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Sends a request through the rest of the middleware chain and the transport.
+ */
+export type TransportHandler = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Wraps the transport to change requests before they are sent or responses before they are
+ * read. Call `next` to continue, or return a response without calling it to answer directly.
+ */
+export type TransportMiddleware = (
+  request: TransportRequest,
+  next: TransportHandler
+) => Promise<TransportResponse>;
+
+/**
+ * Middleware added with `client.use()`. Each handler gets a context and a `next` function, as
+ * in Koa: code before `await next()` runs on the way in, code after it on the way out, and not
+ * calling `next` skips the rest of the chain.
+ */
+export interface ClientMiddleware {
+  /** Shown in errors and logs. */
+  name?: string;
+  /** Runs around request preparation, once per API request. */
+  request?: (context: RequestMiddlewareContext, next: MiddlewareNext) => Promise<void>;
+  /** Runs around each chunk before it is yielded to the caller. */
+  chunk?: (context: ChunkMiddlewareContext, next: MiddlewareNext) => Promise<void>;
+}
+
+/**
+ * Runs the rest of the middleware chain.
+ */
+export type MiddlewareNext = () => Promise<void>;
+
+/**
+ * What request middleware can read and change.
+ */
+export interface RequestMiddlewareContext {
+  vaultId: string;
+  conversationId?: string;
+  /** The messages to send. Change them before calling `next`; the history strategy runs after. */
+  messages: ChatMessage[];
+  /** The headers to send. */
+  headers: Record<string, string>;
+  /** The request body, set once `next` returns. Changes to it are sent. */
+  body?: HustleRequest;
+  /** Shared by the request and chunk middleware of one call. */
+  state: Record<string, unknown>;
+  signal?: AbortSignal;
+  /** Stops the request. Nothing is sent and the stream ends without chunks. */
+  stop(): void;
+}
+
+/**
+ * What chunk middleware can read and change.
+ */
+export interface ChunkMiddlewareContext {
+  vaultId: string;
+  conversationId?: string;
+  /** The chunk's position in the stream, starting at 0. */
+  index: number;
+  /** The chunk to yield. Replace it to rewrite the chunk, or set it to null to drop it. */
+  chunk: StreamChunk | RawChunk | null;
+  /** Shared by the request and chunk middleware of one call. */
+  state: Record<string, unknown>;
+  /** Ends the stream without yielding this chunk, and stops reading the response. */
+  stop(): void;
+}
+
+/**
+ * Severity of a log message.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured data attached to a log message.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives log messages from the client. Compatible with `console` and most logging libraries.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Callbacks for each API request, for telemetry and auditing. Requests that are retried
+ * report every attempt. Credentials in headers and bodies are redacted, and errors thrown by
+ * a hook are logged and otherwise ignored.
+ */
+export interface ClientHooks {
+  /** Called before each attempt is sent. */
+  onRequest?: (event: RequestHookEvent) => void;
+  /** Called when the response headers arrive, whatever the status. */
+  onResponse?: (event: ResponseHookEvent) => void;
+  /** Called for each parsed chunk of the response stream. */
+  onChunk?: (event: ChunkHookEvent) => void;
+  /** Called when an attempt fails, including attempts that will be retried. */
+  onError?: (event: ErrorHookEvent) => void;
+  /** Called when a response stream has been read to the end. */
+  onFinish?: (event: FinishHookEvent) => void;
+}
+
+/**
+ * Passed to `onRequest`.
+ */
+export interface RequestHookEvent {
+  vaultId: string;
+  /** The attempt number, starting at 1. */
+  attempt: number;
+  url: string;
+  /** Request headers, redacted. */
+  headers: Record<string, string>;
+  /** Request body, redacted. */
+  body: HustleRequest;
+}
+
+/**
+ * Passed to `onResponse`.
+ */
+export interface ResponseHookEvent {
+  vaultId: string;
+  attempt: number;
+  status: number;
+  /** The request ID from the response headers, if any. */
+  requestId?: string;
+  /** Time from sending the request to receiving the headers. */
+  durationMs: number;
+}
+
+/**
+ * Passed to `onChunk`.
+ */
+export interface ChunkHookEvent {
+  vaultId: string;
+  /** Position of the chunk in the response, starting at 0. */
+  index: number;
+  chunk: RawChunk;
+}
+
+/**
+ * Passed to `onError`.
+ */
+export interface ErrorHookEvent {
+  vaultId: string;
+  attempt: number;
+  /** The error, always a `HustleError`. */
+  error: Error;
+  /** Whether the request will be attempted again. */
+  willRetry: boolean;
+}
+
+/**
+ * Passed to `onFinish`.
+ */
+export interface FinishHookEvent {
+  vaultId: string;
+  /** Number of attempts made, including the successful one. */
+  attempts: number;
+  chunkCount: number;
+  /** Time from sending the first attempt to the end of the stream. */
+  durationMs: number;
+}
+
+/**
+ * Where the client sends spans and metrics. Both are optional. The interfaces are the subset
+ * of the OpenTelemetry API the client uses, so an OpenTelemetry tracer and meter can be
+ * passed directly.
+ */
+export interface TelemetryOptions {
+  tracer?: Tracer;
+  meter?: Meter;
+}
+
+/**
+ * A span or metric attribute value.
+ */
+export type TelemetryAttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+/**
+ * Attributes attached to a span, event or measurement.
+ */
+export type TelemetryAttributes = Record<string, TelemetryAttributeValue | undefined>;
+
+/**
+ * Creates spans. Compatible with an OpenTelemetry `Tracer`.
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: TelemetryAttributes; startTime?: number }
+  ): TelemetrySpan;
+}
+
+/**
+ * A timed operation. Compatible with an OpenTelemetry `Span`.
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: TelemetryAttributeValue): this;
+  setAttributes(attributes: TelemetryAttributes): this;
+  addEvent(name: string, attributes?: TelemetryAttributes): this;
+  /** Sets the status. Codes follow OpenTelemetry: 0 unset, 1 ok, 2 error. */
+  setStatus(status: { code: number; message?: string }): this;
+  recordException(exception: Error | string): void;
+  end(endTime?: number): void;
+}
+
+/**
+ * Creates metric instruments. Compatible with an OpenTelemetry `Meter`.
+ */
+export interface Meter {
+  createCounter(name: string, options?: MetricOptions): Counter;
+  createHistogram(name: string, options?: MetricOptions): Histogram;
+}
+
+/**
+ * Describes a metric instrument.
+ */
+export interface MetricOptions {
+  description?: string;
+  unit?: string;
+}
+
+/**
+ * A metric that only goes up, such as a number of tool calls.
+ */
+export interface Counter {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * A metric whose distribution matters, such as request duration.
+ */
+export interface Histogram {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Decides which messages are sent with a request, e.g. to stay within the context window.
+ * Strategies never change the caller's transcript, only what is sent.
+ */
+export interface HistoryStrategy {
+  /** Returns the messages to send in place of the full history. */
+  apply(messages: ChatMessage[], context: HistoryContext): ChatMessage[] | Promise<ChatMessage[]>;
+}
+
+/**
+ * Context passed to a history strategy for each request.
+ */
+export interface HistoryContext {
+  /** The vault the request is made for. */
+  vaultId: string;
+  /** Asks the agent to summarize the given messages and resolves with the summary text. */
+  summarize(messages: ChatMessage[], prompt: string): Promise<string>;
+}
+
+/**
+ * Retry policy for transient failures. Retries only happen before the first chunk of a
+ * response has been emitted, so consumers never see duplicated output.
+ */
+export interface RetryOptions {
+  /** Total number of attempts, including the first. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds. Defaults to 500. */
+  initialDelayMs?: number;
+  /** Upper bound for every delay, Retry-After included, in milliseconds. Defaults to 10000. */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each attempt. Defaults to 2. */
+  backoffMultiplier?: number;
+  /** Randomize delays to avoid synchronized retries. Defaults to true. */
+  jitter?: boolean;
+  /** HTTP statuses that are retried. Defaults to 408, 429, 500, 502, 503 and 504. */
+  retryableStatuses?: number[];
+  /** Whether connection failures are retried. Defaults to true. */
+  retryOnNetworkError?: boolean;
+  /** Called before each retry, e.g. for logging. */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Information about a failed attempt that is about to be retried.
+ */
+export interface RetryAttempt {
+  /** The attempt that failed, starting at 1. */
+  attempt: number;
+  /** The total number of attempts allowed. */
+  maxAttempts: number;
+  /** How long the client will wait before the next attempt, in milliseconds. */
+  delayMs: number;
+  /** The error that caused the retry. */
+  error: Error;
+  /** The vault the request was made for. */
+  vaultId: string;
 }
 
 /**
  * Options for streaming API requests.
  */
 export interface StreamOptions {
-  /** Required vault ID for the context */
-  vaultId: string;
+  /** Vault ID for the context. Defaults to the client's vault. */
+  vaultId?: string;
   /** Messages to send to the AI */
   messages: ChatMessage[];
   /** Optional user-specific API key */
   userApiKey?: string;
   /** Optional wallet address for blockchain operations */
   externalWalletAddress?: string;
-  /** Optional slippage settings for operations */
-  slippageSettings?: Record<string, number>;
+  /** Optional slippage profile, overriding the client's */
+  slippageProfile?: SlippageProfileName;
+  /** Optional slippage values applied on top of the profile */
+  slippageSettings?: Partial<SlippageSettings>;
   /** Optional safety mode toggle */
   safeMode?: boolean;
   /** Optional current path info */
   currentPath?: string | null;
   /** Whether to process stream chunks into structured data */
   processChunks?: boolean;
+  /** Optional handler that executes client-side tool calls and returns their results */
+  onToolCall?: ToolCallHandler;
+  /** Maximum number of tool round trips before giving up. Defaults to 5. */
+  maxToolIterations?: number;
+  /** Optional signal to cancel the request */
+  signal?: AbortSignal;
+  /** Optional timeout for each request in milliseconds, overriding the client default */
+  timeoutMs?: number;
+  /** Optional history strategy overriding the client default; null sends the full history */
+  historyStrategy?: HistoryStrategy | null;
+  /** Optional files, images or URLs to attach to the request */
+  attachments?: AttachmentInput[];
+  /** Optional conversation the request belongs to, sent as the request ID and used for usage tracking */
+  conversationId?: string;
+  /** Optional ID sent as the request `id`. Defaults to the conversation ID, or a new ID per call. */
+  chatId?: string;
+  /** Optional queue priority when the client has a rate limiter. Defaults to `normal`. */
+  priority?: RequestPriority;
+}
+
+/**
+ * Options for non-streaming chat requests.
+ */
+export interface ChatOptions {
+  /** Vault ID for the context. Defaults to the client's vault. */
+  vaultId?: string;
+  /** Optional user-specific API key */
+  userApiKey?: string;
+  /** Optional wallet address for blockchain operations */
+  externalWalletAddress?: string;
+  /** Optional slippage profile, overriding the client's */
+  slippageProfile?: SlippageProfileName;
+  /** Optional slippage values applied on top of the profile */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Optional safety mode toggle */
+  safeMode?: boolean;
+  /** Return the raw chunks instead of a processed response */
+  rawResponse?: boolean;
+  /** Optional handler that executes client-side tool calls and returns their results */
+  onToolCall?: ToolCallHandler;
+  /** Maximum number of tool round trips before giving up. Defaults to 5. */
+  maxToolIterations?: number;
+  /** Optional signal to cancel the request */
+  signal?: AbortSignal;
+  /** Optional timeout for each request in milliseconds, overriding the client default */
+  timeoutMs?: number;
+  /** Optional history strategy overriding the client default; null sends the full history */
+  historyStrategy?: HistoryStrategy | null;
+  /** Optional files, images or URLs to attach to the request */
+  attachments?: AttachmentInput[];
+  /** Optional conversation the request belongs to, sent as the request ID and used for usage tracking */
+  conversationId?: string;
+  /** Optional queue priority when the client has a rate limiter. Defaults to `normal`. */
+  priority?: RequestPriority;
 }
 
 /**
@@ -57,13 +496,155 @@ export interface HustleRequest {
   /** Optional wallet address for blockchain operations */
   externalWalletAddress?: string;
   /** Slippage settings for operations */
-  slippageSettings?: Record<string, number>;
+  slippageSettings?: SlippageSettings;
   /** Safety mode toggle */
   safeMode?: boolean;
   /** Current path info */
   currentPath?: string | null;
   /** Optional attachments for the conversation */
-  attachments?: any[];
+  attachments?: Attachment[];
+}
+
+/**
+ * A file or image sent to the agent, in the format used by the Vercel AI SDK.
+ */
+export interface Attachment {
+  /** Optional file name. */
+  name?: string;
+  /** The MIME type of the content. */
+  contentType: string;
+  /** A remote URL or a base64 data URL. */
+  url: string;
+}
+
+/**
+ * Anything that can be turned into an attachment: a local file path, an http(s) or data URL,
+ * a Blob/File, raw bytes (Buffer, Uint8Array, ArrayBuffer), or an object with explicit
+ * name and content type.
+ */
+export type AttachmentInput =
+  | string
+  | Blob
+  | Uint8Array
+  | ArrayBuffer
+  | {
+      data: string | Blob | Uint8Array | ArrayBuffer;
+      name?: string;
+      contentType?: string;
+    };
+
+/**
+ * Options for creating a conversation. Settings are reused for every message sent.
+ */
+export interface ConversationOptions {
+  /** Optional ID for the conversation. Generated when omitted. */
+  id?: string;
+  /** Vault ID for the context. Defaults to the client's vault. */
+  vaultId?: string;
+  /** Optional existing transcript to continue from */
+  messages?: ChatMessage[];
+  /** Optional user-specific API key */
+  userApiKey?: string;
+  /** Optional wallet address for blockchain operations */
+  externalWalletAddress?: string;
+  /** Optional slippage profile, overriding the client's */
+  slippageProfile?: SlippageProfileName;
+  /** Optional slippage values applied on top of the profile */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Optional safety mode toggle */
+  safeMode?: boolean;
+  /** Optional current path info to resume from */
+  currentPath?: string | null;
+  /** Optional handler that executes client-side tool calls and returns their results */
+  onToolCall?: ToolCallHandler;
+  /** Maximum number of tool round trips before giving up. Defaults to 5. */
+  maxToolIterations?: number;
+  /** Optional store the conversation is saved to after every reply */
+  store?: ConversationStore;
+  /** Optional history strategy overriding the client default; null sends the full history */
+  historyStrategy?: HistoryStrategy | null;
+}
+
+/**
+ * The persisted state of a conversation. Credentials and handlers are never included.
+ */
+export interface ConversationSnapshot {
+  /** The conversation ID. */
+  id: string;
+  /** The vault the conversation runs against. */
+  vaultId: string;
+  /** The full transcript. */
+  messages: ChatMessage[];
+  /** Message IDs reported by the API, in order. */
+  messageIds: string[];
+  /** Token usage reported for each assistant message, keyed by message ID. */
+  usage: Record<string, Usage>;
+  /** The latest path info object reported by the API. */
+  pathInfo: unknown | null;
+  /** The current path. */
+  currentPath: string | null;
+  /** The current path after each message, keyed by message ID. */
+  pathByMessageId: Record<string, string | null>;
+  /** Wallet address used for blockchain operations. */
+  externalWalletAddress?: string;
+  /** Slippage profile for operations. */
+  slippageProfile?: SlippageProfileName;
+  /** Slippage values applied on top of the profile. */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Safety mode toggle. */
+  safeMode?: boolean;
+  /** When the conversation was created (ISO 8601). */
+  createdAt: string;
+  /** When the conversation was last saved (ISO 8601). */
+  updatedAt: string;
+}
+
+/**
+ * Persists conversation snapshots by conversation ID.
+ */
+export interface ConversationStore {
+  /** Loads a conversation, resolving with null if it does not exist. */
+  load(id: string): Promise<ConversationSnapshot | null>;
+  /** Creates or replaces a conversation. */
+  save(snapshot: ConversationSnapshot): Promise<void>;
+  /** Deletes a conversation. Deleting a missing conversation is not an error. */
+  delete(id: string): Promise<void>;
+  /** Lists the IDs of all stored conversations. */
+  list(): Promise<string[]>;
+}
+
+/**
+ * A minimal string key-value backend, e.g. SQLite, Redis or localStorage.
+ */
+export interface KeyValueAdapter {
+  /** Returns the value for a key, or null/undefined if it is missing. */
+  get(key: string): Promise<string | null | undefined>;
+  /** Sets the value for a key. */
+  set(key: string, value: string): Promise<void>;
+  /** Removes a key. */
+  delete(key: string): Promise<void>;
+  /** Lists all keys starting with the given prefix. */
+  keys(prefix: string): Promise<string[]>;
+}
+
+/**
+ * Per-message options for a conversation.
+ */
+export interface ConversationSendOptions {
+  /** Optional parts for structured content */
+  parts?: MessagePart[];
+  /** Optional files, images or URLs attached to the user message */
+  attachments?: AttachmentInput[];
+  /** Optional signal to cancel the request */
+  signal?: AbortSignal;
+  /** Optional timeout for each request in milliseconds, overriding the client default */
+  timeoutMs?: number;
+  /** Optional slippage profile for this message, overriding the conversation's */
+  slippageProfile?: SlippageProfileName;
+  /** Optional slippage values for this message, applied on top of the profile */
+  slippageSettings?: Partial<SlippageSettings>;
+  /** Optional queue priority when the client has a rate limiter. Defaults to `normal`. */
+  priority?: RequestPriority;
 }
 
 /**
@@ -72,8 +653,8 @@ export interface HustleRequest {
 export interface RawChunk {
   /** The prefix character identifying the chunk type */
   prefix: string;
-  /** The data content of the chunk */
-  data: any;
+  /** The data content of the chunk. `chunkSchemas` describes its shape for each prefix. */
+  data: unknown;
   /** The raw line from the stream */
   raw: string;
 }
@@ -86,20 +667,22 @@ export interface ProcessedResponse {
   content: string;
   /** The message ID if provided */
   messageId: string | null;
-  /** Token usage information */
-  usage: any | null;
+  /** Token usage for all requests made, or null if none was reported */
+  usage: Usage | null;
   /** Path information */
-  pathInfo: any | null;
+  pathInfo: PathInfo | null;
   /** Tool calls made during the conversation */
-  toolCalls: any[];
+  toolCalls: StreamToolCall[];
   /** Results from tool calls */
-  toolResults: any[];
+  toolResults: (StreamToolResult | ToolResult)[];
 }
 
 /**
  * A message to be sent to or received from the API.
  */
 export interface ChatMessage {
+  /** Optional unique ID of the message. */
+  id?: string;
   /** The role of the message sender. */
   role: 'user' | 'assistant' | 'system' | 'tool';
   /** The content of the message. */
@@ -108,6 +691,26 @@ export interface ChatMessage {
   name?: string;
   /** Optional parts for structured content. */
   parts?: MessagePart[];
+  /** Optional tool invocations attached to an assistant message. */
+  toolInvocations?: ToolInvocation[];
+  /** Optional files or images attached to the message. */
+  experimental_attachments?: Attachment[];
+}
+
+/**
+ * A completed tool invocation, sent back to the API so the agent can continue.
+ */
+export interface ToolInvocation {
+  /** The invocation state. Only completed invocations are sent back. */
+  state: 'result';
+  /** The ID of the tool call. */
+  toolCallId: string;
+  /** The name of the tool that was called. */
+  toolName: string;
+  /** The arguments the tool was called with. */
+  args: Record<string, unknown>;
+  /** The result of the tool execution. */
+  result: unknown;
 }
 
 /**
@@ -118,8 +721,12 @@ export interface MessagePart {
   type: 'text' | 'image' | 'file';
   /** The text content if type is 'text'. */
   text?: string;
-  /** The file URL if type is 'image' or 'file'. */
+  /** The file URL if type is 'image' or 'file'. May be a base64 data URL. */
   url?: string;
+  /** The MIME type if type is 'image' or 'file'. */
+  mimeType?: string;
+  /** The file name if type is 'file'. */
+  name?: string;
 }
 
 /**
@@ -177,35 +784,318 @@ export interface ToolResult {
 }
 
 /**
- * A chunk from the streaming API.
- */
-export interface StreamChunk {
-  /** The type of chunk. */
-  type:
-    | 'text'
-    | 'tool_call'
-    | 'tool_call_delta'
-    | 'tool_result'
-    | 'message_id'
-    | 'path_info'
-    | 'error'
-    | 'finish'
-    | 'unknown';
-  /** The value of the chunk. */
-  value:
-    | string
-    | ToolCall
-    | Partial<ToolCall>
-    | ToolResult
-    | {
+ * Executes tool calls requested by the agent and resolves with their results.
+ */
+export type ToolCallHandler = (toolCalls: ToolCall[]) => Promise<ToolResult[]>;
+
+/**
+ * A tool call as sent by the agent in a `9:` chunk.
+ */
+export interface StreamToolCall {
+  /** The ID of the tool call. */
+  toolCallId: string;
+  /** The name of the tool. */
+  toolName: string;
+  /** The arguments for the tool. */
+  args: Record<string, unknown>;
+}
+
+/**
+ * A partial tool call assembled from `b:` and `c:` chunks while the arguments stream in.
+ */
+export interface ToolCallDelta {
+  /** The ID of the tool call. */
+  toolCallId: string;
+  /** The name of the tool. */
+  toolName: string;
+  /** The argument text received in this chunk. */
+  argsTextDelta: string;
+  /** All argument text received so far. */
+  argsText: string;
+}
+
+/**
+ * A tool result as sent by the agent in an `a:` chunk.
+ */
+export interface StreamToolResult {
+  /** The ID of the tool call. */
+  toolCallId: string;
+  /** The result of the tool execution. */
+  result: unknown;
+}
+
+/**
+ * Path information sent by the agent in a `2:` chunk.
+ */
+export interface PathInfo {
+  /** The current path, used to route the next request. */
+  path?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A source the agent cited, sent in an `h:` chunk.
+ */
+export interface StreamSource {
+  /** The kind of source. */
+  sourceType: 'url' | string;
+  /** The ID of the source. */
+  id: string;
+  /** The URL of the source. */
+  url: string;
+  /** Optional title of the source. */
+  title?: string;
+  /** Optional provider-specific metadata. */
+  providerMetadata?: Record<string, unknown>;
+}
+
+/**
+ * A file the agent generated, sent in a `k:` chunk.
+ */
+export interface StreamFile {
+  /** The base64-encoded file content. */
+  data: string;
+  /** The MIME type of the file. */
+  mimeType: string;
+}
+
+/**
+ * Token usage, with missing counts filled in.
+ */
+export interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Limits on token usage. Each limit is checked on its own.
+ */
+export interface UsageLimits {
+  totalTokens?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * What a usage record or budget applies to.
+ */
+export interface UsageContext {
+  vaultId: string;
+  conversationId?: string;
+}
+
+/**
+ * A budget that has been used up.
+ */
+export interface BudgetExceededEvent {
+  /** Whether the budget covers all usage, one vault or one conversation. */
+  scope: 'client' | 'vault' | 'conversation';
+  /** The vault or conversation ID, for vault and conversation budgets. */
+  id?: string;
+  /** The limit that was reached. */
+  limit: keyof UsageLimits;
+  /** The value of the limit. */
+  max: number;
+  /** Usage so far in the budget's scope. */
+  used: Usage;
+}
+
+/**
+ * The part of a `UsageTracker` the client uses, so other trackers can be plugged in.
+ */
+export interface UsageTrackerLike {
+  /**
+   * Called before each request. Throws to refuse the request; returns any budgets that are
+   * used up but only warned about.
+   */
+  check(context: UsageContext): BudgetExceededEvent[];
+  /** Called with the usage of each request that reported any. */
+  record(usage: Usage, context: UsageContext): void;
+}
+
+/**
+ * Token usage reported when a step or message finishes.
+ */
+export interface StreamUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A chunk from the streaming API. Switching on `type` narrows `value`.
+ */
+export type StreamChunk =
+  /** Text from the agent (`0:`). */
+  | { type: 'text'; value: string }
+  /** Reasoning text from the agent (`g:`). */
+  | { type: 'reasoning'; value: string }
+  /** Reasoning the provider redacted, as opaque data (`i:`). */
+  | { type: 'redacted_reasoning'; value: { data: string } }
+  /** Signature for the preceding reasoning (`j:`). */
+  | { type: 'reasoning_signature'; value: { signature: string } }
+  /** A complete tool call (`9:`, or assembled from `b:` and `c:`). */
+  | { type: 'tool_call'; value: StreamToolCall }
+  /** A tool call whose arguments are still streaming (`b:` and `c:`). */
+  | { type: 'tool_call_delta'; value: ToolCallDelta }
+  /** A tool result from the agent (`a:`) or from `onToolCall`. */
+  | { type: 'tool_result'; value: StreamToolResult | ToolResult }
+  /** The ID of the message being generated (`f:`). */
+  | { type: 'message_id'; value: string }
+  /** Path information (`2:`). */
+  | { type: 'path_info'; value: PathInfo }
+  /** Message annotations (`8:`). */
+  | { type: 'annotations'; value: unknown[] }
+  /** A cited source (`h:`). */
+  | { type: 'source'; value: StreamSource }
+  /** A generated file (`k:`). */
+  | { type: 'file'; value: StreamFile }
+  /** An error reported by the agent mid-stream (`3:`). */
+  | { type: 'error'; value: string }
+  /** The end of a step (`e:`) or message (`d:`). */
+  | {
+      type: 'finish';
+      value: {
         reason: string;
-        usage?: {
-          prompt_tokens: number;
-          completion_tokens: number;
-          total_tokens: number;
-        };
-      }
-    | any; // For other types like path_info, message_id, etc.
+        usage?: StreamUsage;
+        isContinued?: boolean;
+        /** `step` for `e:`, whose usage covers one step; `message` for `d:`, covering all steps. */
+        scope?: 'step' | 'message';
+      };
+    }
+  /** Any other chunk, passed through unchanged. */
+  | { type: 'unknown'; value: RawChunk };
+
+/**
+ * Slippage tolerances sent with every request, in percent from 0 to 100.
+ */
+export interface SlippageSettings {
+  /** Tolerance for token swaps. */
+  swapSlippage: number;
+  /** Tolerance for adding and removing liquidity. */
+  lpSlippage: number;
+  /** Tolerance for pump.fun trades. */
+  pumpSlippage: number;
+}
+
+/**
+ * A built-in slippage profile, or the name of one given in the client's `slippageProfiles`.
+ */
+export type SlippageProfileName = 'conservative' | 'default' | 'aggressive' | (string & {});
+
+/**
+ * A slippage profile and values to apply on top of it, as set at one level.
+ */
+export interface SlippageOptions {
+  slippageProfile?: SlippageProfileName;
+  slippageSettings?: Partial<SlippageSettings>;
+}
+
+/**
+ * Where a resolved slippage value was set, from least to most specific.
+ */
+export type SlippageLevel = 'default' | 'client' | 'conversation' | 'call';
+
+/**
+ * The slippage settings a request sends, and where each value came from.
+ */
+export interface ResolvedSlippageSettings {
+  settings: SlippageSettings;
+  sources: Record<
+    keyof SlippageSettings,
+    {
+      level: SlippageLevel;
+      /** The profile the value came from, unless it was set explicitly. */
+      profile?: SlippageProfileName;
+    }
+  >;
+}
+
+/**
+ * A kind of on-chain action the agent can take. `unknown` marks a tool call a policy could not
+ * classify.
+ */
+export type WalletActionKind = 'swap' | 'liquidity' | 'pump' | 'transfer' | 'unknown';
+
+/**
+ * A trading or transfer tool call, with the details policies check.
+ */
+export interface WalletAction {
+  kind: WalletActionKind;
+  toolName: string;
+  toolCallId?: string;
+  args: Record<string, unknown>;
+  /**
+   * Tokens named in the arguments, including nested ones and the sides of a swap, as given
+   * (symbols or mint addresses).
+   */
+  tokens: string[];
+  /** The value of the action in USD, if the arguments or a price estimate give one. */
+  notionalUsd?: number;
+  /** The slippage tolerance in percent, if the arguments give one. */
+  slippage?: number;
+  vaultId: string;
+  conversationId?: string;
+}
+
+/**
+ * Queue lane of a request. Waiting requests start in lane order, then in the order they came.
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * What a rate limiter needs to know about a request.
+ */
+export interface RateLimitRequest {
+  /** The API key the request is sent with. */
+  apiKey: string;
+  vaultId: string;
+  priority: RequestPriority;
+}
+
+/**
+ * Permission to send a request, given by a rate limiter.
+ */
+export interface RateLimitPermit {
+  /** How long the request waited in the queue, in milliseconds. */
+  waitMs: number;
+  /** Frees the request's concurrency slot. Calling it more than once has no effect. */
+  release(): void;
+}
+
+/**
+ * Anything that can hold requests back until they may be sent, such as a `RateLimiter`. Share
+ * one between clients to apply limits across them.
+ */
+export interface RateLimiterLike {
+  /**
+   * Waits until the request may be sent.
+   *
+   * @param signal - Stops waiting when aborted.
+   */
+  acquire(request: RateLimitRequest, signal?: AbortSignal): Promise<RateLimitPermit>;
+}
+
+/**
+ * Decides whether tool calls may continue. The client waits for `check` before yielding each
+ * tool call, so it can ask a human first.
+ */
+export interface WalletActionGate {
+  /**
+   * Checks a tool call. Resolves to continue; rejects, usually with a `PolicyDeniedError`, to
+   * stop the request.
+   *
+   * @param signal - The request's signal. Aborts when the caller aborts or the request times
+   * out, and a check that waits, e.g. for a human, should then reject with its reason.
+   */
+  check(toolCall: StreamToolCall, context: UsageContext, signal?: AbortSignal): Promise<void>;
+  /**
+   * Checks a request before it is sent, e.g. its slippage settings. Resolves to send it;
+   * rejects to stop it.
+   */
+  checkRequest?(request: HustleRequest, context: UsageContext): Promise<void>;
 }
 
 /**
@@ -0,0 +1,275 @@
+// src/usage.ts
+import type {
+  BudgetExceededEvent,
+  StreamUsage,
+  Usage,
+  UsageContext,
+  UsageLimits,
+  UsageTrackerLike,
+} from './types';
+import { BudgetExceededError } from './errors.js';
+
+/**
+ * Converts usage reported by the API into a `Usage`, filling in missing counts and the total.
+ *
+ * @returns The usage, or null if the value has no token counts.
+ */
+export function toUsage(usage: StreamUsage | null | undefined): Usage | null {
+  if (!usage || typeof usage !== 'object') return null;
+  const count = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  const promptTokens = count(usage.promptTokens);
+  const completionTokens = count(usage.completionTokens);
+  const totalTokens = count(usage.totalTokens);
+  if (promptTokens === undefined && completionTokens === undefined && totalTokens === undefined) {
+    return null;
+  }
+  return {
+    promptTokens: promptTokens ?? 0,
+    completionTokens: completionTokens ?? 0,
+    totalTokens: totalTokens ?? (promptTokens ?? 0) + (completionTokens ?? 0),
+  };
+}
+
+/**
+ * Adds two usages together.
+ */
+export function addUsage(a: Usage | null, b: Usage | null): Usage | null {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/**
+ * Sums the usage in the finish chunks of one or more responses.
+ *
+ * A message finish (`d:`) reports usage for all of its steps, so it replaces the step usage
+ * (`e:`) seen since the previous message finish instead of adding to it. Step usage without a
+ * message finish is added on its own.
+ */
+export class UsageAccumulator {
+  private completed: Usage | null = null;
+  private steps: Usage | null = null;
+
+  /**
+   * Adds the usage from a finish chunk.
+   *
+   * @param finish - The finish chunk's value. Finishes without a scope count as message finishes.
+   */
+  add(finish: { usage?: StreamUsage; scope?: 'step' | 'message' }): void {
+    const usage = toUsage(finish.usage);
+    if (finish.scope === 'step') {
+      this.steps = addUsage(this.steps, usage);
+    } else if (usage) {
+      this.completed = addUsage(this.completed, usage);
+      this.steps = null;
+    }
+  }
+
+  /** The usage so far, or null if none was reported. */
+  get total(): Usage | null {
+    return addUsage(this.completed, this.steps);
+  }
+}
+
+/**
+ * Token budgets for a {@link UsageTracker}.
+ */
+export interface UsageBudgets {
+  /** Limits on all usage recorded by the tracker. */
+  client?: UsageLimits;
+  /** Limits applied to each vault. */
+  vault?: UsageLimits;
+  /** Limits for specific vaults, by vault ID, used instead of `vault`. */
+  vaults?: Record<string, UsageLimits>;
+  /** Limits applied to each conversation. */
+  conversation?: UsageLimits;
+}
+
+/**
+ * Options for a {@link UsageTracker}.
+ */
+export interface UsageTrackerOptions {
+  /** Token budgets. Without budgets the tracker only counts. */
+  budgets?: UsageBudgets;
+  /**
+   * What to do with requests once a budget is used up: `refuse` throws a
+   * `BudgetExceededError` before the request is sent, `warn` sends it and logs a warning.
+   * Defaults to `refuse`.
+   */
+  onExceeded?: 'refuse' | 'warn';
+  /** Called once when recorded usage reaches a limit. */
+  onBudgetExceeded?: (event: BudgetExceededEvent) => void;
+}
+
+/**
+ * Everything a {@link UsageTracker} has counted.
+ */
+export interface UsageReport {
+  total: Usage;
+  /** Usage by vault ID. */
+  vaults: Record<string, Usage>;
+  /** Usage by conversation ID. Requests made outside a conversation are not included. */
+  conversations: Record<string, Usage>;
+}
+
+const EMPTY_USAGE: Usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+const LIMIT_KEYS: (keyof UsageLimits)[] = ['totalTokens', 'promptTokens', 'completionTokens'];
+
+/**
+ * Sums token usage across requests, per vault and per conversation, and enforces budgets.
+ * Pass it as the client's `usageTracker`. One tracker can be shared by several clients.
+ *
+ * Budgets are checked before each request, so a request that starts under budget is allowed
+ * to finish and may take usage past the limit.
+ *
+ * @example
+ * const tracker = new UsageTracker({ budgets: { vault: { totalTokens: 100_000 } } });
+ * const client = new HustleIncognitoClient({ apiKey, usageTracker: tracker });
+ * // ...
+ * const bill = tracker.getReport().vaults;
+ */
+export class UsageTracker implements UsageTrackerLike {
+  private readonly options: UsageTrackerOptions;
+  private total: Usage = { ...EMPTY_USAGE };
+  private vaults = new Map<string, Usage>();
+  private conversations = new Map<string, Usage>();
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Checks the budgets that apply to a request.
+   *
+   * @returns The budgets that are used up, when `onExceeded` is `warn`.
+   * @throws BudgetExceededError if a budget is used up and `onExceeded` is `refuse`.
+   */
+  check(context: UsageContext): BudgetExceededEvent[] {
+    const exceeded = this.budgetsFor(context).flatMap(({ scope, id, limits, used }) =>
+      LIMIT_KEYS.filter(
+        key => limits[key] !== undefined && used[key] >= (limits[key] as number)
+      ).map(
+        (key): BudgetExceededEvent => ({ scope, id, limit: key, max: limits[key] as number, used })
+      )
+    );
+
+    const [first] = exceeded;
+    if (first && this.options.onExceeded !== 'warn') {
+      throw new BudgetExceededError(describeBudget(first), first, { vaultId: context.vaultId });
+    }
+    return exceeded;
+  }
+
+  /**
+   * Adds the usage of a request.
+   *
+   * @param usage - The request's usage.
+   * @param context - The vault and conversation the request was made for.
+   */
+  record(usage: Usage, context: UsageContext): void {
+    const before = this.budgetsFor(context);
+
+    this.total = addUsage(this.total, usage) as Usage;
+    this.vaults.set(context.vaultId, addUsage(this.getVaultUsage(context.vaultId), usage) as Usage);
+    if (context.conversationId) {
+      this.conversations.set(
+        context.conversationId,
+        addUsage(this.getConversationUsage(context.conversationId), usage) as Usage
+      );
+    }
+
+    if (!this.options.onBudgetExceeded) return;
+    const after = this.budgetsFor(context);
+    after.forEach(({ scope, id, limits, used }, index) => {
+      const previous = before[index]?.used ?? EMPTY_USAGE;
+      for (const key of LIMIT_KEYS) {
+        const max = limits[key];
+        // Only report the record that crossed the limit
+        if (max !== undefined && used[key] >= max && previous[key] < max) {
+          this.options.onBudgetExceeded?.({ scope, id, limit: key, max, used });
+        }
+      }
+    });
+  }
+
+  /** Usage across everything recorded. */
+  getTotal(): Usage {
+    return { ...this.total };
+  }
+
+  /** Usage for one vault. */
+  getVaultUsage(vaultId: string): Usage {
+    return { ...(this.vaults.get(vaultId) ?? EMPTY_USAGE) };
+  }
+
+  /** Usage for one conversation. */
+  getConversationUsage(conversationId: string): Usage {
+    return { ...(this.conversations.get(conversationId) ?? EMPTY_USAGE) };
+  }
+
+  /** Everything counted so far, e.g. for billing each vault. */
+  getReport(): UsageReport {
+    return {
+      total: this.getTotal(),
+      vaults: Object.fromEntries([...this.vaults].map(([id, usage]) => [id, { ...usage }])),
+      conversations: Object.fromEntries(
+        [...this.conversations].map(([id, usage]) => [id, { ...usage }])
+      ),
+    };
+  }
+
+  /** Clears all counts, e.g. at the start of a billing period. */
+  reset(): void {
+    this.total = { ...EMPTY_USAGE };
+    this.vaults.clear();
+    this.conversations.clear();
+  }
+
+  /**
+   * The budgets that apply to a request, with the usage so far in each.
+   * @private
+   */
+  private budgetsFor(context: UsageContext): {
+    scope: BudgetExceededEvent['scope'];
+    id?: string;
+    limits: UsageLimits;
+    used: Usage;
+  }[] {
+    const budgets = this.options.budgets;
+    if (!budgets) return [];
+
+    const applicable = [];
+    if (budgets.client) {
+      applicable.push({ scope: 'client' as const, limits: budgets.client, used: this.getTotal() });
+    }
+    const vaultLimits = budgets.vaults?.[context.vaultId] ?? budgets.vault;
+    if (vaultLimits) {
+      applicable.push({
+        scope: 'vault' as const,
+        id: context.vaultId,
+        limits: vaultLimits,
+        used: this.getVaultUsage(context.vaultId),
+      });
+    }
+    if (budgets.conversation && context.conversationId) {
+      applicable.push({
+        scope: 'conversation' as const,
+        id: context.conversationId,
+        limits: budgets.conversation,
+        used: this.getConversationUsage(context.conversationId),
+      });
+    }
+    return applicable;
+  }
+}
+
+function describeBudget(event: BudgetExceededEvent): string {
+  const owner = event.id ? `${event.scope} ${event.id}` : event.scope;
+  return `Usage budget for ${owner} is used up: ${event.used[event.limit]} of ${event.max} ${event.limit}`;
+}
@@ -0,0 +1,13 @@
+// src/utils.ts
+
+/**
+ * Generates a unique ID with the given prefix.
+ * Uses crypto.randomUUID where available and falls back to Math.random.
+ */
+export function generateId(prefix: string): string {
+  const random =
+    typeof globalThis.crypto?.randomUUID === 'function'
+      ? globalThis.crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+  return `${prefix}-${random}`;
+}
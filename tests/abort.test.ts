@@ -0,0 +1,101 @@
+import { describe, test, expect, vi } from 'vitest';
+import { HustleIncognitoClient, AbortedError } from '../src';
+
+const options = { vaultId: 'vault-1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+// A response body that emits one line and then stalls until cancelled
+function stallingResponse(onCancel: () => void): Response {
+  let sent = false;
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (!sent) {
+          sent = true;
+          controller.enqueue(new TextEncoder().encode('0:"first"\n'));
+        }
+        return new Promise(() => undefined);
+      },
+      cancel: onCancel
+    })
+  );
+}
+
+describe('cancellation and timeouts', () => {
+  test('should pass the signal to fetch', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('0:"ok"\n'));
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+    const controller = new AbortController();
+
+    for await (const _chunk of client.rawStream({ ...options, signal: controller.signal })) {
+      // drain
+    }
+
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  test('should cancel the reader and throw AbortedError when the signal aborts', async () => {
+    const cancel = vi.fn();
+    const fetchMock = vi.fn().mockResolvedValue(stallingResponse(cancel));
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+    const controller = new AbortController();
+
+    const received: string[] = [];
+    const error = await (async () => {
+      for await (const chunk of client.rawStream({ ...options, signal: controller.signal })) {
+        received.push(chunk.data);
+        controller.abort();
+      }
+    })().catch(e => e);
+
+    expect(received).toEqual(['first']);
+    expect(error).toBeInstanceOf(AbortedError);
+    expect(error.timedOut).toBe(false);
+    expect(error.vaultId).toBe('vault-1');
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  test('should not send the request if the signal is already aborted', async () => {
+    const fetchMock = vi.fn();
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+
+    const error = await client
+      .chat(options.messages, { vaultId: 'vault-1', signal: AbortSignal.abort() })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AbortedError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('should time out using the client default', async () => {
+    const cancel = vi.fn();
+    const fetchMock = vi.fn().mockResolvedValue(stallingResponse(cancel));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      timeoutMs: 20
+    });
+
+    const error = await client.chat(options.messages, { vaultId: 'vault-1' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AbortedError);
+    expect(error.timedOut).toBe(true);
+    expect(error.message).toBe('Request timed out');
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  test('should let a per-call timeout override the client default', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => stallingResponse(() => undefined));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      timeoutMs: 60000
+    });
+
+    const error = await client
+      .chat(options.messages, { vaultId: 'vault-1', timeoutMs: 20 })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AbortedError);
+    expect(error.timedOut).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  HustleIncognitoClient,
+  AttachmentError,
+  createAttachment,
+  createAttachmentPart,
+  detectContentType
+} from '../src';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+let directory: string | undefined;
+
+afterEach(async () => {
+  if (directory) await rm(directory, { recursive: true, force: true });
+  directory = undefined;
+});
+
+describe('attachments', () => {
+  test('should detect content types from signatures and extensions', () => {
+    expect(detectContentType(PNG)).toBe('image/png');
+    expect(detectContentType(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d]))).toBe('application/pdf');
+    expect(detectContentType(undefined, 'https://x.test/chart.JPG?size=2')).toBe('image/jpeg');
+    expect(detectContentType(new Uint8Array([1, 2, 3, 4]), 'data.bin')).toBe('application/octet-stream');
+  });
+
+  test('should encode bytes as a data URL', async () => {
+    const attachment = await createAttachment({ data: PNG, name: 'chart.png' });
+
+    expect(attachment).toEqual({
+      name: 'chart.png',
+      contentType: 'image/png',
+      url: `data:image/png;base64,${Buffer.from(PNG).toString('base64')}`
+    });
+  });
+
+  test('should read local files and Blobs', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'hustle-attach-'));
+    const file = join(directory, 'notes.txt');
+    await writeFile(file, 'hello');
+
+    expect(await createAttachment(file)).toEqual({
+      name: 'notes.txt',
+      contentType: 'text/plain',
+      url: 'data:text/plain;base64,aGVsbG8='
+    });
+
+    const blob = new Blob(['{"a":1}'], { type: 'application/json' });
+    expect((await createAttachment(blob)).url).toBe('data:application/json;base64,eyJhIjoxfQ==');
+  });
+
+  test('should pass remote URLs through', async () => {
+    expect(await createAttachment('https://cdn.test/img/screenshot.webp')).toEqual({
+      name: 'screenshot.webp',
+      contentType: 'image/webp',
+      url: 'https://cdn.test/img/screenshot.webp'
+    });
+  });
+
+  test('should enforce size limits', async () => {
+    await expect(createAttachment(new Uint8Array(11), { maxBytes: 10 })).rejects.toBeInstanceOf(
+      AttachmentError
+    );
+    await expect(
+      createAttachment('data:text/plain;base64,aGVsbG8gd29ybGQ=', { maxBytes: 5 })
+    ).rejects.toThrow('over the 5 byte limit');
+    await expect(createAttachment('/does/not/exist.png')).rejects.toBeInstanceOf(AttachmentError);
+  });
+
+  test('should build image and file parts', async () => {
+    expect(await createAttachmentPart(PNG)).toMatchObject({ type: 'image', mimeType: 'image/png' });
+    expect(await createAttachmentPart({ data: 'data:application/pdf;base64,JVBERg==', name: 'r.pdf' }))
+      .toEqual({ type: 'file', url: 'data:application/pdf;base64,JVBERg==', mimeType: 'application/pdf', name: 'r.pdf' });
+  });
+
+  test('should send attachments with the first request only', async () => {
+    const bodies: any[] = [];
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: any) => {
+      bodies.push(JSON.parse(init.body));
+      return new Response(
+        bodies.length === 1
+          ? '9:{"toolCallId":"c1","toolName":"local","args":{}}\n'
+          : '0:"done"\n'
+      );
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+
+    await client.chat([{ role: 'user', content: 'What is in this chart?' }], {
+      vaultId: 'vault-1',
+      attachments: [{ data: PNG, name: 'chart.png' }],
+      onToolCall: async () => [{ tool_call_id: 'c1', result: 'ok' }]
+    });
+
+    expect(bodies[0].attachments).toEqual([
+      { name: 'chart.png', contentType: 'image/png', url: expect.stringMatching(/^data:image\/png;base64,/) }
+    ]);
+    expect(bodies[1].attachments).toEqual([]);
+  });
+
+  test('should respect the client size limit and attach to conversation messages', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('0:"ok"\n'));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      maxAttachmentBytes: 4
+    });
+
+    await expect(
+      client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'v', attachments: [PNG] })
+    ).rejects.toBeInstanceOf(AttachmentError);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const conversation = client.createConversation({ vaultId: 'v' });
+    await conversation.send('Look', { attachments: ['https://cdn.test/a.png'] });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].experimental_attachments).toEqual([
+      { name: 'a.png', contentType: 'image/png', url: 'https://cdn.test/a.png' }
+    ]);
+    expect(conversation.messages[0].experimental_attachments).toHaveLength(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HustleIncognitoClient, type BatchProgress } from '../src';
+import { createMockHustleServer } from '../src/testing';
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+describe('client.batch', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  test('should return results in input order with per-item errors', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: ['0:"first"', finish], delayMs: 20 },
+        { status: 500, body: 'boom' },
+        { chunks: ['0:"third"', finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const progress: BatchProgress[] = [];
+
+    const results = await client.batch(
+      [
+        { id: 'a', messages: 'One', vaultId: 'vault-a' },
+        { id: 'b', messages: 'Two' },
+        { id: 'c', messages: [{ role: 'user', content: 'Three' }] }
+      ],
+      { concurrency: 3, defaults: { vaultId: 'vault-default' }, onProgress: p => progress.push(p) }
+    );
+
+    expect(results.map(result => [result.id, result.status])).toEqual([
+      ['a', 'fulfilled'],
+      ['b', 'rejected'],
+      ['c', 'fulfilled']
+    ]);
+    expect(results[0]).toMatchObject({ response: { content: 'first' }, resumed: false });
+    expect(results[2]).toMatchObject({ response: { content: 'third' } });
+    expect(server.requests.map(request => request.body.vaultId).sort()).toEqual([
+      'vault-a',
+      'vault-default',
+      'vault-default'
+    ]);
+    expect(progress.map(p => p.result.id)).toEqual(['b', 'c', 'a']);
+    expect(progress[2]).toMatchObject({ total: 3, completed: 3, succeeded: 2, failed: 1 });
+  });
+
+  test('should not run more items than the concurrency allows', async () => {
+    const server = createMockHustleServer({
+      responses: Array.from({ length: 4 }, () => ({ chunks: ['0:"ok"', finish], delayMs: 10 }))
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const seen: number[] = [];
+
+    await client.batch(
+      ['1', '2', '3', '4'].map(messages => ({ messages })),
+      { concurrency: 2, onProgress: () => seen.push(server.requests.length) }
+    );
+
+    // Two requests start together, and each completion lets one more start
+    expect(seen[0]).toBe(2);
+    expect(server.requests).toHaveLength(4);
+    await expect(client.batch([{ messages: 'Hi' }], { concurrency: 0 })).rejects.toThrow(
+      'Batch concurrency must be a positive integer'
+    );
+    await expect(
+      client.batch([
+        { id: 'x', messages: 'Hi' },
+        { id: 'x', messages: 'Hi' }
+      ])
+    ).rejects.toThrow('Duplicate batch item ID x');
+  });
+
+  test('should skip the remaining items after an error when stopOnError is set', async () => {
+    const server = createMockHustleServer({
+      responses: [{ status: 500, body: 'boom' }, { chunks: ['0:"ok"', finish] }]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const results = await client.batch(
+      [{ messages: 'One' }, { messages: 'Two' }, { messages: 'Three' }],
+      { concurrency: 1, stopOnError: true }
+    );
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'skipped', 'skipped']);
+    expect(results[1]?.id).toBe('1');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  test('should stop sending when the checkpoint cannot be saved', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: ['0:"fast"', finish] },
+        { chunks: ['0:"slow"'], delayMs: 50, error: new Error('Connection reset'), failAfter: 1 },
+        { chunks: ['0:"never"', finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const checkpoint = {
+      load: async () => null,
+      save: async () => {
+        throw new Error('Disk full');
+      }
+    };
+
+    await expect(
+      client.batch(
+        ['1', '2', '3', '4'].map(messages => ({ messages })),
+        { concurrency: 2, checkpoint }
+      )
+    ).rejects.toThrow('Disk full');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    // The slow chat was aborted, and no further items started even though it failed
+    expect(server.requests).toHaveLength(2);
+  });
+
+  test('should resume from a checkpoint file', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'hustle-batch-'));
+    const checkpoint = join(directory, 'batch.json');
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: ['0:"one"', finish] },
+        { status: 500, body: 'boom' },
+        { chunks: ['0:"two"', finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const items = [
+      { id: 'one', messages: 'One' },
+      { id: 'two', messages: 'Two' }
+    ];
+
+    const first = await client.batch(items, { concurrency: 1, checkpoint });
+    expect(first.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    const saved = JSON.parse(await readFile(checkpoint, 'utf8'));
+    expect(Object.keys(saved.responses)).toEqual(['one']);
+
+    const second = await client.batch(items, { concurrency: 1, checkpoint });
+
+    expect(second[0]).toMatchObject({
+      status: 'fulfilled',
+      resumed: true,
+      response: { content: 'one' }
+    });
+    expect(second[1]).toMatchObject({
+      status: 'fulfilled',
+      resumed: false,
+      response: { content: 'two' }
+    });
+    expect(server.requests).toHaveLength(3);
+    expect(server.requests[2]?.body.messages).toEqual([{ role: 'user', content: 'Two' }]);
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, test, expect, vi } from 'vitest';
-import { HustleIncognitoClient } from '../src';
-import type { ProcessedResponse, StreamChunk, RawChunk } from '../src/types';
+import { HustleIncognitoClient, createDataStreamResponse } from '../src';
+import type {
+  ProcessedResponse,
+  StreamChunk,
+  RawChunk,
+  Transport,
+  TransportRequest
+} from '../src/types';
 
 describe('HustleIncognitoClient', () => {
   test('should initialize with required API key', () => {
@@ -38,7 +44,7 @@ describe('HustleIncognitoClient', () => {
     });
     
     expect(requestBody).toEqual({
-      id: 'chat-test-vault',
+      id: expect.stringMatching(/^chat-/),
       messages: [{ role: 'user', content: 'Hello' }],
       apiKey: 'test-key',
       vaultId: 'test-vault',
@@ -50,9 +56,28 @@ describe('HustleIncognitoClient', () => {
     });
   });
 
-  test('should use override function when provided', async () => {
-    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
-    const mockResponse: ProcessedResponse = {
+  test('should let transport middleware answer instead of the API', async () => {
+    const fetchMock = vi.fn();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      transportMiddleware: [
+        async () =>
+          createDataStreamResponse([
+            '0:"Mocked response"',
+            'f:{"messageId":"mock-id"}',
+            '9:{"toolCallId":"tool1","toolName":"test-tool","args":{"param":"value"}}'
+          ])
+      ]
+    });
+    
+    const result = await client.chat(
+      [{ role: 'user', content: 'Hello' }],
+      { vaultId: 'test-vault' }
+    ) as ProcessedResponse;
+    
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result).toEqual({
       content: 'Mocked response',
       messageId: 'mock-id',
       toolCalls: [
@@ -61,22 +86,7 @@ describe('HustleIncognitoClient', () => {
       usage: null,
       pathInfo: null,
       toolResults: []
-    };
-    
-    const overrideFunc = vi.fn().mockResolvedValue(mockResponse);
-    
-    const result = await client.chat(
-      [{ role: 'user', content: 'Hello' }],
-      { vaultId: 'test-vault' },
-      overrideFunc
-    );
-    
-    expect(overrideFunc).toHaveBeenCalledWith('test-key', {
-      messages: [{ role: 'user', content: 'Hello' }],
-      vaultId: 'test-vault'
     });
-    
-    expect(result).toEqual(mockResponse);
   });
 
   test('should properly parse tool calls from stream chunks', async () => {
@@ -122,48 +132,51 @@ describe('HustleIncognitoClient', () => {
     expect(response.toolResults[0].toolCallId).toBe('tool123');
   });
 
-  test('should use override function in chatStream method', async () => {
-    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
-    
-    // Create mock stream chunks
-    const mockStreamChunks: StreamChunk[] = [
-      { type: 'text', value: 'Hello' },
-      { type: 'text', value: ' world' },
-      { type: 'finish', value: { reason: 'stop', usage: { promptTokens: 10, completionTokens: 5 } } }
-    ];
-    
-    // Create a generator function that yields the mock chunks
-    const mockGenerator = async function* () {
-      for (const chunk of mockStreamChunks) {
-        yield chunk;
+  test('should let transport middleware change requests and responses', async () => {
+    const seen: TransportRequest[] = [];
+    const transport: Transport = {
+      send: async request => {
+        seen.push(request);
+        return createDataStreamResponse(['0:"Hello"', '0:" world"']);
       }
     };
+    const requestIds: (string | undefined)[] = [];
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      transport,
+      hooks: { onResponse: event => requestIds.push(event.requestId) },
+      transportMiddleware: [
+        // Outermost: sees the response last
+        async (request, next) => {
+          const response = await next(request);
+          return { ...response, headers: new Headers({ 'x-request-id': 'req-1' }) };
+        },
+        async (request, next) =>
+          next({ ...request, headers: { ...request.headers, 'X-Trace': 'trace-1' } })
+      ]
+    });
     
-    // Create a mock override function that returns the generator
-    const overrideFunc = vi.fn().mockImplementation(() => mockGenerator());
-    
-    // Collect the streamed chunks
     const receivedChunks: StreamChunk[] = [];
     for await (const chunk of client.chatStream({
       vaultId: 'test-vault',
-      messages: [{ role: 'user', content: 'Hello' }],
-      processChunks: true
-    }, overrideFunc)) {
+      messages: [{ role: 'user', content: 'Hello' }]
+    })) {
       receivedChunks.push(chunk as StreamChunk);
     }
     
-    // Verify the override function was called with the correct parameters
-    expect(overrideFunc).toHaveBeenCalledWith('test-key', {
-      vaultId: 'test-vault',
-      messages: [{ role: 'user', content: 'Hello' }],
-      processChunks: true
+    expect(seen).toHaveLength(1);
+    expect(seen[0]).toMatchObject({
+      url: 'https://agenthustle.ai/api/chat',
+      method: 'POST',
+      attempt: 1,
+      headers: { 'X-Trace': 'trace-1' },
+      body: { vaultId: 'test-vault', apiKey: 'test-key' }
     });
-    
-    // Verify we received all the mock chunks
-    expect(receivedChunks).toHaveLength(mockStreamChunks.length);
-    expect(receivedChunks[0]).toEqual(mockStreamChunks[0]);
-    expect(receivedChunks[1]).toEqual(mockStreamChunks[1]);
-    expect(receivedChunks[2]).toEqual(mockStreamChunks[2]);
+    expect(receivedChunks).toEqual([
+      { type: 'text', value: 'Hello' },
+      { type: 'text', value: ' world' }
+    ]);
+    expect(requestIds).toEqual(['req-1']);
   });
 
   test('should process different chunk types correctly in chatStream', async () => {
@@ -256,7 +269,8 @@ describe('HustleIncognitoClient', () => {
       type: 'finish', 
       value: { 
         reason: 'stop', 
-        usage: { promptTokens: 10, completionTokens: 5 } 
+        usage: { promptTokens: 10, completionTokens: 5 },
+        scope: 'step'
       } 
     });
   });
@@ -296,6 +310,101 @@ describe('HustleIncognitoClient', () => {
     expect(receivedChunks[1]).toEqual(mockRawChunks[1]);
   });
 
+  test('should run onToolCall and send results back until no tool calls remain', async () => {
+    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
+    const requests: any[] = [];
+
+    // First response asks for a client-side tool, second one answers
+    const mockRawStream = async function* (options: any) {
+      requests.push(options);
+      if (requests.length === 1) {
+        yield { prefix: '0', data: 'Checking', raw: '0:"Checking"' };
+        yield {
+          prefix: '9',
+          data: { toolCallId: 'call1', toolName: 'price-feed', args: { symbol: 'SOL' } },
+          raw: '9:{"toolCallId":"call1","toolName":"price-feed","args":{"symbol":"SOL"}}'
+        };
+      } else {
+        yield { prefix: '0', data: ' SOL is 150', raw: '0:" SOL is 150"' };
+      }
+    };
+
+    // @ts-ignore - Mocking private method
+    client.rawStream = mockRawStream;
+
+    const onToolCall = vi.fn().mockResolvedValue([{ tool_call_id: 'call1', result: { price: 150 } }]);
+
+    const response = await client.chat(
+      [{ role: 'user', content: 'Price of SOL?' }],
+      { vaultId: 'test', onToolCall }
+    ) as ProcessedResponse;
+
+    expect(onToolCall).toHaveBeenCalledTimes(1);
+    expect(onToolCall).toHaveBeenCalledWith([
+      { id: 'call1', name: 'price-feed', arguments: { symbol: 'SOL' } }
+    ]);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].messages).toEqual([
+      { role: 'user', content: 'Price of SOL?' },
+      {
+        role: 'assistant',
+        content: 'Checking',
+        toolInvocations: [{
+          state: 'result',
+          toolCallId: 'call1',
+          toolName: 'price-feed',
+          args: { symbol: 'SOL' },
+          result: { price: 150 }
+        }]
+      }
+    ]);
+    expect(response.content).toBe('Checking SOL is 150');
+    expect(response.toolResults).toEqual([{ tool_call_id: 'call1', result: { price: 150 } }]);
+  });
+
+  test('should not call onToolCall for tools resolved by the server', async () => {
+    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
+
+    const mockRawStream = async function* () {
+      yield { prefix: '9', data: { toolCallId: 'tool123', toolName: 'rugcheck', args: {} }, raw: '' };
+      yield { prefix: 'a', data: { toolCallId: 'tool123', result: { ok: true } }, raw: '' };
+    };
+
+    // @ts-ignore - Mocking private method
+    client.rawStream = mockRawStream;
+
+    const onToolCall = vi.fn().mockResolvedValue([]);
+    await client.chat([{ role: 'user', content: 'Test' }], { vaultId: 'test', onToolCall });
+
+    expect(onToolCall).not.toHaveBeenCalled();
+  });
+
+  test('should stop the tool loop after maxToolIterations', async () => {
+    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
+
+    const mockRawStream = async function* () {
+      yield { prefix: '9', data: { toolCallId: 'loop', toolName: 'again', args: {} }, raw: '' };
+    };
+
+    // @ts-ignore - Mocking private method
+    client.rawStream = mockRawStream;
+
+    const onToolCall = vi.fn().mockResolvedValue([{ tool_call_id: 'loop', result: null }]);
+    const stream = client.chatStream({
+      vaultId: 'test',
+      messages: [{ role: 'user', content: 'Test' }],
+      onToolCall,
+      maxToolIterations: 2
+    });
+
+    await expect(async () => {
+      for await (const _chunk of stream) {
+        // drain
+      }
+    }).rejects.toThrow('Exceeded maximum tool iterations (2)');
+    expect(onToolCall).toHaveBeenCalledTimes(2);
+  });
+
   test('should enable debug mode when specified', () => {
     // Mock console.log to verify debug output
     const originalConsoleLog = console.log;
@@ -0,0 +1,117 @@
+import { describe, test, expect } from 'vitest';
+import { HustleIncognitoClient, Conversation } from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { StreamChunk } from '../src/types';
+
+describe('Conversation', () => {
+  test('should keep history and settings between messages', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        {
+          chunks: [
+            '0:"Hi there"',
+            'f:{"messageId":"asst-1"}',
+            '2:[{"type":"path_info","path":"PATH_1"}]'
+          ]
+        },
+        { chunks: ['0:"Sure"'] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const conversation = client.createConversation({
+      vaultId: 'vault-1',
+      externalWalletAddress: 'wallet-1',
+      slippageSettings: { swapSlippage: 1 }
+    });
+    expect(conversation).toBeInstanceOf(Conversation);
+
+    const first = await conversation.send('Hello');
+    expect(first.content).toBe('Hi there');
+    expect(first.messageId).toBe('asst-1');
+    expect(conversation.currentPath).toBe('PATH_1');
+
+    await conversation.send('Swap please');
+
+    server.assertRequest(1, {
+      vaultId: 'vault-1',
+      externalWalletAddress: 'wallet-1',
+      slippageSettings: { swapSlippage: 1, lpSlippage: 5, pumpSlippage: 5 },
+      currentPath: 'PATH_1'
+    });
+    expect(server.requests[1]?.body.messages.map(m => [m.role, m.content])).toEqual([
+      ['user', 'Hello'],
+      ['assistant', 'Hi there'],
+      ['user', 'Swap please']
+    ]);
+
+    const transcript = conversation.messages;
+    expect(transcript).toHaveLength(4);
+    expect(transcript[1].id).toBe('asst-1');
+    expect(transcript[3]).toMatchObject({ role: 'assistant', content: 'Sure' });
+  });
+
+  test('should record completed tool invocations on the assistant message', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        {
+          chunks: [
+            { prefix: '9', data: { toolCallId: 't1', toolName: 'rugcheck', args: { mint: 'abc' } } },
+            { prefix: 'a', data: { toolCallId: 't1', result: { score: 1 } } },
+            '0:"Looks safe"'
+          ]
+        }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const conversation = client.createConversation({ vaultId: 'vault-1' });
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of conversation.stream('Check abc')) chunks.push(chunk);
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['tool_call', 'tool_result', 'text']);
+    expect(conversation.messages[1]).toMatchObject({
+      role: 'assistant',
+      content: 'Looks safe',
+      toolInvocations: [
+        { state: 'result', toolCallId: 't1', toolName: 'rugcheck', args: { mint: 'abc' }, result: { score: 1 } }
+      ]
+    });
+  });
+
+  test('should leave the transcript unchanged when a request fails', async () => {
+    const server = createMockHustleServer({ responses: [{ error: new Error('offline') }] });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const conversation = client.createConversation({ vaultId: 'vault-1' });
+    await expect(conversation.send('Hello')).rejects.toThrow('offline');
+    expect(conversation.messages).toEqual([]);
+  });
+
+  test('should fork from an earlier message', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: ['0:"One"', '2:[{"type":"path_info","path":"PATH_1"}]'] },
+        { chunks: ['0:"Two"', '2:[{"type":"path_info","path":"PATH_2"}]'] },
+        { chunks: ['0:"Alt"'] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const conversation = client.createConversation({ vaultId: 'vault-1' });
+    await conversation.send('first');
+    await conversation.send('second');
+
+    const fork = conversation.fork(conversation.messages[1].id as string);
+    expect(fork.id).not.toBe(conversation.id);
+    expect(fork.currentPath).toBe('PATH_1');
+    expect(fork.messages.map(m => m.content)).toEqual(['first', 'One']);
+
+    await fork.send('other');
+    server.assertRequest(2, { currentPath: 'PATH_1' });
+    expect(conversation.messages).toHaveLength(4);
+    expect(fork.messages).toHaveLength(4);
+
+    expect(() => conversation.fork('missing')).toThrow('Message not found');
+  });
+});
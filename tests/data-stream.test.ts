@@ -0,0 +1,94 @@
+import { describe, test, expect, vi } from 'vitest';
+import { HustleIncognitoClient, parseDataStream } from '../src';
+import type { RawChunk } from '../src/types';
+
+// Build a byte stream that delivers the given pieces as separate reads
+function streamOf(pieces: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const piece of pieces) controller.enqueue(piece);
+      controller.close();
+    }
+  });
+}
+
+// Split bytes into reads of a fixed size
+function chunked(bytes: Uint8Array, size: number): Uint8Array[] {
+  const pieces: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    pieces.push(bytes.slice(i, i + size));
+  }
+  return pieces;
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<RawChunk[]> {
+  const chunks: RawChunk[] = [];
+  for await (const chunk of parseDataStream(stream)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+const body =
+  '0:"Hello "\n' +
+  '0:"wörld 🚀"\n' +
+  '9:{"toolCallId":"tool123","toolName":"test-tool","args":{"param":"value"}}\n' +
+  'f:{"messageId":"msg123"}\n' +
+  'e:{"finishReason":"stop"}\n';
+
+describe('parseDataStream', () => {
+  test('should parse lines split at every possible byte boundary', async () => {
+    const bytes = new TextEncoder().encode(body);
+    const expected = await collect(streamOf([bytes]));
+
+    expect(expected).toHaveLength(5);
+    expect(expected[1]).toEqual({ prefix: '0', data: 'wörld 🚀', raw: '0:"wörld 🚀"' });
+
+    for (const size of [1, 2, 3, 5, 7, 13]) {
+      expect(await collect(streamOf(chunked(bytes, size)))).toEqual(expected);
+    }
+  });
+
+  test('should flush a final line without a trailing newline', async () => {
+    const bytes = new TextEncoder().encode('0:"a"\r\ne:{"finishReason":"stop"}');
+    const chunks = await collect(streamOf(chunked(bytes, 4)));
+
+    expect(chunks).toEqual([
+      { prefix: '0', data: 'a', raw: '0:"a"' },
+      { prefix: 'e', data: { finishReason: 'stop' }, raw: 'e:{"finishReason":"stop"}' }
+    ]);
+  });
+
+  test('should cancel the stream when the consumer stops early', async () => {
+    const cancel = vi.fn();
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode('0:"tick"\n'));
+      },
+      cancel
+    });
+
+    for await (const _chunk of parseDataStream(stream)) {
+      break;
+    }
+
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  test('should be used by rawStream for fetch responses', async () => {
+    const bytes = new TextEncoder().encode(body);
+    const fetchMock = vi.fn().mockResolvedValue(new Response(streamOf(chunked(bytes, 3))));
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+
+    const chunks: RawChunk[] = [];
+    for await (const chunk of client.rawStream({
+      vaultId: 'test-vault',
+      messages: [{ role: 'user', content: 'Hello' }]
+    })) {
+      chunks.push(chunk);
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(chunks.map(chunk => chunk.prefix)).toEqual(['0', '0', '9', 'f', 'e']);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  HustleIncognitoClient,
+  HustleError,
+  AuthenticationError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  StreamParseError,
+  ToolExecutionError
+} from '../src';
+
+async function drain(stream: AsyncIterable<unknown>): Promise<void> {
+  for await (const _chunk of stream) {
+    // drain
+  }
+}
+
+function clientWithResponse(response: Response | Error) {
+  const fetchMock =
+    response instanceof Error
+      ? vi.fn().mockRejectedValue(response)
+      : vi.fn().mockResolvedValue(response);
+  return new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+}
+
+const options = { vaultId: 'vault-1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+describe('error hierarchy', () => {
+  test('should throw AuthenticationError with response details on 401', async () => {
+    const client = clientWithResponse(
+      new Response('{"error":"bad key"}', {
+        status: 401,
+        statusText: 'Unauthorized',
+        headers: { 'x-request-id': 'req-1' }
+      })
+    );
+
+    const error = await drain(client.rawStream(options)).catch(e => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toBeInstanceOf(HustleError);
+    expect(error.message).toBe('HTTP error: 401 Unauthorized');
+    expect(error.status).toBe(401);
+    expect(error.responseBody).toBe('{"error":"bad key"}');
+    expect(error.details).toEqual({ error: 'bad key' });
+    expect(error.requestId).toBe('req-1');
+    expect(error.vaultId).toBe('vault-1');
+  });
+
+  test('should throw RateLimitError with retry-after on 429', async () => {
+    const client = clientWithResponse(
+      new Response('slow down', { status: 429, headers: { 'retry-after': '3' } })
+    );
+
+    const error = await drain(client.rawStream(options)).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  test('should throw ServerError on 5xx', async () => {
+    const client = clientWithResponse(new Response('oops', { status: 502 }));
+    await expect(drain(client.rawStream(options))).rejects.toBeInstanceOf(ServerError);
+  });
+
+  test('should wrap fetch failures in NetworkError', async () => {
+    const cause = new TypeError('fetch failed');
+    const client = clientWithResponse(cause);
+
+    const error = await drain(client.rawStream(options)).catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.cause).toBe(cause);
+    expect(error.vaultId).toBe('vault-1');
+  });
+
+  test('should throw StreamParseError on malformed lines', async () => {
+    const client = clientWithResponse(new Response('0:"ok"\n<html>\n'));
+
+    const error = await drain(client.rawStream(options)).catch(e => e);
+
+    expect(error).toBeInstanceOf(StreamParseError);
+    expect(error.line).toBe('<html>');
+    expect(error.vaultId).toBe('vault-1');
+  });
+
+  test('should wrap onToolCall failures in ToolExecutionError', async () => {
+    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
+
+    // @ts-ignore - Mocking private method
+    client.rawStream = async function* () {
+      yield { prefix: '9', data: { toolCallId: 'c1', toolName: 'broken', args: {} }, raw: '' };
+    };
+
+    const error = await client
+      .chat([{ role: 'user', content: 'Hi' }], {
+        vaultId: 'vault-1',
+        onToolCall: async () => {
+          throw new Error('boom');
+        }
+      })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.toolCalls).toEqual([{ id: 'c1', name: 'broken', arguments: {} }]);
+    expect(error.cause.message).toBe('boom');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  HustleIncognitoClient,
+  LastTurnsStrategy,
+  TokenBudgetStrategy,
+  SummarizeStrategy,
+  approximateTokenCount
+} from '../src';
+import type { ChatMessage, HistoryContext } from '../src/types';
+
+// Builds a history of n user/assistant turns after a system prompt
+function history(turns: number): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: 'system', content: 'You are Hustle' }];
+  for (let i = 1; i <= turns; i++) {
+    messages.push({ role: 'user', content: `question ${i}` });
+    messages.push({ role: 'assistant', content: `answer ${i}` });
+  }
+  return messages;
+}
+
+const context = (summarize = vi.fn()): HistoryContext => ({ vaultId: 'vault-1', summarize });
+
+describe('history strategies', () => {
+  test('LastTurnsStrategy should keep the last N turns and pin system messages', () => {
+    const result = new LastTurnsStrategy(2).apply(history(5));
+
+    expect(result.map(m => m.content)).toEqual([
+      'You are Hustle',
+      'question 4',
+      'answer 4',
+      'question 5',
+      'answer 5'
+    ]);
+  });
+
+  test('TokenBudgetStrategy should drop the oldest turns to fit the budget', () => {
+    const messages = history(10);
+    const full = approximateTokenCount(messages);
+    const budget = approximateTokenCount(new LastTurnsStrategy(3).apply(messages));
+
+    const result = new TokenBudgetStrategy({ maxTokens: budget }).apply(messages);
+
+    expect(approximateTokenCount(result)).toBeLessThanOrEqual(budget);
+    expect(budget).toBeLessThan(full);
+    expect(result[0].role).toBe('system');
+    expect(result.map(m => m.content).slice(-2)).toEqual(['question 10', 'answer 10']);
+  });
+
+  test('TokenBudgetStrategy should always keep the latest turn', () => {
+    const result = new TokenBudgetStrategy({ maxTokens: 1 }).apply(history(3));
+    expect(result.map(m => m.content)).toEqual(['You are Hustle', 'question 3', 'answer 3']);
+  });
+
+  test('SummarizeStrategy should replace older turns with a summary', async () => {
+    const summarize = vi.fn().mockResolvedValue(' Talked about SOL. ');
+    const strategy = new SummarizeStrategy({ keepTurns: 2, triggerTurns: 3 });
+
+    expect(await strategy.apply(history(3), context(summarize))).toEqual(history(3));
+    expect(summarize).not.toHaveBeenCalled();
+
+    const result = await strategy.apply(history(5), context(summarize));
+    expect(result.map(m => m.content)).toEqual([
+      'You are Hustle',
+      'Summary of the earlier conversation: Talked about SOL.',
+      'question 4',
+      'answer 4',
+      'question 5',
+      'answer 5'
+    ]);
+    expect(summarize.mock.calls[0][0].map((m: ChatMessage) => m.content)).toEqual([
+      'question 1',
+      'answer 1',
+      'question 2',
+      'answer 2',
+      'question 3',
+      'answer 3'
+    ]);
+
+    // Same history again is served from the cache
+    await strategy.apply(history(5), context(summarize));
+    expect(summarize).toHaveBeenCalledTimes(1);
+
+    // A longer history only summarizes the new turn on top of the previous summary
+    await strategy.apply(history(6), context(summarize));
+    expect(summarize.mock.calls[1][0].map((m: ChatMessage) => m.content)).toEqual([
+      'Summary so far: Talked about SOL.',
+      'question 4',
+      'answer 4'
+    ]);
+  });
+
+  test('should apply the client strategy before each request and summarize via the agent', async () => {
+    const requests: any[] = [];
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: any) => {
+      requests.push(JSON.parse(init.body));
+      return new Response(requests.length === 1 ? '0:"Summary text"\n' : '0:"Answer"\n');
+    });
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      historyStrategy: new SummarizeStrategy({ keepTurns: 1, triggerTurns: 1 })
+    });
+
+    const response = await client.chat(history(2).slice(1), { vaultId: 'vault-1' });
+
+    expect(requests).toHaveLength(2);
+    // The summary request carries the older turn and the summary prompt
+    expect(requests[0].messages.map((m: any) => m.content).slice(0, 2)).toEqual([
+      'question 1',
+      'answer 1'
+    ]);
+    expect(requests[1].messages.map((m: any) => m.content)).toEqual([
+      'Summary of the earlier conversation: Summary text',
+      'question 2',
+      'answer 2'
+    ]);
+    expect((response as any).content).toBe('Answer');
+  });
+
+  test('should send the full history when the per-call strategy is null', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('0:"ok"\n'));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      historyStrategy: new LastTurnsStrategy(1)
+    });
+
+    await client.chat(history(3), { vaultId: 'vault-1', historyStrategy: null });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages).toHaveLength(7);
+
+    await client.chat(history(3), { vaultId: 'vault-1' });
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).messages).toHaveLength(3);
+  });
+});
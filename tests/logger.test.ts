@@ -0,0 +1,191 @@
+import { describe, test, expect, vi } from 'vitest';
+import { HustleIncognitoClient, createConsoleLogger, redact, REDACTED } from '../src';
+import type { Logger, RawChunk } from '../src/types';
+
+const options = { vaultId: 'vault-1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+async function collect(stream: AsyncIterable<RawChunk>): Promise<RawChunk[]> {
+  const chunks: RawChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+function recordingLogger() {
+  const entries: { level: string; message: string; fields?: any }[] = [];
+  const logger: Logger = {
+    debug: (message, fields) => entries.push({ level: 'debug', message, fields }),
+    info: (message, fields) => entries.push({ level: 'info', message, fields }),
+    warn: (message, fields) => entries.push({ level: 'warn', message, fields }),
+    error: (message, fields) => entries.push({ level: 'error', message, fields })
+  };
+  return { logger, entries };
+}
+
+describe('redact', () => {
+  test('should mask sensitive keys and known secrets', () => {
+    const value = {
+      apiKey: 'key-1',
+      headers: { 'X-User-Secret': 'shh', Cookie: 'session=1', 'Content-Type': 'application/json' },
+      message: 'failed for key super-secret-key',
+      usage: { promptTokens: 3 }
+    };
+
+    const redacted = redact(value, ['super-secret-key']);
+
+    expect(redacted).toEqual({
+      apiKey: REDACTED,
+      headers: { 'X-User-Secret': REDACTED, Cookie: REDACTED, 'Content-Type': 'application/json' },
+      message: `failed for key ${REDACTED}`,
+      usage: { promptTokens: 3 }
+    });
+    expect(value.apiKey).toBe('key-1');
+  });
+
+  test('should handle errors and circular references', () => {
+    const circular: any = { name: 'loop' };
+    circular.self = circular;
+    const shared = { id: 1 };
+
+    expect(redact({ circular, a: shared, b: shared })).toEqual({
+      circular: { name: 'loop', self: '[Circular]' },
+      a: { id: 1 },
+      b: { id: 1 }
+    });
+    expect(redact(new Error('token abcd1234 rejected'), ['abcd1234'])).toMatchObject({
+      name: 'Error',
+      message: `token ${REDACTED} rejected`
+    });
+  });
+});
+
+describe('logging', () => {
+  test('should send structured, redacted fields to the logger', async () => {
+    const { logger, entries } = recordingLogger();
+    const client = new HustleIncognitoClient({
+      apiKey: 'secret-api-key',
+      userKey: 'user-key-1',
+      userSecret: 'user-secret-1',
+      cookie: 'session=abc',
+      logger,
+      fetch: vi.fn().mockResolvedValue(new Response('0:"ok"\n'))
+    });
+
+    await collect(client.rawStream(options));
+
+    const serialized = JSON.stringify(entries);
+    expect(serialized).not.toContain('secret-api-key');
+    expect(serialized).not.toContain('user-secret-1');
+    expect(serialized).not.toContain('session=abc');
+    const request = entries.find(entry => entry.message === 'Making POST request');
+    expect(request?.fields).toMatchObject({
+      vaultId: 'vault-1',
+      attempt: 1,
+      headers: { 'X-User-Secret': REDACTED, Cookie: REDACTED }
+    });
+    expect(entries.find(entry => entry.message === 'Prepared request body')?.fields.body.apiKey).toBe(
+      REDACTED
+    );
+  });
+
+  test('should log nothing without a logger or debug', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      const client = new HustleIncognitoClient({
+        apiKey: 'test-key',
+        fetch: vi.fn().mockResolvedValue(new Response('0:"ok"\n'))
+      });
+      await collect(client.rawStream(options));
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  test('should filter console output by level', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const logger = createConsoleLogger('warn');
+      logger.debug('hidden');
+      logger.info('hidden');
+      logger.warn('shown', { attempt: 2 });
+
+      expect(log).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]?.[0]).toMatch(/\] shown$/);
+      expect(warn.mock.calls[0]?.[1]).toBe('{"attempt":2}');
+    } finally {
+      log.mockRestore();
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('lifecycle hooks', () => {
+  test('should report a request from start to finish', async () => {
+    const events: [string, any][] = [];
+    const record = (name: string) => (event: any) => events.push([name, event]);
+    const client = new HustleIncognitoClient({
+      apiKey: 'secret-api-key',
+      fetch: vi
+        .fn()
+        .mockResolvedValue(
+          new Response('0:"Hello"\n0:" there"\n', { headers: { 'x-request-id': 'req-1' } })
+        ),
+      hooks: {
+        onRequest: record('request'),
+        onResponse: record('response'),
+        onChunk: record('chunk'),
+        onError: record('error'),
+        onFinish: record('finish')
+      }
+    });
+
+    await collect(client.rawStream(options));
+
+    expect(events.map(([name]) => name)).toEqual(['request', 'response', 'chunk', 'chunk', 'finish']);
+    expect(events[0]?.[1]).toMatchObject({ vaultId: 'vault-1', attempt: 1 });
+    expect(events[0]?.[1].body.apiKey).toBe(REDACTED);
+    expect(events[1]?.[1]).toMatchObject({ status: 200, requestId: 'req-1' });
+    expect(events[3]?.[1]).toMatchObject({ index: 1, chunk: { prefix: '0', data: ' there' } });
+    expect(events[4]?.[1]).toMatchObject({ attempts: 1, chunkCount: 2 });
+  });
+
+  test('should report failed attempts and whether they will be retried', async () => {
+    const errors: any[] = [];
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: vi.fn().mockResolvedValue(new Response('unavailable', { status: 503 })),
+      retry: { maxAttempts: 2, initialDelayMs: 1, jitter: false },
+      hooks: { onError: event => errors.push(event) }
+    });
+
+    await expect(collect(client.rawStream(options))).rejects.toThrow('503');
+
+    expect(errors.map(event => [event.attempt, event.willRetry])).toEqual([
+      [1, true],
+      [2, false]
+    ]);
+  });
+
+  test('should keep going when a hook throws', async () => {
+    const { logger, entries } = recordingLogger();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      logger,
+      fetch: vi.fn().mockResolvedValue(new Response('0:"ok"\n')),
+      hooks: {
+        onChunk: () => {
+          throw new Error('telemetry down');
+        }
+      }
+    });
+
+    const chunks = await collect(client.rawStream(options));
+
+    expect(chunks).toHaveLength(1);
+    expect(entries.find(entry => entry.level === 'warn')?.message).toBe(
+      'The onChunk hook threw an error'
+    );
+  });
+});
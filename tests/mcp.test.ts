@@ -0,0 +1,224 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { spawn } from 'node:child_process';
+import { mkdir, mkdtemp, readdir, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative, resolve } from 'node:path';
+import ts from 'typescript';
+import { HustleIncognitoClient, MemoryConversationStore } from '../src';
+import {
+  createHustleMcpServer,
+  setHustleMcpContext,
+  HustleChatTool,
+  HustleStreamSummaryTool,
+  HustleListConversationsTool
+} from '../src/mcp';
+import { createMockHustleServer } from '../src/testing';
+
+// Compiles src to plain JavaScript, the way the package ships it, without type checking
+async function compileSources(outDir: string) {
+  const root = resolve('src');
+  const walk = async (dir: string): Promise<string[]> =>
+    (
+      await Promise.all(
+        (await readdir(dir, { withFileTypes: true })).map(entry =>
+          entry.isDirectory() ? walk(join(dir, entry.name)) : [join(dir, entry.name)]
+        )
+      )
+    ).flat();
+  for (const file of await walk(root)) {
+    if (!file.endsWith('.ts')) continue;
+    const { outputText } = ts.transpileModule(await readFile(file, 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 }
+    });
+    const target = join(outDir, relative(root, file)).replace(/\.ts$/, '.js');
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, outputText);
+  }
+}
+
+// Sends JSON-RPC requests over stdio and resolves with the response to the last one
+function requestOverStdio(command: string, cwd: string, messages: object[]) {
+  const child = spawn(process.execPath, [command], {
+    cwd,
+    env: { ...process.env, HUSTLE_API_KEY: 'test-key', MCP_TRANSPORT: 'stdio' },
+    stdio: ['pipe', 'pipe', 'pipe']
+  });
+  let stdout = '';
+  let stderr = '';
+  return new Promise<any>((resolvePromise, reject) => {
+    const lastId = (messages[messages.length - 1] as { id?: number }).id;
+    child.stdout.on('data', data => {
+      stdout += data;
+      for (const line of stdout.split('\n')) {
+        if (!line.trim()) continue;
+        const message = JSON.parse(line);
+        if (message.id === lastId) resolvePromise(message);
+      }
+    });
+    child.stderr.on('data', data => (stderr += data));
+    child.on('exit', code => reject(new Error(`Server exited with ${code}: ${stderr}`)));
+    for (const message of messages) child.stdin.write(`${JSON.stringify(message)}\n`);
+  }).finally(() => child.kill());
+}
+
+async function callTool(tool: any, args: Record<string, unknown>) {
+  const response = await tool.toolCall({ params: { name: tool.name, arguments: args } });
+  const content = response.content[0];
+  return content.type === 'text' ? JSON.parse(content.text) : content;
+}
+
+describe('MCP server', () => {
+  let store: MemoryConversationStore;
+  let directory: string | undefined;
+
+  beforeEach(() => {
+    store = new MemoryConversationStore();
+  });
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  test('should chat and continue a conversation by id', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"SOL is $100"'] }, { chunks: ['0:"Done"'] }]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    setHustleMcpContext({ client, store, vaultId: 'vault-1', safeMode: true });
+    const tool = new HustleChatTool();
+
+    const first = await callTool(tool, { message: 'Price of SOL?', wallet: 'wallet-1' });
+    expect(first.content).toBe('SOL is $100');
+    expect(first.vaultId).toBe('vault-1');
+
+    const second = await callTool(tool, {
+      message: 'Buy some',
+      conversationId: first.conversationId,
+      slippage: { swapSlippage: 1 }
+    });
+    expect(second.conversationId).toBe(first.conversationId);
+    server.assertRequest(1, {
+      externalWalletAddress: 'wallet-1',
+      slippageSettings: { swapSlippage: 1, lpSlippage: 5, pumpSlippage: 5 },
+      safeMode: true
+    });
+    expect(server.requests[1]?.body.messages.map(m => m.content)).toEqual([
+      'Price of SOL?',
+      'SOL is $100',
+      'Buy some'
+    ]);
+  });
+
+  test('should reject invalid input', async () => {
+    const server = createMockHustleServer();
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    setHustleMcpContext({ client, store, vaultId: 'vault-1' });
+
+    const result = await callTool(new HustleChatTool(), {
+      message: 'Swap',
+      slippage: { swapSlippage: 500 }
+    });
+
+    expect(result.type).toBe('error');
+    expect(server.requests).toHaveLength(0);
+  });
+
+  test('should publish typed input schemas', () => {
+    const schema = new HustleChatTool().inputSchema as any;
+
+    expect(schema.required).toEqual(['message']);
+    expect(schema.properties.safeMode.type).toBe('boolean');
+    expect(schema.properties.slippage.properties.swapSlippage).toEqual({
+      type: 'number',
+      minimum: 0,
+      maximum: 100
+    });
+  });
+
+  test('should summarize a streamed reply', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        {
+          chunks: [
+            'g:"Checking price"',
+            {
+              prefix: '9',
+              data: { toolCallId: 'call-1', toolName: 'price', args: { token: 'SOL' } }
+            },
+            { prefix: 'a', data: { toolCallId: 'call-1', result: 100 } },
+            '0:"SOL is $100"',
+            { prefix: 'd', data: { finishReason: 'stop', usage: { promptTokens: 5 } } }
+          ]
+        }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    setHustleMcpContext({ client, store, vaultId: 'vault-1' });
+
+    const summary = await callTool(new HustleStreamSummaryTool(), { message: 'Price?' });
+
+    expect(summary.content).toBe('SOL is $100');
+    expect(summary.reasoning).toBe('Checking price');
+    expect(summary.toolCalls).toEqual([
+      { id: 'call-1', name: 'price', args: { token: 'SOL' }, result: 100 }
+    ]);
+    expect(summary.usage).toEqual({ promptTokens: 5, completionTokens: 0, totalTokens: 5 });
+    expect(summary.chunkCounts).toMatchObject({ text: 1, tool_call: 1, tool_result: 1 });
+  });
+
+  test('should list conversations for a vault', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"One"'] }, { chunks: ['0:"Two"'] }]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    setHustleMcpContext({ client, store, vaultId: 'vault-1' });
+    const chat = new HustleChatTool();
+    await callTool(chat, { message: 'First' });
+    await callTool(chat, { message: 'Second', vaultId: 'vault-2' });
+
+    const listed = await callTool(new HustleListConversationsTool(), { vaultId: 'vault-2' });
+
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({ vaultId: 'vault-2', messageCount: 2, lastMessage: 'Two' });
+  });
+
+  test('should find its tools when started through a bin symlink from another directory', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'hustle-mcp-'));
+    const packageDir = join(directory, 'package');
+    await compileSources(join(packageDir, 'dist'));
+    await writeFile(join(packageDir, 'package.json'), '{"type":"module"}');
+    await symlink(resolve('node_modules'), join(packageDir, 'node_modules'), 'dir');
+    // npm links bins like this, so the script path differs from the module's real path
+    const bin = join(directory, 'bin', 'hustle-mcp');
+    await mkdir(dirname(bin));
+    await symlink(join(packageDir, 'dist', 'mcp', 'cli.js'), bin);
+    const cwd = join(directory, 'work');
+    await mkdir(cwd);
+
+    const response = await requestOverStdio(bin, cwd, [
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2024-11-05',
+          capabilities: {},
+          clientInfo: { name: 'test', version: '1.0.0' }
+        }
+      },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+    ]);
+
+    expect(response.result.tools.map((tool: { name: string }) => tool.name).sort()).toEqual([
+      'hustle_chat',
+      'hustle_list_conversations',
+      'hustle_stream_summary'
+    ]);
+  }, 30_000);
+
+  test('should require a client or API key', () => {
+    expect(() => createHustleMcpServer()).toThrow('Either client or apiKey is required');
+  });
+});
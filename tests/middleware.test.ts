@@ -0,0 +1,142 @@
+import { describe, test, expect } from 'vitest';
+import { HustleIncognitoClient } from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { ProcessedResponse, StreamChunk } from '../src/types';
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+async function collect(stream: AsyncIterable<unknown>) {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk as StreamChunk);
+  return chunks;
+}
+
+describe('client middleware', () => {
+  test('should run request middleware in order around request preparation', async () => {
+    const server = createMockHustleServer({ responses: [{ chunks: ['0:"Hello"', finish] }] });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const calls: string[] = [];
+
+    client
+      .use({
+        async request(context, next) {
+          calls.push('tracing:before');
+          context.headers['X-Trace-Id'] = 'trace-1';
+          await next();
+          calls.push('tracing:after');
+        }
+      })
+      .use({
+        async request(context, next) {
+          calls.push('tenant:before');
+          context.messages = [
+            { role: 'system', content: 'You work for tenant A' },
+            ...context.messages.filter(message => message.content !== 'ignore me')
+          ];
+          await next();
+          expect(context.body?.messages).toHaveLength(2);
+          if (context.body) context.body.safeMode = false;
+          calls.push('tenant:after');
+        }
+      });
+
+    const response = (await client.chat([...messages, { role: 'user', content: 'ignore me' }], {
+      vaultId: 'vault-1'
+    })) as ProcessedResponse;
+
+    expect(response.content).toBe('Hello');
+    expect(calls).toEqual(['tracing:before', 'tenant:before', 'tenant:after', 'tracing:after']);
+    expect(server.lastRequest?.headers['x-trace-id']).toBe('trace-1');
+    server.assertRequest(0, {
+      safeMode: false,
+      messages: [
+        { role: 'system', content: 'You work for tenant A' },
+        { role: 'user', content: 'Hi' }
+      ]
+    });
+  });
+
+  test('should let chunk middleware rewrite and drop chunks with state from the request', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"Hello"', '0:"secret"', '0:" world"', finish] }]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    client.use({
+      async request(context, next) {
+        context.state.tenant = 'A';
+        await next();
+      },
+      async chunk(context, next) {
+        const chunk = context.chunk;
+        if (chunk && 'type' in chunk && chunk.type === 'text') {
+          context.chunk =
+            chunk.value === 'secret'
+              ? null
+              : { type: 'text', value: `${context.state.tenant}:${chunk.value}` };
+        }
+        await next();
+      }
+    });
+
+    const chunks = await collect(client.chatStream({ vaultId: 'vault-1', messages }));
+
+    expect(chunks.filter(chunk => chunk.type === 'text').map(chunk => chunk.value)).toEqual([
+      'A:Hello',
+      'A: world'
+    ]);
+    expect(chunks[chunks.length - 1]?.type).toBe('finish');
+  });
+
+  test('should not send a request that middleware stops', async () => {
+    const server = createMockHustleServer();
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    client.use({
+      async request(context, next) {
+        if (context.vaultId === 'blocked') return context.stop();
+        await next();
+      }
+    });
+
+    const response = (await client.chat(messages, { vaultId: 'blocked' })) as ProcessedResponse;
+
+    expect(response.content).toBe('');
+    expect(server.requests).toHaveLength(0);
+  });
+
+  test('should end the stream when chunk middleware stops it', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"one"', '0:"STOP"', '0:"two"', finish] }]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    client.use({
+      async chunk(context, next) {
+        if (context.chunk && 'data' in context.chunk && context.chunk.data === 'STOP') {
+          return context.stop();
+        }
+        await next();
+      }
+    });
+
+    const chunks = await collect(client.rawStream({ vaultId: 'vault-1', messages }));
+
+    expect(chunks).toEqual([{ prefix: '0', data: 'one', raw: '0:"one"' }]);
+  });
+
+  test('should reject middleware that calls next more than once', async () => {
+    const server = createMockHustleServer({ responses: [{ chunks: [finish] }] });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    client.use({
+      async request(_context, next) {
+        await next();
+        await next();
+      }
+    });
+
+    await expect(client.chat(messages, { vaultId: 'vault-1' })).rejects.toThrow(
+      'Middleware called next() more than once'
+    );
+  });
+});
@@ -0,0 +1,337 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  HustleIncognitoClient,
+  InMemoryAuditLog,
+  PolicyDeniedError,
+  WalletPolicyGate,
+  classifyWalletAction
+} from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { StreamChunk } from '../src/types';
+
+const messages = [{ role: 'user' as const, content: 'Swap 50 USD of SOL to BONK' }];
+
+const context = { vaultId: 'vault-1' };
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+const swap = {
+  toolCallId: 'call-1',
+  toolName: 'swap',
+  args: { inputMint: 'SOL', outputMint: 'BONK', amountUsd: 50, slippageBps: 150 }
+};
+
+function clientFor(policy: WalletPolicyGate, chunks: unknown[]) {
+  const server = createMockHustleServer({ responses: [{ chunks: chunks as string[] }] });
+  return new HustleIncognitoClient({
+    apiKey: 'test-key',
+    fetch: server.fetch,
+    walletPolicy: policy
+  });
+}
+
+async function collect(stream: AsyncIterable<unknown>) {
+  const chunks: StreamChunk[] = [];
+  try {
+    for await (const chunk of stream) chunks.push(chunk as StreamChunk);
+  } catch (error) {
+    return { chunks, error };
+  }
+  return { chunks, error: undefined };
+}
+
+describe('wallet policy', () => {
+  test('should classify trading and transfer tool calls', () => {
+    expect(classifyWalletAction(swap, context)).toEqual({
+      kind: 'swap',
+      toolName: 'swap',
+      toolCallId: 'call-1',
+      args: swap.args,
+      tokens: ['SOL', 'BONK'],
+      notionalUsd: 50,
+      slippage: 1.5,
+      vaultId: 'vault-1',
+      conversationId: undefined
+    });
+    expect(classifyWalletAction({ ...swap, toolName: 'pumpfun-buy' }, context)?.kind).toBe('pump');
+    expect(classifyWalletAction({ ...swap, toolName: 'add-liquidity' }, context)?.kind).toBe(
+      'liquidity'
+    );
+    expect(classifyWalletAction({ ...swap, toolName: 'transfer-sol' }, context)?.kind).toBe(
+      'transfer'
+    );
+    expect(classifyWalletAction({ ...swap, toolName: 'rugcheck' }, context)).toBeNull();
+    expect(classifyWalletAction({ ...swap, toolName: 'swap' }, context, { swap: null })).toBeNull();
+  });
+
+  test('should stop the stream before a denied tool call and audit the denial', async () => {
+    const auditLog = new InMemoryAuditLog();
+    const policy = new WalletPolicyGate({ denyTokens: ['bonk'], auditLog });
+    const client = clientFor(policy, ['0:"Swapping"', { prefix: '9', data: swap }, finish]);
+
+    const { chunks, error } = await collect(client.chatStream({ vaultId: 'vault-1', messages }));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['text']);
+    expect(error).toBeInstanceOf(PolicyDeniedError);
+    expect(error).toMatchObject({
+      rule: 'denyTokens',
+      message: 'swap was denied: BONK is on the deny list',
+      action: { kind: 'swap', toolCallId: 'call-1' }
+    });
+    expect(auditLog.denials()).toEqual([
+      expect.objectContaining({ outcome: 'denied', rule: 'denyTokens' })
+    ]);
+  });
+
+  test('should apply notional, slippage and allow list rules', async () => {
+    const check = (options: ConstructorParameters<typeof WalletPolicyGate>[0], args: object) =>
+      new WalletPolicyGate(options)
+        .check({ ...swap, args: { ...swap.args, ...args } }, context)
+        .then(
+          () => 'allowed',
+          (error: PolicyDeniedError) => error.rule
+        );
+
+    expect(await check({ maxNotionalUsd: 100 }, {})).toBe('allowed');
+    expect(await check({ maxNotionalUsd: 10 }, {})).toBe('maxNotionalUsd');
+    expect(await check({ maxNotionalUsd: 100 }, { amountUsd: undefined })).toBe('maxNotionalUsd');
+    expect(
+      await check({ maxNotionalUsd: 100, estimateNotionalUsd: () => 20 }, { amountUsd: undefined })
+    ).toBe('allowed');
+    expect(await check({ maxSlippage: 1 }, {})).toBe('maxSlippage');
+    expect(await check({ allowTokens: ['SOL', 'USDC'] }, {})).toBe('allowTokens');
+    expect(await check({ allowKinds: ['transfer'] }, {})).toBe('allowKinds');
+  });
+
+  test('should use the largest value and slippage when several arguments give one', async () => {
+    const action = classifyWalletAction(
+      {
+        ...swap,
+        args: { amountUsd: 5000, priceUsd: 1, slippageBps: 300, slippage: { max: 1 } }
+      },
+      context
+    );
+    expect(action).toMatchObject({ notionalUsd: 5000, slippage: 3 });
+
+    const policy = new WalletPolicyGate({ maxNotionalUsd: 100 });
+    await expect(
+      policy.check({ ...swap, args: { amountUsd: 5000, priceUsd: 1 } }, context)
+    ).rejects.toMatchObject({ rule: 'maxNotionalUsd' });
+  });
+
+  test('should apply unknownTools to tool calls that are not classified', async () => {
+    const bridge = { toolCallId: 'call-9', toolName: 'bridge', args: { amount: 5 } };
+    const approve = vi.fn(async () => true);
+    const tools = { rugcheck: null };
+
+    await expect(new WalletPolicyGate().check(bridge, context)).resolves.toBeUndefined();
+    await expect(
+      new WalletPolicyGate({ unknownTools: 'deny', tools }).check(bridge, context)
+    ).rejects.toMatchObject({
+      rule: 'unknownTools',
+      message: 'bridge was denied: The tool is not known to the policy',
+      action: { kind: 'unknown', toolName: 'bridge' }
+    });
+    await expect(
+      new WalletPolicyGate({ unknownTools: 'deny', tools }).check(
+        { ...bridge, toolName: 'rugcheck' },
+        context
+      )
+    ).resolves.toBeUndefined();
+    await new WalletPolicyGate({ unknownTools: 'approve', approve }).check(bridge, context);
+    expect(approve).toHaveBeenCalledWith(
+      expect.objectContaining({ action: expect.objectContaining({ kind: 'unknown' }) })
+    );
+    expect(() => new WalletPolicyGate({ unknownTools: 'approve' })).toThrow(
+      "unknownTools 'approve' needs an approve function"
+    );
+  });
+
+  test('should find tokens in swap sides and nested arguments', async () => {
+    const check = (options: ConstructorParameters<typeof WalletPolicyGate>[0], args: object) =>
+      new WalletPolicyGate(options).check({ ...swap, args }, context).then(
+        () => 'allowed',
+        (error: PolicyDeniedError) => error.message
+      );
+    const allowTokens = ['USDC', 'SOL'];
+
+    expect(
+      classifyWalletAction({ ...swap, args: { from: 'SOL', to: 'BONK' } }, context)?.tokens
+    ).toEqual(['SOL', 'BONK']);
+    expect(
+      classifyWalletAction(
+        { ...swap, args: { route: [{ inputMint: 'USDC' }, { outputMint: 'SOL' }] } },
+        context
+      )?.tokens
+    ).toEqual(['USDC', 'SOL']);
+    // The recipient of a transfer is not a token
+    expect(
+      classifyWalletAction(
+        { ...swap, toolName: 'transfer', args: { token: 'SOL', to: 'wallet-1' } },
+        context
+      )?.tokens
+    ).toEqual(['SOL']);
+
+    expect(await check({ allowTokens }, { from: 'SOL', to: 'BONK' })).toBe(
+      'swap was denied: BONK is not on the allow list'
+    );
+    expect(await check({ allowTokens }, { from: 'SOL', to: 'USDC' })).toBe('allowed');
+    expect(await check({ allowTokens }, { amount: 5 })).toBe(
+      'swap was denied: The tokens of the action are not known'
+    );
+    expect(await check({ allowTokens, unknownTokens: 'allow' }, { amount: 5 })).toBe('allowed');
+    expect(
+      await check(
+        { allowTokens, unknownTokens: 'approve', approve: async () => false },
+        { amount: 5 }
+      )
+    ).toBe('swap was denied: Approval was refused');
+  });
+
+  test('should deny requests whose slippage settings are above the ceiling', async () => {
+    const server = createMockHustleServer({ responses: [{ chunks: ['0:"ok"', finish] }] });
+    const auditLog = new InMemoryAuditLog();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      slippageProfile: 'aggressive',
+      walletPolicy: new WalletPolicyGate({ maxSlippage: 2, allowKinds: ['swap'], auditLog })
+    });
+
+    await expect(client.chat(messages)).rejects.toMatchObject({
+      name: 'PolicyDeniedError',
+      rule: 'maxSlippage',
+      message: 'request was denied: swapSlippage 10% is above the 2% ceiling'
+    });
+    expect(server.requests).toHaveLength(0);
+    expect(auditLog.denials()).toHaveLength(1);
+
+    // Only the slippage of allowed kinds counts
+    await client.chat(messages, { slippageSettings: { swapSlippage: 2, lpSlippage: 50 } });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  test('should wait for a human approval before the call continues', async () => {
+    const approve = vi.fn(async () => ({ approved: true, approvedBy: 'treasury@example.com' }));
+    const policy = new WalletPolicyGate({ requireApproval: true, approve });
+    const client = clientFor(policy, [{ prefix: '9', data: swap }, finish]);
+
+    const { chunks, error } = await collect(client.chatStream({ vaultId: 'vault-1', messages }));
+
+    expect(error).toBeUndefined();
+    expect(chunks.map(chunk => chunk.type)).toEqual(['tool_call', 'finish']);
+    expect(approve).toHaveBeenCalledWith(
+      expect.objectContaining({ action: expect.objectContaining({ toolName: 'swap' }) })
+    );
+    expect((policy.auditLog as InMemoryAuditLog).entries).toEqual([
+      expect.objectContaining({ outcome: 'allowed', approvedBy: 'treasury@example.com' })
+    ]);
+  });
+
+  test('should deny when the approval times out, including calls assembled from deltas', async () => {
+    let signal: AbortSignal | undefined;
+    const policy = new WalletPolicyGate({
+      requireApproval: action => action.kind === 'transfer',
+      approvalTimeoutMs: 10,
+      approve: request => {
+        signal = request.signal;
+        return new Promise(() => {});
+      }
+    });
+    const client = clientFor(policy, [
+      { prefix: 'b', data: { toolCallId: 'call-2', toolName: 'transfer-sol' } },
+      { prefix: 'c', data: { toolCallId: 'call-2', argsTextDelta: '{"to":"abc"}' } },
+      finish
+    ]);
+
+    const { chunks, error } = await collect(client.chatStream({ vaultId: 'vault-1', messages }));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['tool_call_delta', 'tool_call_delta']);
+    expect(error).toMatchObject({
+      name: 'PolicyDeniedError',
+      rule: 'approval',
+      message: 'transfer-sol was denied: No approval within 10ms'
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('should stop waiting for an approval when the request is aborted or times out', async () => {
+    const signals: AbortSignal[] = [];
+    const policy = new WalletPolicyGate({
+      requireApproval: true,
+      approve: request => {
+        signals.push(request.signal);
+        return new Promise(() => {});
+      }
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const aborted = await collect(
+      clientFor(policy, [{ prefix: '9', data: swap }, finish]).chatStream({
+        vaultId: 'vault-1',
+        messages,
+        signal: controller.signal
+      })
+    );
+    const timedOut = await collect(
+      clientFor(policy, [{ prefix: '9', data: swap }, finish]).chatStream({
+        vaultId: 'vault-1',
+        messages,
+        timeoutMs: 20
+      })
+    );
+
+    expect(aborted.error).toMatchObject({ name: 'AbortedError', timedOut: false });
+    expect(timedOut.error).toMatchObject({ name: 'AbortedError', timedOut: true });
+    expect(signals.map(signal => signal.aborted)).toEqual([true, true]);
+    expect((policy.auditLog as InMemoryAuditLog).denials()).toEqual([
+      expect.objectContaining({ rule: 'approval' }),
+      expect.objectContaining({ rule: 'approval' })
+    ]);
+  });
+
+  test('should check calls assembled from deltas in raw streams', async () => {
+    const policy = new WalletPolicyGate({ allowKinds: ['swap'] });
+    const transfer = [
+      { prefix: 'b', data: { toolCallId: 'call-3', toolName: 'transfer-sol' } },
+      { prefix: 'c', data: { toolCallId: 'call-3', argsTextDelta: '{"to":"abc",' } },
+      { prefix: 'c', data: { toolCallId: 'call-3', argsTextDelta: '"amount":1}' } },
+      finish
+    ];
+
+    const { chunks, error } = await collect(
+      clientFor(policy, transfer).rawStream({ vaultId: 'vault-1', messages })
+    );
+    expect(chunks.map(chunk => (chunk as unknown as { prefix: string }).prefix)).toEqual([
+      'b',
+      'c',
+      'c'
+    ]);
+    expect(error).toMatchObject({ name: 'PolicyDeniedError', rule: 'allowKinds' });
+
+    await expect(
+      clientFor(policy, transfer).chat(messages, { vaultId: 'vault-1', rawResponse: true })
+    ).rejects.toMatchObject({ rule: 'allowKinds' });
+    // Calls still streaming when the response ends are checked too
+    await expect(
+      clientFor(policy, transfer.slice(0, 3)).chat(messages, { rawResponse: true })
+    ).rejects.toMatchObject({ rule: 'allowKinds' });
+    // The deltas of a call that is also sent whole are checked once
+    await collect(
+      clientFor(policy, [
+        ...transfer.slice(0, 3),
+        { prefix: '9', data: { ...swap, toolCallId: 'call-3' } },
+        finish
+      ]).rawStream({
+        messages
+      })
+    );
+    expect((policy.auditLog as InMemoryAuditLog).entries.map(entry => entry.outcome)).toEqual([
+      'denied',
+      'denied',
+      'denied',
+      'allowed'
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect, vi } from 'vitest';
+import { AbortedError, HustleClientPool, HustleIncognitoClient } from '../src';
+import { createMockHustleServer } from '../src/testing';
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+describe('HustleClientPool', () => {
+  test('should give each tenant its own credentials and defaults', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"A"', finish] }, { chunks: ['0:"B"', finish] }]
+    });
+    const pool = new HustleClientPool({
+      defaults: { fetch: server.fetch, safeMode: false },
+      tenants: {
+        acme: { apiKey: 'acme-key', vaultId: 'acme-vault', externalWalletAddress: 'acme-wallet' },
+        globex: { apiKey: 'globex-key', userKey: 'globex-user', vaultId: 'globex-vault' }
+      }
+    });
+
+    await pool.get('acme').chat(messages);
+    await pool.get('globex').createConversation({}).send('Hi');
+
+    server.assertRequest(0, {
+      apiKey: 'acme-key',
+      vaultId: 'acme-vault',
+      externalWalletAddress: 'acme-wallet',
+      safeMode: false
+    });
+    server.assertRequest(1, { apiKey: 'globex-key', vaultId: 'globex-vault' });
+    expect(server.requests[1]?.headers['x-user-key']).toBe('globex-user');
+    expect(pool.tenantIds()).toEqual(['acme', 'globex']);
+    expect(() => pool.get('initech')).toThrow('Unknown tenant initech');
+  });
+
+  test('should load tenants on demand once', async () => {
+    const loadTenant = vi.fn(async (tenantId: string) =>
+      tenantId === 'acme' ? { apiKey: 'acme-key', vaultId: 'acme-vault' } : null
+    );
+    const pool = new HustleClientPool({ loadTenant });
+
+    const [first, second] = await Promise.all([pool.load('acme'), pool.load('acme')]);
+
+    expect(first).toBe(second);
+    expect(first.vaultId).toBe('acme-vault');
+    expect(loadTenant).toHaveBeenCalledTimes(1);
+    await expect(pool.load('initech')).rejects.toThrow('Unknown tenant initech');
+    expect(pool.remove('acme')).toBe(true);
+    expect(pool.has('acme')).toBe(false);
+  });
+
+  test('should send a unique id per conversation and per call', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: ['0:"1"', finish] },
+        { chunks: ['0:"2"', finish] },
+        { chunks: ['9:{"toolCallId":"1","toolName":"price","args":{}}', finish] },
+        { chunks: ['0:"3"', finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      vaultId: 'vault-1'
+    });
+    const first = client.createConversation({});
+    const second = client.createConversation({});
+
+    await first.send('Hi');
+    await second.send('Hi');
+    await client.chat(messages, { onToolCall: async () => [{ tool_call_id: '1', result: 1 }] });
+
+    const ids = server.requests.map(request => request.body.id);
+    expect(ids.slice(0, 2)).toEqual([first.id, second.id]);
+    expect(ids[2]).toMatch(/^chat-/);
+    // The tool round trip continues the same chat
+    expect(ids[3]).toBe(ids[2]);
+    expect(new Set(server.requests.map(request => request.body.vaultId))).toEqual(
+      new Set(['vault-1'])
+    );
+  });
+
+  test('should queue requests above the concurrency limit', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"slow"', finish], delayMs: 20 }, { chunks: ['0:"next"', finish] }]
+    });
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      maxConcurrentRequests: 1
+    });
+
+    const slow = client.chat(messages);
+    const next = client.chat(messages);
+    const aborted = client.chat(messages, { signal: AbortSignal.timeout(5) }).catch(e => e);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(server.requests).toHaveLength(1);
+    expect(await aborted).toBeInstanceOf(AbortedError);
+    expect(await slow).toMatchObject({ content: 'slow' });
+    expect(await next).toMatchObject({ content: 'next' });
+    expect(server.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HustleIncognitoClient } from '../src';
+import { createHustleProxy, type HustleProxyOptions } from '../src/proxy';
+import { createMockHustleServer, type MockResponse } from '../src/testing';
+
+// A client whose requests are answered in turn by the mock Hustle server
+function mockedClient(responses: MockResponse[] = [], vaultId?: string) {
+  const hustle = createMockHustleServer({ responses });
+  const client = new HustleIncognitoClient({ apiKey: 'secret-key', vaultId, fetch: hustle.fetch });
+  return { client, hustle };
+}
+
+let server: Server | null = null;
+
+async function startProxy(options: HustleProxyOptions): Promise<string> {
+  const app = createHustleProxy(options);
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function post(url: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${url}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+describe('OpenAI-compatible proxy', () => {
+  afterEach(async () => {
+    await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+    server = null;
+  });
+
+  test('should return a chat completion', async () => {
+    const { client, hustle } = mockedClient([
+      {
+        chunks: [
+          '0:"SOL is "',
+          '0:"$100"',
+          'd:{"finishReason":"stop","usage":{"promptTokens":10,"completionTokens":4}}'
+        ]
+      }
+    ]);
+    const url = await startProxy({ client, vaultId: 'vault-1' });
+
+    const response = await post(url, {
+      model: 'hustle',
+      messages: [
+        { role: 'developer', content: 'Be brief' },
+        { role: 'user', content: [{ type: 'text', text: 'Price of SOL?' }] }
+      ]
+    });
+    const completion = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(completion.object).toBe('chat.completion');
+    expect(completion.choices[0]).toEqual({
+      index: 0,
+      message: { role: 'assistant', content: 'SOL is $100' },
+      finish_reason: 'stop'
+    });
+    expect(completion.usage).toEqual({ prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 });
+    hustle.assertRequest(0, { vaultId: 'vault-1' });
+    expect(hustle.requests[0]?.body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Price of SOL?' }
+    ]);
+  });
+
+  test('should stream server-sent events', async () => {
+    const { client } = mockedClient([
+      {
+        chunks: [
+          '0:"Hello"',
+          '0:" there"',
+          'd:{"finishReason":"stop","usage":{"promptTokens":1,"completionTokens":2}}'
+        ]
+      }
+    ]);
+    const url = await startProxy({ client });
+
+    const response = await post(url, {
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+    const events = (await response.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => event.replace(/^data: /, ''));
+
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(events[events.length - 1]).toBe('[DONE]');
+    const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+    expect(chunks.map(chunk => chunk.choices[0]?.delta.content ?? null)).toEqual([
+      '',
+      'Hello',
+      ' there',
+      null,
+      null
+    ]);
+    expect(chunks[3].choices[0].finish_reason).toBe('stop');
+    expect(chunks[4].usage).toEqual({ prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 });
+  });
+
+  test('should take settings from headers', async () => {
+    const { client, hustle } = mockedClient([{ chunks: ['0:"ok"'] }]);
+    const url = await startProxy({ client, vaultId: 'vault-1', allowHeaderSettings: true });
+
+    await post(url, { messages: [{ role: 'user', content: 'Hi' }] }, {
+      'x-hustle-vault-id': 'vault-2',
+      'x-hustle-wallet-address': 'wallet-1',
+      'x-hustle-slippage': '{"swapSlippage":1}',
+      'x-hustle-safe-mode': 'false'
+    });
+
+    hustle.assertRequest(0, {
+      vaultId: 'vault-2',
+      externalWalletAddress: 'wallet-1',
+      slippageSettings: { swapSlippage: 1 },
+      safeMode: false
+    });
+  });
+
+  test('should ignore headers unless header settings are enabled', async () => {
+    const { client, hustle } = mockedClient([{ chunks: ['0:"ok"'] }]);
+    const url = await startProxy({ client, vaultId: 'vault-1' });
+
+    await post(url, { messages: [{ role: 'user', content: 'Hi' }] }, {
+      'x-hustle-vault-id': 'other',
+      'x-hustle-safe-mode': 'false'
+    });
+
+    expect(hustle.requests[0]?.body.vaultId).toBe('vault-1');
+    // The header cannot turn safe mode off, so the client's default stays
+    expect(hustle.requests[0]?.body.safeMode).toBe(true);
+  });
+
+  test("should fall back to the client's default vault", async () => {
+    const { client, hustle } = mockedClient([{ chunks: ['0:"ok"'] }], 'tenant-vault');
+    const url = await startProxy({ client });
+
+    await post(url, { messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(hustle.requests[0]?.body.vaultId).toBe('tenant-vault');
+  });
+
+  test('should require a valid access token when configured', async () => {
+    const { client, hustle } = mockedClient([{ chunks: ['0:"ok"'] }]);
+    const url = await startProxy({ client, accessTokens: ['proxy-token'] });
+    const body = { messages: [{ role: 'user', content: 'Hi' }] };
+
+    const denied = await post(url, body, { Authorization: 'Bearer secret-key' });
+    const allowed = await post(url, body, { Authorization: 'Bearer proxy-token' });
+
+    expect(denied.status).toBe(401);
+    expect(allowed.status).toBe(200);
+    expect(hustle.requests).toHaveLength(1);
+  });
+
+  test('should reject invalid requests', async () => {
+    const { client } = mockedClient();
+    const url = await startProxy({ client, allowHeaderSettings: true });
+
+    const missing = await post(url, { model: 'hustle' });
+    const badSlippage = await post(url, { messages: [{ role: 'user', content: 'Hi' }] }, {
+      'x-hustle-slippage': '{"swapSlippage":500}'
+    });
+
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error.type).toBe('invalid_request_error');
+    expect(badSlippage.status).toBe(400);
+    expect((await badSlippage.json()).error.message).toContain('x-hustle-slippage');
+
+    const badRole = await post(url, { messages: [{ role: 'function', content: 'Hi' }] });
+    expect(badRole.status).toBe(400);
+    expect((await badRole.json()).error).toEqual({
+      type: 'invalid_request_error',
+      code: null,
+      message: '`messages[0].role` must be one of system, developer, user, assistant, tool'
+    });
+
+    for (const content of [42, { text: 'Hi' }, [null], [{ type: 'text', text: 1 }], [{ type: 'image_url' }]]) {
+      const response = await post(url, { messages: [{ role: 'user', content }] });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatchObject({
+        type: 'invalid_request_error',
+        message: expect.stringMatching(/^`messages\[0\]\.content` /)
+      });
+    }
+  });
+
+  test('should not show resolveSettings errors to callers', async () => {
+    const { client, hustle } = mockedClient();
+    const url = await startProxy({
+      client,
+      resolveSettings: () => {
+        throw new Error('connect ECONNREFUSED 10.0.0.5:5432');
+      }
+    });
+
+    const response = await post(url, { messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe(
+      'The settings for this request could not be resolved'
+    );
+    expect(hustle.requests).toHaveLength(0);
+  });
+
+  test('should map agent errors to OpenAI errors', async () => {
+    const { client } = mockedClient([
+      { status: 429, body: 'Too many requests' },
+      { chunks: ['0:"partial"', '0:" reply"'], error: new Error('boom'), failAfter: 1 }
+    ]);
+    const url = await startProxy({ client });
+
+    const limited = await post(url, { messages: [{ role: 'user', content: 'Hi' }] });
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).error.type).toBe('RateLimitError');
+
+    const streamed = await post(url, { messages: [{ role: 'user', content: 'Hi' }], stream: true });
+    const text = await streamed.text();
+    expect(text).toContain('"error"');
+    expect(text).not.toContain('[DONE]');
+    expect(text).not.toContain('secret-key');
+  });
+
+  test('should answer with an error when the agent reports one mid-stream', async () => {
+    const server = createMockHustleServer({
+      responses: Array.from({ length: 2 }, () => ({
+        chunks: ['0:"Partial"', '3:"Upstream model failed"', 'd:{"finishReason":"stop"}']
+      }))
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'secret-key', fetch: server.fetch });
+    const url = await startProxy({ client });
+
+    const completion = await post(url, { messages: [{ role: 'user', content: 'Hi' }] });
+    expect(completion.status).toBe(502);
+    expect((await completion.json()).error).toMatchObject({
+      type: 'StreamError',
+      message: 'Upstream model failed'
+    });
+
+    const streamed = await post(url, { messages: [{ role: 'user', content: 'Hi' }], stream: true });
+    const text = await streamed.text();
+    expect(text).toContain('"Partial"');
+    expect(text).toContain('Upstream model failed');
+    expect(text).not.toContain('"finish_reason":"stop"');
+    expect(text).not.toContain('[DONE]');
+  });
+
+  test('should list the model', async () => {
+    const { client } = mockedClient();
+    const url = await startProxy({ client, model: 'hustle-incognito' });
+
+    const models = await (await fetch(`${url}/v1/models`)).json();
+
+    expect(models.data.map((model: any) => model.id)).toEqual(['hustle-incognito']);
+  });
+});
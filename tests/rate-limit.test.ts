@@ -0,0 +1,149 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import {
+  HustleIncognitoClient,
+  InMemoryTelemetryExporter,
+  QueueTimeoutError,
+  RateLimiter,
+  TELEMETRY_METRICS
+} from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { RequestPriority } from '../src/types';
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+function request(vaultId = 'vault-1', priority: RequestPriority = 'normal') {
+  return { apiKey: 'test-key', vaultId, priority };
+}
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should let bursts through and refill tokens over time', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ apiKey: { requestsPerMinute: 60, burst: 2 } });
+
+    await limiter.acquire(request());
+    await limiter.acquire(request());
+    const third = vi.fn();
+    limiter.acquire(request()).then(third);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(third).not.toHaveBeenCalled();
+    expect(limiter.metrics()).toMatchObject({ queued: 1, started: 2 });
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(third).toHaveBeenCalledWith(expect.objectContaining({ waitMs: 1000 }));
+    expect(limiter.metrics()).toMatchObject({
+      queued: 0,
+      started: 3,
+      totalWaitMs: 1000,
+      maxWaitMs: 1000
+    });
+
+    // Other API keys have their own bucket
+    await expect(limiter.acquire({ ...request(), apiKey: 'other-key' })).resolves.toBeDefined();
+  });
+
+  test('should start waiting requests by priority without blocking other vaults', async () => {
+    const limiter = new RateLimiter({ vault: { maxConcurrent: 1 } });
+    const started: string[] = [];
+    const acquire = (name: string, vaultId: string, priority: RequestPriority) =>
+      limiter.acquire(request(vaultId, priority)).then(permit => {
+        started.push(name);
+        return permit;
+      });
+
+    const first = await acquire('first', 'vault-1', 'normal');
+    const low = acquire('low', 'vault-1', 'low');
+    const high = acquire('high', 'vault-1', 'high');
+    await acquire('other vault', 'vault-2', 'low');
+
+    expect(limiter.metrics()).toMatchObject({
+      active: 2,
+      queued: 2,
+      queuedByPriority: { high: 1, normal: 0, low: 1 }
+    });
+    first.release();
+    (await high).release();
+    await low;
+
+    expect(started).toEqual(['first', 'other vault', 'high', 'low']);
+  });
+
+  test('should give up after the queue timeout or an abort', async () => {
+    const limiter = new RateLimiter({ client: { maxConcurrent: 1 }, queueTimeoutMs: 10 });
+    const permit = await limiter.acquire(request());
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire(request(), controller.signal).catch(e => e);
+    const timedOut = limiter.acquire(request()).catch(e => e);
+    controller.abort();
+
+    expect((await aborted).name).toBe('AbortError');
+    const error = await timedOut;
+    expect(error).toBeInstanceOf(QueueTimeoutError);
+    expect(error.message).toBe('Request waited more than 10ms for the rate limiter');
+    expect(limiter.metrics()).toMatchObject({ queued: 0, timedOut: 1 });
+    permit.release();
+    expect(limiter.metrics().active).toBe(0);
+    expect(() => new RateLimiter({ vault: { requestsPerMinute: 0 } })).toThrow(
+      'Rate limit requestsPerMinute must be a positive number'
+    );
+    expect(() => new RateLimiter({ apiKey: { requestsPerMinute: 10, burst: 0.5 } })).toThrow(
+      'Rate limit burst must be at least 1'
+    );
+  });
+
+  test('should drop idle scopes but keep the ones requests wait on', async () => {
+    const limiter = new RateLimiter({ vault: { maxConcurrent: 1 } });
+    const busy = await limiter.acquire(request('busy'));
+    const waiting = limiter.acquire(request('busy'));
+
+    for (let i = 0; i < 100; i++) {
+      (await limiter.acquire(request(`vault-${i}`))).release();
+    }
+
+    expect(limiter.metrics().scopes).toBeLessThan(64);
+    // The busy vault kept its count, so another request for it still waits
+    const another = limiter.acquire(request('busy'));
+    expect(limiter.metrics()).toMatchObject({ queued: 2 });
+    busy.release();
+    (await waiting).release();
+    await expect(another).resolves.toBeDefined();
+  });
+
+  test('should queue client requests and record the wait', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"slow"', finish], delayMs: 20 }, { chunks: ['0:"next"', finish] }]
+    });
+    const exporter = new InMemoryTelemetryExporter();
+    const limiter = new RateLimiter({ apiKeys: { 'test-key': { maxConcurrent: 1 } } });
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      rateLimiter: limiter,
+      telemetry: exporter
+    });
+
+    await Promise.all([
+      client.chat(messages, { vaultId: 'vault-1' }),
+      client.chat(messages, { vaultId: 'vault-1', priority: 'high' })
+    ]);
+
+    const waits = exporter.getMeasurements(TELEMETRY_METRICS.queueWait).map(m => m.value);
+    expect(waits).toHaveLength(2);
+    expect(waits[0]).toBe(0);
+    expect(waits[1]).toBeGreaterThan(0);
+    // Latency counts from the end of the wait
+    const durations = exporter.getMeasurements(TELEMETRY_METRICS.duration).map(m => m.value);
+    expect(durations[1]).toBeLessThan(waits[1] as number);
+    expect(
+      () =>
+        new HustleIncognitoClient({ apiKey: 'k', rateLimiter: limiter, maxConcurrentRequests: 1 })
+    ).toThrow('Set maxConcurrent on the rate limiter instead of maxConcurrentRequests');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, test, expect, vi } from 'vitest';
+import { HustleIncognitoClient, NetworkError, ServerError, AuthenticationError } from '../src';
+import { computeRetryDelay } from '../src/retry';
+import type { RawChunk, RetryAttempt } from '../src/types';
+
+const options = { vaultId: 'vault-1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+const fastRetry = { initialDelayMs: 1, maxDelayMs: 5, jitter: false };
+
+async function collect(stream: AsyncIterable<RawChunk>): Promise<RawChunk[]> {
+  const chunks: RawChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('retry policy', () => {
+  test('should not retry when no policy is configured', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('bad gateway', { status: 502 }));
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+
+    await expect(collect(client.rawStream(options))).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should retry transient failures and report each attempt', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('bad gateway', { status: 502 }))
+      .mockRejectedValueOnce(new TypeError('ECONNRESET'))
+      .mockResolvedValueOnce(new Response('0:"ok"\n'));
+    const attempts: RetryAttempt[] = [];
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      retry: { ...fastRetry, onRetry: attempt => attempts.push(attempt) }
+    });
+
+    const chunks = await collect(client.rawStream(options));
+
+    expect(chunks.map(chunk => chunk.data)).toEqual(['ok']);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(attempts.map(a => a.attempt)).toEqual([1, 2]);
+    expect(attempts[0].error).toBeInstanceOf(ServerError);
+    expect(attempts[1].error).toBeInstanceOf(NetworkError);
+    expect(attempts[0].maxAttempts).toBe(3);
+    expect(attempts[0].vaultId).toBe('vault-1');
+  });
+
+  test('should give up after maxAttempts', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('', { status: 503 }));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      retry: { ...fastRetry, maxAttempts: 2 }
+    });
+
+    await expect(collect(client.rawStream(options))).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not retry statuses outside the allow-list', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('', { status: 401 }));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      retry: fastRetry
+    });
+
+    await expect(collect(client.rawStream(options))).rejects.toBeInstanceOf(AuthenticationError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not retry once a chunk has been emitted', async () => {
+    let pulls = 0;
+    const failingBody = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (pulls++ === 0) controller.enqueue(new TextEncoder().encode('0:"partial"\n'));
+        else controller.error(new TypeError('socket hang up'));
+      }
+    });
+    const fetchMock = vi.fn().mockResolvedValue(new Response(failingBody));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: fetchMock,
+      retry: fastRetry
+    });
+
+    const received: unknown[] = [];
+    const error = await (async () => {
+      for await (const chunk of client.rawStream(options)) received.push(chunk.data);
+    })().catch(e => e);
+
+    expect(received).toEqual(['partial']);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should back off exponentially and honour Retry-After', () => {
+    const policy = { initialDelayMs: 100, maxDelayMs: 1000, backoffMultiplier: 2, jitter: false };
+
+    expect(computeRetryDelay(1, policy)).toBe(100);
+    expect(computeRetryDelay(3, policy)).toBe(400);
+    expect(computeRetryDelay(10, policy)).toBe(1000);
+
+    const rateLimited = new ServerError('busy', { status: 503, retryAfterMs: 500 });
+    expect(computeRetryDelay(1, policy, rateLimited)).toBe(500);
+
+    // A Retry-After longer than maxDelayMs is capped
+    const stalled = new ServerError('busy', { status: 503, retryAfterMs: 60000 });
+    expect(computeRetryDelay(1, policy, stalled)).toBe(1000);
+
+    const jittered = computeRetryDelay(1, { ...policy, jitter: true });
+    expect(jittered).toBeGreaterThanOrEqual(50);
+    expect(jittered).toBeLessThanOrEqual(100);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  HustleIncognitoClient,
+  SchemaValidationError,
+  StreamParseError,
+  WalletPolicyGate,
+  chunkSchemas,
+  getChunkSchema,
+  hustleRequestSchema,
+  isKnownChunk
+} from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { Logger, ToolResult } from '../src/types';
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _chunk of stream) {
+    // Read everything
+  }
+}
+
+describe('schemas', () => {
+  test('should describe requests and chunk payloads', () => {
+    expect(
+      hustleRequestSchema.safeParse({
+        id: 'chat-vault-1',
+        apiKey: 'test-key',
+        vaultId: 'vault-1',
+        messages,
+        currentPath: null
+      }).success
+    ).toBe(true);
+    expect(hustleRequestSchema.safeParse({ id: 'chat-vault-1', messages }).success).toBe(false);
+
+    expect(
+      chunkSchemas['9'].safeParse({ toolCallId: '1', toolName: 'swap', args: {} }).success
+    ).toBe(true);
+    // Usage the provider did not report arrives as null
+    expect(
+      chunkSchemas.d.safeParse({ finishReason: 'stop', usage: { promptTokens: null } }).success
+    ).toBe(true);
+    expect(getChunkSchema('f')?.safeParse({ id: 'msg-1' }).success).toBe(false);
+    expect(getChunkSchema('z')).toBeUndefined();
+
+    expect(isKnownChunk({ prefix: 'd', data: { finishReason: 'stop' }, raw: '' })).toBe(true);
+    expect(isKnownChunk({ prefix: 'z', data: 1, raw: '' })).toBe(false);
+  });
+
+  test('should throw SchemaValidationError for drifted chunks in strict mode', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['9:{"toolCallId":"1","name":"swap"}', finish] }]
+    });
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      strict: true
+    });
+
+    const error = await drain(client.chatStream({ vaultId: 'vault-1', messages })).catch(e => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.target).toBe('chunk 9');
+    expect(error.line).toBe('9:{"toolCallId":"1","name":"swap"}');
+    expect(error.issues.map((issue: { path: string[] }) => issue.path[0])).toEqual([
+      'toolName',
+      'args'
+    ]);
+    expect(error.message).toBe('Schema mismatch in chunk 9: toolName: Required; args: Required');
+  });
+
+  test('should log drift as a warning outside strict mode', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['f:{"id":"msg-1"}', '0:"Hello"', finish] }]
+    });
+    const logger: Logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch, logger });
+
+    const response = await client.chat(messages, { vaultId: 'vault-1' });
+
+    expect(response).toMatchObject({ content: 'Hello', messageId: null });
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Schema mismatch',
+      expect.objectContaining({ target: 'chunk f', line: 'f:{"id":"msg-1"}' })
+    );
+  });
+
+  test('should throw StreamParseError for unreadable tool call chunks outside strict mode', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: ['0:"Hi"', 'c:null', finish] },
+        { chunks: ['b:null', finish] },
+        { chunks: ['9:{"toolName":"swap"}', finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const guarded = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      walletPolicy: new WalletPolicyGate(),
+      retry: { maxAttempts: 2, initialDelayMs: 1 }
+    });
+
+    const delta = await drain(client.chatStream({ vaultId: 'vault-1', messages })).catch(e => e);
+    const start = await drain(guarded.rawStream({ vaultId: 'vault-1', messages })).catch(e => e);
+    const call = await drain(guarded.rawStream({ vaultId: 'vault-1', messages })).catch(e => e);
+
+    expect(delta).toBeInstanceOf(StreamParseError);
+    expect(delta).toMatchObject({ line: 'c:null' });
+    expect(start).toBeInstanceOf(StreamParseError);
+    expect(start.message).toMatch(/^Invalid tool call chunk b: /);
+    // The policy cannot classify a call without its fields, so it fails instead of passing
+    expect(call).toBeInstanceOf(StreamParseError);
+    // Parse errors are not retried
+    expect(server.requests).toHaveLength(3);
+  });
+
+  test('should validate requests and tool results in strict mode', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['9:{"toolCallId":"1","toolName":"price","args":{}}', finish] }]
+    });
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      strict: true
+    });
+
+    await expect(
+      client.chat(messages, {
+        vaultId: 'vault-1',
+        onToolCall: async () => [{ id: '1', result: 42 }] as unknown as ToolResult[]
+      })
+    ).rejects.toMatchObject({ name: 'SchemaValidationError', target: 'tool results' });
+
+    client.use({
+      async request(context, next) {
+        await next();
+        if (context.body) context.body.vaultId = '';
+      }
+    });
+    await expect(client.chat(messages, { vaultId: 'vault-1' })).rejects.toMatchObject({
+      name: 'SchemaValidationError',
+      target: 'request'
+    });
+    expect(server.requests).toHaveLength(1);
+  });
+});
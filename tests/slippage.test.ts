@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'vitest';
+import { HustleIncognitoClient, SLIPPAGE_PROFILES, resolveSlippageSettings } from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { SlippageSettings } from '../src/types';
+
+const messages = [{ role: 'user' as const, content: 'Swap 1 SOL to USDC' }];
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+describe('slippage settings', () => {
+  test('should apply profiles and settings from the least to the most specific level', () => {
+    expect(resolveSlippageSettings({})).toEqual({
+      settings: SLIPPAGE_PROFILES.default,
+      sources: {
+        swapSlippage: { level: 'default', profile: 'default' },
+        lpSlippage: { level: 'default', profile: 'default' },
+        pumpSlippage: { level: 'default', profile: 'default' }
+      }
+    });
+
+    const resolved = resolveSlippageSettings({
+      client: { slippageProfile: 'conservative', slippageSettings: { lpSlippage: 3 } },
+      conversation: { slippageSettings: { swapSlippage: 2 } },
+      call: { slippageSettings: { pumpSlippage: 15 } }
+    });
+    expect(resolved.settings).toEqual({ swapSlippage: 2, lpSlippage: 3, pumpSlippage: 15 });
+    expect(resolved.sources).toEqual({
+      swapSlippage: { level: 'conversation' },
+      lpSlippage: { level: 'client' },
+      pumpSlippage: { level: 'call' }
+    });
+
+    // A profile picked for the call replaces everything set above it
+    expect(
+      resolveSlippageSettings({
+        client: { slippageSettings: { lpSlippage: 3 } },
+        call: { slippageProfile: 'aggressive' }
+      }).settings
+    ).toEqual(SLIPPAGE_PROFILES.aggressive);
+  });
+
+  test('should send the resolved settings with custom profiles', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"Done"', finish] }, { chunks: ['0:"Done"', finish] }]
+    });
+    const desk: SlippageSettings = { swapSlippage: 0.5, lpSlippage: 0.5, pumpSlippage: 1 };
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      slippageProfile: 'desk',
+      slippageProfiles: { desk }
+    });
+
+    await client.chat(messages, { vaultId: 'vault-1', slippageSettings: { swapSlippage: 1 } });
+    const conversation = client.createConversation({
+      vaultId: 'vault-1',
+      slippageProfile: 'aggressive'
+    });
+    await conversation.send('Again', { slippageSettings: { pumpSlippage: 25 } });
+
+    server.assertRequest(0, {
+      slippageSettings: { swapSlippage: 1, lpSlippage: 0.5, pumpSlippage: 1 }
+    });
+    server.assertRequest(1, {
+      slippageSettings: { swapSlippage: 10, lpSlippage: 10, pumpSlippage: 25 }
+    });
+    expect(conversation.resolveSlippageSettings().sources.swapSlippage).toEqual({
+      level: 'conversation',
+      profile: 'aggressive'
+    });
+    expect(conversation.toSnapshot()).toMatchObject({ slippageProfile: 'aggressive' });
+  });
+
+  test('should reject typos, unknown profiles and values out of range', async () => {
+    const settings = (slippageSettings: object) =>
+      ({ apiKey: 'test-key', slippageSettings }) as ConstructorParameters<
+        typeof HustleIncognitoClient
+      >[0];
+
+    expect(() => new HustleIncognitoClient(settings({ swapSlipage: 1 }))).toThrow(
+      "Invalid client slippageSettings: (root): Unrecognized key(s) in object: 'swapSlipage'"
+    );
+    expect(() => new HustleIncognitoClient(settings({ pumpSlippage: 150 }))).toThrow(
+      'Invalid client slippageSettings: pumpSlippage: Number must be less than or equal to 100'
+    );
+    expect(
+      () =>
+        new HustleIncognitoClient({
+          apiKey: 'test-key',
+          slippageProfiles: { desk: { swapSlippage: 1 } as SlippageSettings }
+        })
+    ).toThrow('Invalid slippage profile desk: lpSlippage: Required; pumpSlippage: Required');
+
+    const server = createMockHustleServer({ responses: [] });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    expect(() =>
+      client.createConversation({ vaultId: 'vault-1', slippageProfile: 'yolo' })
+    ).toThrow('Unknown slippage profile yolo');
+    await expect(
+      client.chat(messages, { vaultId: 'vault-1', slippageSettings: { swapSlippage: -1 } })
+    ).rejects.toThrow('Invalid call slippageSettings');
+    expect(server.requests).toHaveLength(0);
+  });
+});
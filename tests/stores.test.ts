@@ -0,0 +1,140 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  HustleIncognitoClient,
+  MemoryConversationStore,
+  FileConversationStore,
+  KeyValueConversationStore
+} from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { ConversationSnapshot, ConversationStore, KeyValueAdapter } from '../src/types';
+
+function snapshot(id: string): ConversationSnapshot {
+  return {
+    id,
+    vaultId: 'vault-1',
+    messages: [{ id: 'm1', role: 'user', content: 'Hello' }],
+    messageIds: [],
+    usage: {},
+    pathInfo: null,
+    currentPath: null,
+    pathByMessageId: {},
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+}
+
+function mapAdapter(map: Map<string, string>): KeyValueAdapter {
+  return {
+    get: async key => map.get(key),
+    set: async (key, value) => {
+      map.set(key, value);
+    },
+    delete: async key => {
+      map.delete(key);
+    },
+    keys: async prefix => [...map.keys()].filter(key => key.startsWith(prefix))
+  };
+}
+
+let directory: string | undefined;
+
+afterEach(async () => {
+  if (directory) await rm(directory, { recursive: true, force: true });
+  directory = undefined;
+});
+
+describe('conversation stores', () => {
+  const stores: Array<[string, () => Promise<ConversationStore>]> = [
+    ['MemoryConversationStore', async () => new MemoryConversationStore()],
+    [
+      'FileConversationStore',
+      async () => {
+        directory = await mkdtemp(join(tmpdir(), 'hustle-store-'));
+        return new FileConversationStore(join(directory, 'conversations'));
+      }
+    ],
+    ['KeyValueConversationStore', async () => new KeyValueConversationStore(mapAdapter(new Map()))]
+  ];
+
+  test.each(stores)('%s should save, load, list and delete', async (_name, create) => {
+    const store = await create();
+
+    expect(await store.load('missing')).toBeNull();
+    expect(await store.list()).toEqual([]);
+
+    await store.save(snapshot('conv/1'));
+    await store.save(snapshot('conv-2'));
+
+    expect(await store.load('conv/1')).toEqual(snapshot('conv/1'));
+    expect((await store.list()).sort()).toEqual(['conv-2', 'conv/1']);
+
+    await store.delete('conv/1');
+    await store.delete('conv/1');
+    expect(await store.list()).toEqual(['conv-2']);
+  });
+
+  test('FileConversationStore should write readable JSON files', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'hustle-store-'));
+    const store = new FileConversationStore(directory);
+
+    await store.save(snapshot('abc'));
+
+    const contents = JSON.parse(await readFile(join(directory, 'abc.json'), 'utf8'));
+    expect(contents.messages[0].content).toBe('Hello');
+  });
+
+  test('should save after every reply and resume on another client', async () => {
+    const store = new KeyValueConversationStore(mapAdapter(new Map()));
+    const firstServer = createMockHustleServer({
+      responses: [
+        {
+          chunks: [
+            '0:"Hi"',
+            'f:{"messageId":"asst-1"}',
+            '2:[{"type":"path_info","path":"PATH_1"}]',
+            { prefix: 'e', data: { finishReason: 'stop', usage: { promptTokens: 3, completionTokens: 2 } } }
+          ]
+        }
+      ]
+    });
+    const first = new HustleIncognitoClient({ apiKey: 'test-key', fetch: firstServer.fetch });
+
+    const conversation = first.createConversation({
+      vaultId: 'vault-1',
+      userApiKey: 'secret-key',
+      externalWalletAddress: 'wallet-1',
+      store
+    });
+    await conversation.send('Hello');
+
+    const saved = await store.load(conversation.id);
+    expect(saved).toMatchObject({
+      vaultId: 'vault-1',
+      messageIds: ['asst-1'],
+      usage: { 'asst-1': { promptTokens: 3, completionTokens: 2, totalTokens: 5 } },
+      pathInfo: { type: 'path_info', path: 'PATH_1' },
+      currentPath: 'PATH_1',
+      externalWalletAddress: 'wallet-1'
+    });
+    expect(JSON.stringify(saved)).not.toContain('secret-key');
+
+    const secondServer = createMockHustleServer({ responses: [{ chunks: ['0:"Welcome back"'] }] });
+    const second = new HustleIncognitoClient({ apiKey: 'test-key', fetch: secondServer.fetch });
+    const resumed = await second.resumeConversation(store, conversation.id);
+    expect(resumed).not.toBeNull();
+    await resumed!.send('Still there?');
+
+    secondServer.assertRequest(0, { currentPath: 'PATH_1', externalWalletAddress: 'wallet-1' });
+    expect(secondServer.requests[0]?.body.messages.map(m => m.content)).toEqual([
+      'Hello',
+      'Hi',
+      'Still there?'
+    ]);
+    expect((await store.load(conversation.id))!.messages).toHaveLength(4);
+
+    expect(await second.resumeConversation(store, 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, test, expect } from 'vitest';
+import { HustleIncognitoClient, StreamError, StreamParseError } from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { StreamChunk } from '../src/types';
+
+function clientWithChunks(chunks: any[]) {
+  const client = new HustleIncognitoClient({ apiKey: 'test-key' });
+  // @ts-ignore - Mocking private method
+  client.rawStream = async function* () {
+    for (const chunk of chunks) yield chunk;
+  };
+  return client;
+}
+
+async function collect(client: HustleIncognitoClient): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of client.chatStream({ vaultId: 'test-vault', messages: [] })) {
+    chunks.push(chunk as StreamChunk);
+  }
+  return chunks;
+}
+
+describe('Data stream protocol', () => {
+  test('should map every chunk prefix to a typed chunk', async () => {
+    const client = clientWithChunks([
+      { prefix: 'g', data: 'Thinking about it', raw: '' },
+      { prefix: 'i', data: { data: 'opaque' }, raw: '' },
+      { prefix: 'j', data: { signature: 'sig-1' }, raw: '' },
+      { prefix: '8', data: [{ step: 'lookup' }], raw: '' },
+      { prefix: 'h', data: { sourceType: 'url', id: 's1', url: 'https://example.com' }, raw: '' },
+      { prefix: 'k', data: { data: 'aGk=', mimeType: 'text/plain' }, raw: '' },
+      { prefix: '3', data: 'Something went wrong', raw: '' },
+      { prefix: 'e', data: { finishReason: 'stop', isContinued: false }, raw: '' },
+      { prefix: 'x', data: 'unexpected', raw: 'x:"unexpected"' }
+    ]);
+
+    const chunks = await collect(client);
+
+    expect(chunks).toEqual([
+      { type: 'reasoning', value: 'Thinking about it' },
+      { type: 'redacted_reasoning', value: { data: 'opaque' } },
+      { type: 'reasoning_signature', value: { signature: 'sig-1' } },
+      { type: 'annotations', value: [{ step: 'lookup' }] },
+      { type: 'source', value: { sourceType: 'url', id: 's1', url: 'https://example.com' } },
+      { type: 'file', value: { data: 'aGk=', mimeType: 'text/plain' } },
+      { type: 'error', value: 'Something went wrong' },
+      {
+        type: 'finish',
+        value: { reason: 'stop', usage: undefined, isContinued: false, scope: 'step' }
+      },
+      {
+        type: 'unknown',
+        value: { prefix: 'x', data: 'unexpected', raw: 'x:"unexpected"' }
+      }
+    ]);
+  });
+
+  test('should throw StreamError from chat() and send() when the stream reports an error', async () => {
+    const server = createMockHustleServer({
+      responses: Array.from({ length: 2 }, () => ({
+        chunks: ['0:"Partial"', '3:"Upstream model failed"']
+      }))
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const conversation = client.createConversation({ vaultId: 'vault-1' });
+
+    const chatError = await client.chat([{ role: 'user', content: 'Hi' }]).catch(e => e);
+    const sendError = await conversation.send('Hi').catch(e => e);
+
+    expect(chatError).toBeInstanceOf(StreamError);
+    expect(chatError).toMatchObject({ message: 'Upstream model failed' });
+    expect(sendError).toBeInstanceOf(StreamError);
+    expect(sendError.vaultId).toBe('vault-1');
+    // The failed turn is not kept
+    expect(conversation.messages).toEqual([]);
+  });
+
+  test('should stream tool call deltas and pass through the final call', async () => {
+    const client = clientWithChunks([
+      { prefix: 'b', data: { toolCallId: 'call-1', toolName: 'swap' }, raw: '' },
+      { prefix: 'c', data: { toolCallId: 'call-1', argsTextDelta: '{"amount"' }, raw: '' },
+      { prefix: 'c', data: { toolCallId: 'call-1', argsTextDelta: ':5}' }, raw: '' },
+      {
+        prefix: '9',
+        data: { toolCallId: 'call-1', toolName: 'swap', args: { amount: 5 } },
+        raw: ''
+      }
+    ]);
+
+    const chunks = await collect(client);
+
+    expect(chunks.map(chunk => chunk.type)).toEqual([
+      'tool_call_delta',
+      'tool_call_delta',
+      'tool_call_delta',
+      'tool_call'
+    ]);
+    expect(chunks[2].value).toEqual({
+      toolCallId: 'call-1',
+      toolName: 'swap',
+      argsTextDelta: ':5}',
+      argsText: '{"amount":5}'
+    });
+    expect(chunks[3].value).toEqual({ toolCallId: 'call-1', toolName: 'swap', args: { amount: 5 } });
+  });
+
+  test('should assemble a complete tool call when the stream only sends deltas', async () => {
+    const client = clientWithChunks([
+      { prefix: 'b', data: { toolCallId: 'call-1', toolName: 'swap' }, raw: '' },
+      { prefix: 'c', data: { toolCallId: 'call-1', argsTextDelta: '{"token":"SOL"}' }, raw: '' },
+      { prefix: 'd', data: { finishReason: 'tool-calls' }, raw: '' }
+    ]);
+
+    const chunks = await collect(client);
+    const toolCalls = chunks.filter(chunk => chunk.type === 'tool_call');
+
+    expect(toolCalls).toEqual([
+      { type: 'tool_call', value: { toolCallId: 'call-1', toolName: 'swap', args: { token: 'SOL' } } }
+    ]);
+    // The assembled call comes before the finish chunk
+    expect(chunks[chunks.length - 1].type).toBe('finish');
+  });
+
+  test('should hand assembled tool calls to onToolCall', async () => {
+    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
+    const replies = [
+      [
+        { prefix: 'b', data: { toolCallId: 'call-1', toolName: 'price' }, raw: '' },
+        { prefix: 'c', data: { toolCallId: 'call-1', argsTextDelta: '{"token":"SOL"}' }, raw: '' }
+      ],
+      [{ prefix: '0', data: 'SOL is $100', raw: '' }]
+    ];
+    let request = 0;
+    // @ts-ignore - Mocking private method
+    client.rawStream = async function* () {
+      for (const chunk of replies[request++] || []) yield chunk;
+    };
+
+    const calls: any[] = [];
+    const response = (await client.chat([{ role: 'user', content: 'Price?' }], {
+      vaultId: 'test-vault',
+      onToolCall: async toolCalls => {
+        calls.push(...toolCalls);
+        return toolCalls.map(call => ({ tool_call_id: call.id as string, result: 100 }));
+      }
+    })) as any;
+
+    expect(calls).toEqual([{ id: 'call-1', name: 'price', arguments: { token: 'SOL' } }]);
+    expect(response.content).toBe('SOL is $100');
+  });
+
+  test('should throw StreamParseError for malformed streamed arguments', async () => {
+    const client = clientWithChunks([
+      { prefix: 'b', data: { toolCallId: 'call-1', toolName: 'swap' }, raw: '' },
+      { prefix: 'c', data: { toolCallId: 'call-1', argsTextDelta: '{"amount":' }, raw: 'c:...' }
+    ]);
+
+    await expect(collect(client)).rejects.toBeInstanceOf(StreamParseError);
+  });
+
+  test('should throw StreamParseError for a delta without a start', async () => {
+    const client = clientWithChunks([
+      { prefix: 'c', data: { toolCallId: 'missing', argsTextDelta: '{}' }, raw: 'c:...' }
+    ]);
+
+    await expect(collect(client)).rejects.toThrow(/unknown tool call missing/);
+  });
+});
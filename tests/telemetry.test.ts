@@ -0,0 +1,154 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  HustleIncognitoClient,
+  InMemoryTelemetryExporter,
+  SPAN_KIND,
+  SPAN_STATUS,
+  TELEMETRY_METRICS
+} from '../src';
+
+const options = { vaultId: 'vault-1', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+function streamResponse(lines: string[]) {
+  return new Response(lines.map(line => `${line}\n`).join(''));
+}
+
+async function drain(stream: AsyncIterable<unknown>) {
+  for await (const _chunk of stream) {
+    // Read to the end
+  }
+}
+
+describe('telemetry', () => {
+  test('should record a span for each request', async () => {
+    const exporter = new InMemoryTelemetryExporter();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      telemetry: exporter,
+      fetch: vi
+        .fn()
+        .mockResolvedValue(
+          streamResponse([
+            'g:"Thinking"',
+            '9:{"toolCallId":"call-1","toolName":"price","args":{}}',
+            'a:{"toolCallId":"call-1","result":100}',
+            '0:"SOL is $100"',
+            'd:{"finishReason":"stop","usage":{"promptTokens":12,"completionTokens":4}}'
+          ])
+        )
+    });
+
+    await drain(client.chatStream(options));
+
+    const [span] = exporter.getFinishedSpans();
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(span?.kind).toBe(SPAN_KIND.CLIENT);
+    expect(span?.status.code).toBe(SPAN_STATUS.OK);
+    expect(span?.attributes).toMatchObject({
+      'hustle.vault_id': 'vault-1',
+      'hustle.message_count': 1,
+      'hustle.attempts': 1,
+      'hustle.chunk_count': 5,
+      'hustle.tool_call_count': 1,
+      'hustle.tool_names': ['price'],
+      'hustle.finish_reason': 'stop',
+      'hustle.usage.prompt_tokens': 12,
+      'hustle.usage.completion_tokens': 4,
+      'http.response.status_code': 200
+    });
+    expect(span?.attributes['hustle.time_to_first_token_ms']).toBeGreaterThanOrEqual(0);
+    expect(span?.events.map(event => event.name)).toEqual(['first_token']);
+  });
+
+  test('should record latency, tool call and usage metrics', async () => {
+    const exporter = new InMemoryTelemetryExporter();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      telemetry: { meter: exporter.meter },
+      fetch: vi
+        .fn()
+        .mockResolvedValue(
+          streamResponse([
+            'b:{"toolCallId":"call-1","toolName":"swap"}',
+            'c:{"toolCallId":"call-1","argsTextDelta":"{}"}',
+            '0:"Done"',
+            'e:{"finishReason":"tool-calls","usage":{"promptTokens":5,"completionTokens":2}}',
+            'e:{"finishReason":"stop","usage":{"promptTokens":7,"completionTokens":3}}'
+          ])
+        )
+    });
+
+    await drain(client.rawStream(options));
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    expect(exporter.getMeasurements(TELEMETRY_METRICS.duration)).toHaveLength(1);
+    expect(exporter.getMeasurements(TELEMETRY_METRICS.duration)[0]?.unit).toBe('ms');
+    expect(exporter.getMeasurements(TELEMETRY_METRICS.timeToFirstToken)).toHaveLength(1);
+    expect(exporter.getMeasurements(TELEMETRY_METRICS.chunksPerSecond)[0]?.value).toBeGreaterThan(
+      0
+    );
+    expect(exporter.getMeasurements(TELEMETRY_METRICS.toolCalls)).toEqual([
+      expect.objectContaining({
+        value: 1,
+        attributes: {
+          'hustle.vault_id': 'vault-1',
+          'hustle.message_count': 1,
+          'hustle.tool_name': 'swap'
+        }
+      })
+    ]);
+    // Step usage is summed when there is no message finish
+    expect(
+      exporter
+        .getMeasurements(TELEMETRY_METRICS.tokenUsage)
+        .map(m => [m.attributes['hustle.token_type'], m.value])
+    ).toEqual([
+      ['prompt', 12],
+      ['completion', 5]
+    ]);
+  });
+
+  test('should record retries and failures', async () => {
+    const exporter = new InMemoryTelemetryExporter();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      telemetry: exporter,
+      retry: { maxAttempts: 2, initialDelayMs: 1, jitter: false },
+      fetch: vi.fn().mockResolvedValue(new Response('unavailable', { status: 503 }))
+    });
+
+    await expect(drain(client.rawStream(options))).rejects.toThrow('503');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.status).toMatchObject({ code: SPAN_STATUS.ERROR });
+    expect(span?.attributes).toMatchObject({
+      'hustle.attempts': 2,
+      'error.type': 'ServerError',
+      'http.response.status_code': 503
+    });
+    expect(span?.events.map(event => [event.name, event.attributes['hustle.attempt']])).toEqual([
+      ['retry', 1]
+    ]);
+    expect(span?.exceptions).toHaveLength(1);
+    expect(exporter.getMeasurements(TELEMETRY_METRICS.duration)[0]?.attributes['error.type']).toBe(
+      'ServerError'
+    );
+  });
+
+  test('should end the span when the consumer stops early', async () => {
+    const exporter = new InMemoryTelemetryExporter();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      telemetry: exporter,
+      fetch: vi.fn().mockResolvedValue(streamResponse(['0:"One"', '0:"Two"', '0:"Three"']))
+    });
+
+    for await (const _chunk of client.rawStream(options)) break;
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(exporter.getFinishedSpans()[0]?.attributes['hustle.chunk_count']).toBe(1);
+    exporter.reset();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    expect(exporter.getMeasurements()).toHaveLength(0);
+  });
+});
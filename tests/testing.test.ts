@@ -0,0 +1,132 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HustleIncognitoClient, AbortedError, NetworkError, ServerError } from '../src';
+import { createMockHustleServer, loadFixture } from '../src/testing';
+import type { StreamChunk, ProcessedResponse } from '../src/types';
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+async function collect(stream: AsyncIterable<unknown>) {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk as StreamChunk);
+  return chunks;
+}
+
+describe('mock Hustle server', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  test('should replay scripted chunks through the real parser', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        {
+          // Three bytes per read splits lines and the multi-byte emoji
+          chunking: 3,
+          chunks: [
+            '0:"Hello 🚀"',
+            { prefix: '2', data: [{ path: 'PATH_1' }] },
+            { prefix: 'd', data: { finishReason: 'stop', usage: { promptTokens: 2 } } }
+          ]
+        }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const chunks = await collect(client.chatStream({ vaultId: 'vault-1', messages }));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['text', 'path_info', 'finish']);
+    expect(chunks[0]?.value).toBe('Hello 🚀');
+    server.assertRequest(0, { vaultId: 'vault-1', messages: [{ role: 'user', content: 'Hi' }] });
+    expect(server.lastRequest?.url).toBe('https://agenthustle.ai/api/chat');
+    server.assertDone();
+  });
+
+  test('should drive a client-side tool loop and check each request', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: ['9:{"toolCallId":"call-1","toolName":"lookup","args":{"q":"SOL"}}'] },
+        request => ({
+          chunks: [`0:"Found ${request.body.messages.length - 1} earlier message"`]
+        })
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const response = (await client.chat(messages, {
+      vaultId: 'vault-1',
+      onToolCall: async calls => calls.map(call => ({ tool_call_id: call.id!, result: 100 }))
+    })) as ProcessedResponse;
+
+    expect(response.content).toBe('Found 1 earlier message');
+    server.assertRequest(1, {
+      messages: [
+        { role: 'user' },
+        { role: 'assistant', toolInvocations: [{ toolCallId: 'call-1', result: 100 }] }
+      ]
+    });
+    expect(() => server.assertRequest(1, { vaultId: 'other' })).toThrow(
+      'Request 1 does not match: body.vaultId should be "other", got "vault-1"'
+    );
+  });
+
+  test('should delay reads and honour aborts', async () => {
+    const server = createMockHustleServer({
+      responses: [{ chunks: ['0:"slow"'], delayMs: 200 }]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    await expect(
+      collect(client.rawStream({ vaultId: 'vault-1', messages, timeoutMs: 20 }))
+    ).rejects.toBeInstanceOf(AbortedError);
+  });
+
+  test('should simulate error statuses and dropped connections', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { status: 503, body: 'unavailable' },
+        { chunks: ['0:"one"', '0:"two"'], failAfter: 1 },
+        { error: new TypeError('fetch failed') }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const stream = () => collect(client.rawStream({ vaultId: 'vault-1', messages }));
+
+    await expect(stream()).rejects.toBeInstanceOf(ServerError);
+    await expect(stream()).rejects.toBeInstanceOf(NetworkError);
+    await expect(stream()).rejects.toThrow('fetch failed');
+    await expect(stream()).rejects.toThrow('No scripted response left for request 3');
+  });
+
+  test('should record real streams to a fixture and replay them', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'hustle-fixtures-'));
+    const fixture = join(directory, 'price.json');
+    const upstream = vi.fn().mockResolvedValue(
+      new Response('0:"SOL is $100"\nd:{"finishReason":"stop"}\n', {
+        headers: { 'x-request-id': 'req-1', 'set-cookie': 'session=secret' }
+      })
+    );
+
+    const recorder = createMockHustleServer({ mode: 'record', fixture, fetch: upstream });
+    const recording = new HustleIncognitoClient({ apiKey: 'real-key', fetch: recorder.fetch });
+    const live = await recording.chat(messages, { vaultId: 'vault-1' });
+    await recorder.save();
+
+    const saved = await loadFixture(fixture);
+    expect(saved.exchanges).toHaveLength(1);
+    expect(saved.exchanges[0]?.response.lines).toEqual([
+      '0:"SOL is $100"',
+      'd:{"finishReason":"stop"}'
+    ]);
+    expect(await readFile(fixture, 'utf8')).not.toMatch(/real-key|session=secret/);
+
+    const replay = createMockHustleServer({ fixture });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: replay.fetch });
+    expect(await client.chat(messages, { vaultId: 'vault-1' })).toEqual(live);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, test, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { HustleIncognitoClient, ToolExecutionError, defineTool } from '../src';
+import { createMockHustleServer } from '../src/testing';
+import type { ProcessedResponse } from '../src/types';
+
+const messages = [{ role: 'user' as const, content: 'What is SOL worth?' }];
+
+const finish = { prefix: 'd', data: { finishReason: 'stop' } };
+
+function toolCall(toolName: string, args: Record<string, unknown>, toolCallId = 'call-1') {
+  return { prefix: '9', data: { toolCallId, toolName, args } };
+}
+
+const priceTool = defineTool({
+  name: 'internal-price',
+  description: 'Price of a token from the internal feed',
+  parameters: z.object({ symbol: z.string(), currency: z.string().default('USD') }),
+  execute: async ({ symbol, currency }) => ({ symbol, currency, price: 100 })
+});
+
+describe('registered tools', () => {
+  test('should run a registered tool with parsed arguments and send the result back', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: [toolCall('internal-price', { symbol: 'SOL' }), finish] },
+        { chunks: ['0:"SOL is $100"', finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const execute = vi.spyOn(priceTool, 'execute');
+    client.registerTool(priceTool);
+
+    const response = (await client.chat(messages, { vaultId: 'vault-1' })) as ProcessedResponse;
+
+    expect(response.content).toBe('SOL is $100');
+    expect(execute).toHaveBeenCalledWith(
+      { symbol: 'SOL', currency: 'USD' },
+      expect.objectContaining({ toolCallId: 'call-1', vaultId: 'vault-1' })
+    );
+    server.assertRequest(1, {
+      messages: [
+        messages[0],
+        {
+          role: 'assistant',
+          toolInvocations: [
+            {
+              toolCallId: 'call-1',
+              toolName: 'internal-price',
+              result: { symbol: 'SOL', currency: 'USD', price: 100 }
+            }
+          ]
+        }
+      ]
+    });
+    execute.mockRestore();
+  });
+
+  test('should answer calls with invalid arguments with an error instead of running the tool', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        { chunks: [toolCall('portfolio', { desk: 7 }), finish] },
+        { chunks: ['0:"Which desk?"', finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    const execute = vi.fn();
+    client.registerTool({
+      name: 'portfolio',
+      description: 'Positions held by a desk',
+      parameters: z.object({ desk: z.string() }),
+      execute
+    });
+
+    await client.chat(messages, { vaultId: 'vault-1' });
+
+    expect(execute).not.toHaveBeenCalled();
+    const sent = server.requests[1]?.body.messages[1]?.toolInvocations?.[0];
+    expect(sent?.result).toEqual({
+      error: 'Invalid arguments for portfolio: desk: Expected string, received number'
+    });
+  });
+
+  test('should hand unregistered tools to onToolCall and wrap failures', async () => {
+    const server = createMockHustleServer({
+      responses: [
+        {
+          chunks: [
+            toolCall('internal-price', { symbol: 'SOL' }, 'call-1'),
+            toolCall('weather', { city: 'Oslo' }, 'call-2'),
+            finish
+          ]
+        },
+        { chunks: ['0:"Done"', finish] },
+        { chunks: [toolCall('broken', {}), finish] }
+      ]
+    });
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: server.fetch });
+    client.registerTool(priceTool).registerTool({
+      name: 'broken',
+      description: 'Always fails',
+      parameters: z.object({}),
+      execute: () => {
+        throw new Error('feed down');
+      }
+    });
+    const onToolCall = vi.fn(async () => [{ tool_call_id: 'call-2', result: 'sunny' }]);
+
+    await client.chat(messages, { vaultId: 'vault-1', onToolCall });
+
+    expect(onToolCall).toHaveBeenCalledWith([
+      { id: 'call-2', name: 'weather', arguments: { city: 'Oslo' } }
+    ]);
+    expect(
+      server.requests[1]?.body.messages[1]?.toolInvocations?.map(invocation => invocation.result)
+    ).toEqual([{ symbol: 'SOL', currency: 'USD', price: 100 }, 'sunny']);
+
+    const error = await client.chat(messages, { vaultId: 'vault-1' }).catch(e => e);
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.message).toBe('Tool broken failed: Error: feed down');
+    expect(error.toolCalls).toEqual([{ id: 'call-1', name: 'broken', arguments: {} }]);
+  });
+
+  test('should refuse duplicate names and allow unregistering', () => {
+    const client = new HustleIncognitoClient({ apiKey: 'test-key' });
+    client.registerTool(priceTool);
+
+    expect(() => client.registerTool(priceTool)).toThrow(
+      'Tool internal-price is already registered'
+    );
+    expect(client.unregisterTool('internal-price')).toBe(true);
+    expect(client.unregisterTool('internal-price')).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  HustleIncognitoClient,
+  UsageTracker,
+  UsageAccumulator,
+  BudgetExceededError,
+  toUsage
+} from '../src';
+import type { ProcessedResponse } from '../src/types';
+
+function usageResponse(promptTokens: number, completionTokens: number) {
+  return new Response(
+    `0:"ok"\nd:{"finishReason":"stop","usage":{"promptTokens":${promptTokens},"completionTokens":${completionTokens}}}\n`
+  );
+}
+
+describe('usage', () => {
+  test('should normalize reported usage', () => {
+    expect(toUsage({ promptTokens: 3, completionTokens: 2 })).toEqual({
+      promptTokens: 3,
+      completionTokens: 2,
+      totalTokens: 5
+    });
+    expect(toUsage({ promptTokens: NaN, totalTokens: 9 })).toEqual({
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 9
+    });
+    expect(toUsage({})).toBeNull();
+    expect(toUsage(undefined)).toBeNull();
+  });
+
+  test('should not double count step usage covered by a message finish', () => {
+    const usage = new UsageAccumulator();
+    usage.add({ usage: { promptTokens: 5, completionTokens: 1 }, scope: 'step' });
+    usage.add({ usage: { promptTokens: 7, completionTokens: 2 }, scope: 'step' });
+    usage.add({ usage: { promptTokens: 12, completionTokens: 3 }, scope: 'message' });
+    // A follow-up request that only reports steps
+    usage.add({ usage: { promptTokens: 4, completionTokens: 4 }, scope: 'step' });
+
+    expect(usage.total).toEqual({ promptTokens: 16, completionTokens: 7, totalTokens: 23 });
+  });
+
+  test('should sum usage across tool round trips in chat', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(
+          '9:{"toolCallId":"call-1","toolName":"lookup","args":{}}\nd:{"finishReason":"tool-calls","usage":{"promptTokens":10,"completionTokens":2}}\n'
+        )
+      )
+      .mockResolvedValueOnce(usageResponse(20, 5));
+    const client = new HustleIncognitoClient({ apiKey: 'test-key', fetch: fetchMock });
+
+    const response = (await client.chat([{ role: 'user', content: 'Hi' }], {
+      vaultId: 'vault-1',
+      onToolCall: async calls => calls.map(call => ({ tool_call_id: call.id!, result: 1 }))
+    })) as ProcessedResponse;
+
+    expect(response.usage).toEqual({ promptTokens: 30, completionTokens: 7, totalTokens: 37 });
+  });
+});
+
+describe('UsageTracker', () => {
+  test('should sum usage per client, vault and conversation', async () => {
+    const tracker = new UsageTracker();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      usageTracker: tracker,
+      fetch: vi.fn().mockImplementation(async () => usageResponse(10, 5))
+    });
+
+    await client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-1' });
+    await client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-2' });
+    const conversation = client.createConversation({ vaultId: 'vault-2' });
+    await conversation.send('Hello');
+
+    expect(tracker.getTotal()).toEqual({ promptTokens: 30, completionTokens: 15, totalTokens: 45 });
+    expect(tracker.getVaultUsage('vault-2').totalTokens).toBe(30);
+    expect(tracker.getReport()).toEqual({
+      total: { promptTokens: 30, completionTokens: 15, totalTokens: 45 },
+      vaults: {
+        'vault-1': { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        'vault-2': { promptTokens: 20, completionTokens: 10, totalTokens: 30 }
+      },
+      conversations: {
+        [conversation.id]: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+      }
+    });
+
+    tracker.reset();
+    expect(tracker.getTotal().totalTokens).toBe(0);
+  });
+
+  test('should refuse requests once a budget is used up', async () => {
+    const onBudgetExceeded = vi.fn();
+    const fetchMock = vi.fn().mockImplementation(async () => usageResponse(10, 5));
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      usageTracker: new UsageTracker({
+        budgets: { vault: { totalTokens: 100 }, vaults: { 'vault-1': { promptTokens: 10 } } },
+        onBudgetExceeded
+      }),
+      fetch: fetchMock
+    });
+
+    await client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-1' });
+    const error = await client
+      .chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-1' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.message).toBe('Usage budget for vault vault-1 is used up: 10 of 10 promptTokens');
+    expect(error.budget).toMatchObject({ scope: 'vault', id: 'vault-1', limit: 'promptTokens' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onBudgetExceeded).toHaveBeenCalledTimes(1);
+
+    // Other vaults have their own budget
+    await client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-2' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('should only warn when configured to', async () => {
+    const warn = vi.fn();
+    const client = new HustleIncognitoClient({
+      apiKey: 'test-key',
+      logger: { debug: () => {}, info: () => {}, warn, error: () => {} },
+      usageTracker: new UsageTracker({
+        budgets: { client: { totalTokens: 10 } },
+        onExceeded: 'warn'
+      }),
+      fetch: vi.fn().mockImplementation(async () => usageResponse(10, 5))
+    });
+
+    await client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-1' });
+    await client.chat([{ role: 'user', content: 'Hi' }], { vaultId: 'vault-1' });
+
+    expect(warn).toHaveBeenCalledWith(
+      'Usage budget exceeded',
+      expect.objectContaining({
+        budget: expect.objectContaining({ scope: 'client', limit: 'totalTokens', max: 10 })
+      })
+    );
+  });
+});